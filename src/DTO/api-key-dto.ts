@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiKey, Scope } from '../entities/api-keys/api-key.entity';
+
+export class CreateApiKeyDTO {
+  @ApiProperty({ example: 'backup script' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: Scope, isArray: true, example: [Scope.PostsWrite] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(Scope, { each: true })
+  scopes: Scope[];
+
+  @ApiProperty({
+    description: 'Days until the key expires',
+    example: 90,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expiresInDays?: number;
+}
+
+export class CreateApiKeyDTOResponse {
+  @ApiProperty({ type: ApiKey })
+  apiKey: ApiKey;
+
+  @ApiProperty({
+    description: 'The key itself; it is not shown again',
+    example: 'hs_3f9a1c2b4d5e_q8XrT0...',
+  })
+  key: string;
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateCommentDTO {
+  @ApiProperty({ example: 'This is a comment' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  text: string;
+
+  @ApiProperty({
+    description: 'Comment to reply to, on the same post',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  parentId?: string;
+}
+
+export class UpdateCommentDTO {
+  @ApiProperty({ example: 'This is an edited comment' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  text: string;
+}
@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { PaginationQueryDTO } from '../common/pagination/pagination.dto';
+
+// Creator included
+export const MAX_PARTICIPANTS = 256;
+export const MAX_TITLE_LENGTH = 100;
+
+export class AddParticipantsDTO {
+  @ApiProperty({ type: [String], description: 'User ids' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_PARTICIPANTS - 1)
+  @IsMongoId({ each: true })
+  participants: string[];
+}
+
+export class UpdateConversationDTO {
+  @ApiProperty({ example: 'Weekend trip', maxLength: MAX_TITLE_LENGTH })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_TITLE_LENGTH)
+  title: string;
+}
+
+export class CreateConversationDTO extends AddParticipantsDTO {
+  @ApiProperty({ example: 'Weekend trip', maxLength: MAX_TITLE_LENGTH })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_TITLE_LENGTH)
+  title: string;
+}
+
+// Newest first; cursor, newerCursor and around exclude each other
+export class MessageHistoryQueryDTO extends PaginationQueryDTO {
+  @ApiProperty({
+    required: false,
+    description: 'newerCursor of a page, to scroll back towards the newest',
+  })
+  @IsOptional()
+  @IsString()
+  newerCursor?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Message id; returns the page with it in the middle',
+  })
+  @IsOptional()
+  @IsMongoId()
+  around?: string;
+}
+
+export class MarkReadDTO {
+  @ApiProperty({
+    required: false,
+    description: 'Last message read; the newest one when left out',
+  })
+  @IsOptional()
+  @IsMongoId()
+  messageId?: string;
+}
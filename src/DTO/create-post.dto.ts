@@ -1,5 +1,21 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsArray, IsNotEmpty, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import { IsString, IsArray, IsNotEmpty, IsOptional, IsNumber, Min, Max, ValidateNested, IsMongoId, ArrayMaxSize, IsEnum, IsDate } from 'class-validator';
+import { PostStatus } from '../entities/post/post.entity';
+
+export class CoordinatesDto {
+  @ApiProperty({ example: 41.9028 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({ example: 12.4964 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+}
 
 export class CreatePostDto {
   @ApiProperty({
@@ -35,4 +51,45 @@ export class CreatePostDto {
   @IsString({ each: true })
   @IsOptional()
   tags?: string[];
-} 
\ No newline at end of file
+
+  @ApiProperty({
+    description: 'Where the post was made; looked up from location when left out',
+    type: CoordinatesDto,
+    required: false
+  })
+  @ValidateNested()
+  @Type(() => CoordinatesDto)
+  @IsOptional()
+  coordinates?: CoordinatesDto;
+
+  @ApiProperty({
+    description: 'Ids of images uploaded to /media, in display order',
+    type: [String],
+    required: false
+  })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsMongoId({ each: true })
+  @IsOptional()
+  media?: string[];
+
+  @ApiProperty({
+    description: 'Drafts and scheduled posts are only visible to their author',
+    enum: PostStatus,
+    default: PostStatus.Published,
+    required: false
+  })
+  @IsEnum(PostStatus)
+  @IsOptional()
+  status?: PostStatus;
+
+  @ApiProperty({
+    description: 'When a scheduled post is published; required for scheduled posts',
+    example: '2030-01-01T09:00:00.000Z',
+    required: false
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  publishAt?: Date;
+}
\ No newline at end of file
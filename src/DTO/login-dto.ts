@@ -16,6 +16,9 @@ export class LoginDTOResponse {
   @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
   accessToken: string;
 
+  @ApiProperty({ example: '3f1c2d9e-5b7a-4e8f-9c0d-1a2b3c4d5e6f.q8Xr...' })
+  refreshToken: string;
+
   @ApiProperty({
     example: {
       _id: '507f1f77bcf86cd799439011',
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+export class OidcCallbackDTO {
+  @ApiProperty({
+    description: 'Authorization code returned by the provider',
+    example: 'SplxlOBeZQQYbYS6WxSbIA',
+  })
+  @IsString()
+  code: string;
+
+  @ApiProperty({
+    description: 'State returned by the provider',
+    example: 'af0ifjsldkj',
+  })
+  @IsString()
+  state: string;
+}
+
+export class OidcAuthorizationDTOResponse {
+  @ApiProperty({
+    description: 'URL to send the browser to',
+    example:
+      'https://accounts.google.com/o/oauth2/v2/auth?response_type=code&client_id=...',
+  })
+  authorizationUrl: string;
+}
+
+export class OidcProvidersDTOResponse {
+  @ApiProperty({ example: ['google'], type: [String] })
+  providers: string[];
+}
@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, MinLength } from 'class-validator';
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+export class ForgotPasswordDTO {
+  @ApiProperty({ example: 'john.doe@example.com' })
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDTO {
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  @IsString()
+  token: string;
+
+  @ApiProperty({ example: 'newPassword123' })
+  @IsString()
+  @MinLength(MIN_PASSWORD_LENGTH)
+  password: string;
+}
+
+export class MessageDTOResponse {
+  @ApiProperty({ example: 'Password updated successfully' })
+  message: string;
+}
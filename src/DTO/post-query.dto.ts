@@ -0,0 +1,177 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsNumber,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PaginationQueryDTO } from '../common/pagination/pagination.dto';
+import { PostStatus } from '../entities/post/post.entity';
+
+export enum PostSort {
+  Recent = 'recent',
+  Likes = 'likes',
+}
+
+export enum TagMatch {
+  Any = 'any',
+  All = 'all',
+}
+
+export class PostListQueryDTO extends PaginationQueryDTO {
+  @ApiProperty({ required: false, enum: PostSort, default: PostSort.Recent })
+  @IsOptional()
+  @IsEnum(PostSort)
+  sort?: PostSort;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only posts created at or after this date',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiProperty({
+    required: false,
+    description: 'Only posts created before this date',
+    example: '2024-02-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @ApiProperty({
+    required: false,
+    description: 'Part of the location, ignoring case',
+    example: 'Rome',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  location?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Comma separated tags',
+    example: 'travel,photo',
+    type: String,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((tag) => tag.trim())
+          .filter((tag) => tag.length > 0)
+      : value,
+  )
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiProperty({
+    required: false,
+    enum: TagMatch,
+    default: TagMatch.Any,
+    description: 'Whether posts need any or all of the tags',
+  })
+  @IsOptional()
+  @IsEnum(TagMatch)
+  tagMode?: TagMatch;
+
+  @ApiProperty({
+    required: false,
+    enum: PostStatus,
+    description: 'Only posts in this state; others only see published posts',
+  })
+  @IsOptional()
+  @IsEnum(PostStatus)
+  status?: PostStatus;
+}
+
+export class SearchPostsQueryDTO extends PaginationQueryDTO {
+  @ApiProperty({
+    description:
+      'Words to look for. Quote a phrase to require it; end a word with * to match it as a prefix',
+    example: 'garden "olive oil" tomat*',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q: string;
+}
+
+export const DEFAULT_RADIUS_METERS = 5000;
+export const MAX_RADIUS_METERS = 200000;
+
+export class NearPostsQueryDTO extends PaginationQueryDTO {
+  @ApiProperty({ example: 41.9028 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({ example: 12.4964 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'In meters',
+    default: DEFAULT_RADIUS_METERS,
+    maximum: MAX_RADIUS_METERS,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(MAX_RADIUS_METERS)
+  radius?: number;
+}
+
+export class WithinPostsQueryDTO extends PaginationQueryDTO {
+  @ApiProperty({ example: 41.8 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  minLat: number;
+
+  @ApiProperty({ example: 12.4 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  minLng: number;
+
+  @ApiProperty({ example: 42 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  maxLat: number;
+
+  @ApiProperty({ example: 12.6 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  maxLng: number;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsMongoId,
+} from 'class-validator';
+
+export class PresenceQueryDTO {
+  @ApiProperty({
+    description: 'Comma separated user ids',
+    example: '665f1c2a9b1e8a0012345678,665f1c2a9b1e8a0012345679',
+    type: String,
+  })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((id) => id.trim())
+          .filter((id) => id.length > 0)
+      : value,
+  )
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsMongoId({ each: true })
+  users: string[];
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+export class RefreshTokenDTO {
+  @ApiProperty({ example: '3f1c2d9e-5b7a-4e8f-9c0d-1a2b3c4d5e6f.q8Xr...' })
+  @IsString()
+  refreshToken: string;
+}
+
+export class RefreshTokenDTOResponse {
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  accessToken: string;
+
+  @ApiProperty({ example: '3f1c2d9e-5b7a-4e8f-9c0d-1a2b3c4d5e6f.q8Xr...' })
+  refreshToken: string;
+}
@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export enum TrendWindow {
+  Hour = '1h',
+  Day = '24h',
+  Week = '7d',
+}
+
+export const DEFAULT_TRENDING_LIMIT = 10;
+export const DEFAULT_TAG_STATS_DAYS = 30;
+
+export class TrendingTagsQueryDTO {
+  @ApiProperty({ required: false, enum: TrendWindow, default: TrendWindow.Day })
+  @IsOptional()
+  @IsEnum(TrendWindow)
+  window?: TrendWindow;
+
+  @ApiProperty({
+    required: false,
+    default: DEFAULT_TRENDING_LIMIT,
+    minimum: 1,
+    maximum: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
+
+export class TagStatsQueryDTO {
+  @ApiProperty({
+    required: false,
+    description: 'How many days back the statistics cover',
+    default: DEFAULT_TAG_STATS_DAYS,
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days?: number;
+}
@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class TwoFactorCodeDTO {
+  @ApiProperty({ example: '123456' })
+  @IsString()
+  code: string;
+}
+
+export class TwoFactorVerifyDTO {
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  @IsString()
+  challengeToken: string;
+
+  @ApiProperty({
+    description: 'Code from the authenticator app or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  code: string;
+}
+
+export class TwoFactorDisableDTO {
+  @ApiProperty({
+    description: 'Not needed for accounts without a password',
+    example: 'password123',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  password?: string;
+
+  @ApiProperty({
+    description: 'Code from the authenticator app or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  code: string;
+}
+
+export class TwoFactorEnrollDTOResponse {
+  @ApiProperty({ example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP' })
+  secret: string;
+
+  @ApiProperty({
+    example:
+      'otpauth://totp/HomeServices%3Aale%40ale.com?secret=JBSWY3DPEHPK3PXP&issuer=HomeServices',
+  })
+  otpauthUri: string;
+}
+
+export class TwoFactorRecoveryCodesDTOResponse {
+  @ApiProperty({ example: ['1A2B3-C4D5E', '6F7A8-B9C0D'], type: [String] })
+  recoveryCodes: string[];
+}
+
+export class TwoFactorChallengeDTOResponse {
+  @ApiProperty({ example: true })
+  twoFactorRequired: true;
+
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+  challengeToken: string;
+}
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { Gender, Role } from '../entities/users/users.entity';
+
+// Email, password and security settings have their own flows
+export class UpdateUserDTO {
+  @ApiProperty({ example: 'John', required: false })
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @ApiProperty({ example: 'Doe', required: false })
+  @IsString()
+  @IsOptional()
+  surname?: string;
+
+  @ApiProperty({ enum: Gender, example: Gender.Male, required: false })
+  @IsEnum(Gender)
+  @IsOptional()
+  gender?: Gender;
+
+  @ApiProperty({ example: 'I love photography and traveling', required: false })
+  @IsString()
+  @IsOptional()
+  bio?: string;
+
+  @ApiProperty({ example: 'johndoe', required: false })
+  @IsString()
+  @IsOptional()
+  username?: string;
+
+  @ApiProperty({
+    enum: Role,
+    example: Role.Customer,
+    required: false,
+    description: 'Admins only',
+  })
+  @IsEnum(Role)
+  @IsOptional()
+  role?: Role;
+}
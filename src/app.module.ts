@@ -7,6 +7,10 @@ import { ChatModule } from './chat/chat.module';
 import { ConfigModule } from '@nestjs/config';
 import { RedisModule } from './redis/redis.module';
 import { PostModule } from './post/post.module';
+import { PoliciesModule } from './policies/policies.module';
+import { FeedModule } from './feed/feed.module';
+import { MediaModule } from './media/media.module';
+import { TagsModule } from './tags/tags.module';
 
 dotenv.config();
 
@@ -20,7 +24,11 @@ dotenv.config();
     UsersModule,
     ChatModule,
     PostModule,
+    FeedModule,
+    MediaModule,
+    TagsModule,
     RedisModule,
+    PoliciesModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
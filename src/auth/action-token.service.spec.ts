@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ActionTokenPurpose, ActionTokenService } from './action-token.service';
+
+describe('ActionTokenService', () => {
+  let service: ActionTokenService;
+
+  const store = new Map<string, string>();
+  const mockRedisClient = {
+    set: jest.fn((key: string, value: string) => {
+      store.set(key, value);
+      return Promise.resolve('OK');
+    }),
+    del: jest.fn((key: string) => Promise.resolve(store.delete(key) ? 1 : 0)),
+    exists: jest.fn((key: string) => Promise.resolve(store.has(key) ? 1 : 0)),
+  };
+
+  beforeEach(async () => {
+    store.clear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ActionTokenService,
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        { provide: 'REDIS_CLIENT', useValue: mockRedisClient },
+      ],
+    }).compile();
+
+    service = module.get<ActionTokenService>(ActionTokenService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should return the user id once', async () => {
+    const token = await service.issue(
+      ActionTokenPurpose.ResetPassword,
+      'user-id',
+      60,
+    );
+
+    await expect(
+      service.consume(token, ActionTokenPurpose.ResetPassword),
+    ).resolves.toBe('user-id');
+    await expect(
+      service.consume(token, ActionTokenPurpose.ResetPassword),
+    ).rejects.toThrow('already been used');
+  });
+
+  it('should verify without burning the token', async () => {
+    const token = await service.issue(
+      ActionTokenPurpose.TwoFactorLogin,
+      'user-id',
+      60,
+    );
+
+    await expect(
+      service.verify(token, ActionTokenPurpose.TwoFactorLogin),
+    ).resolves.toBe('user-id');
+    await expect(
+      service.consume(token, ActionTokenPurpose.TwoFactorLogin),
+    ).resolves.toBe('user-id');
+    await expect(
+      service.verify(token, ActionTokenPurpose.TwoFactorLogin),
+    ).rejects.toThrow('already been used');
+  });
+
+  it('should reject a token issued for another purpose', async () => {
+    const token = await service.issue(
+      ActionTokenPurpose.VerifyEmail,
+      'user-id',
+      60,
+    );
+
+    await expect(
+      service.consume(token, ActionTokenPurpose.ResetPassword),
+    ).rejects.toThrow(BadRequestException);
+    expect(store.size).toBe(1);
+  });
+
+  it('should reject tampered tokens', async () => {
+    await expect(
+      service.consume('not-a-token', ActionTokenPurpose.VerifyEmail),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,86 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { randomUUID } from 'crypto';
+import { RedisClientType } from 'redis';
+
+export enum ActionTokenPurpose {
+  VerifyEmail = 'verify-email',
+  ResetPassword = 'reset-password',
+  TwoFactorLogin = 'two-factor-login',
+}
+
+interface ActionTokenPayload {
+  sub: string;
+  purpose: ActionTokenPurpose;
+  jti: string;
+}
+
+/**
+ * Signed, expiring tokens that authorise a single account action. Each token
+ * id is kept in Redis until the token is used or expires, so a token can be
+ * consumed only once.
+ */
+@Injectable()
+export class ActionTokenService {
+  constructor(
+    private jwtService: JwtService,
+    @Inject('REDIS_CLIENT') private readonly redisClient: RedisClientType,
+  ) {}
+
+  async issue(
+    purpose: ActionTokenPurpose,
+    userId: string,
+    ttlSeconds: number,
+  ): Promise<string> {
+    const jti = randomUUID();
+    await this.redisClient.set(this.tokenKey(jti), userId, { EX: ttlSeconds });
+    return this.jwtService.signAsync(
+      { sub: userId, purpose, jti },
+      { expiresIn: ttlSeconds },
+    );
+  }
+
+  /**
+   * Checks that the token is valid and unused without burning it. Returns the
+   * id of the user it was issued to.
+   */
+  async verify(token: string, purpose: ActionTokenPurpose): Promise<string> {
+    const payload = await this.decode(token, purpose);
+    if ((await this.redisClient.exists(this.tokenKey(payload.jti))) !== 1) {
+      throw new BadRequestException('Token has already been used');
+    }
+    return payload.sub;
+  }
+
+  /**
+   * Verifies the token and burns it. Returns the id of the user it was issued to.
+   */
+  async consume(token: string, purpose: ActionTokenPurpose): Promise<string> {
+    const payload = await this.decode(token, purpose);
+    const burned = await this.redisClient.del(this.tokenKey(payload.jti));
+    if (burned !== 1) {
+      throw new BadRequestException('Token has already been used');
+    }
+    return payload.sub;
+  }
+
+  private async decode(
+    token: string,
+    purpose: ActionTokenPurpose,
+  ): Promise<ActionTokenPayload> {
+    let payload: ActionTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<ActionTokenPayload>(token);
+    } catch {
+      throw new BadRequestException('Invalid or expired token');
+    }
+    if (payload.purpose !== purpose || !payload.jti) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+    return payload;
+  }
+
+  private tokenKey(jti: string): string {
+    return `auth:action-token:${jti}`;
+  }
+}
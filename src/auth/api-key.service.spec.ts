@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ApiKeyService } from './api-key.service';
+import { UsersService } from '../users/users.service';
+import { ApiKey, Scope } from '../entities/api-keys/api-key.entity';
+import { Role } from '../entities/users/users.entity';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+
+  let stored: Record<string, any> | null;
+  const query = (value: unknown) => ({
+    select: () => ({ exec: () => Promise.resolve(value) }),
+    exec: () => Promise.resolve(value),
+  });
+  const mockApiKeyModel = {
+    create: jest.fn((doc: Record<string, any>) => {
+      stored = { _id: new Types.ObjectId(), ...doc };
+      return Promise.resolve({ ...stored, toObject: () => ({ ...stored }) });
+    }),
+    findOne: jest.fn(() => query(stored)),
+    updateOne: jest.fn(() => query({ matchedCount: stored ? 1 : 0 })),
+  };
+
+  const userId = new Types.ObjectId();
+  const mockUsersService = {
+    findById: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    stored = null;
+    mockUsersService.findById.mockResolvedValue({
+      _id: userId,
+      email: 'ale@ale.com',
+      role: Role.User,
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: getModelToken(ApiKey.name), useValue: mockApiKeyModel },
+        { provide: UsersService, useValue: mockUsersService },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: string) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  describe('create', () => {
+    it('should store only a hash of the key', async () => {
+      const { key } = await service.create(userId.toString(), {
+        name: 'backup script',
+        scopes: [Scope.PostsWrite, Scope.PostsWrite],
+        expiresInDays: 30,
+      });
+
+      expect(service.isApiKey(key)).toBe(true);
+      expect(key.startsWith(`${stored!.prefix}_`)).toBe(true);
+      expect(JSON.stringify(stored)).not.toContain(key);
+      expect(stored!.scopes).toEqual([Scope.PostsWrite]);
+      const days = (stored!.expiresAt.getTime() - Date.now()) / 86400000;
+      expect(Math.round(days)).toBe(30);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the owner and scopes of a valid key', async () => {
+      const { key } = await service.create(userId.toString(), {
+        name: 'ci',
+        scopes: [Scope.ChatRead],
+      });
+
+      await expect(service.authenticate(key)).resolves.toEqual({
+        sub: userId.toString(),
+        email: 'ale@ale.com',
+        role: Role.User,
+        apiKeyId: stored!._id.toString(),
+        scopes: [Scope.ChatRead],
+      });
+      expect(mockApiKeyModel.updateOne).toHaveBeenCalledWith(
+        { _id: stored!._id },
+        { lastUsedAt: expect.any(Date) },
+      );
+    });
+
+    it('should reject a key with the right prefix and a wrong secret', async () => {
+      const { key } = await service.create(userId.toString(), {
+        name: 'ci',
+        scopes: [Scope.ChatRead],
+      });
+      const forged = `${key.slice(0, -4)}AAAA`;
+
+      await expect(service.authenticate(forged)).resolves.toBeNull();
+    });
+
+    it('should reject revoked and expired keys', async () => {
+      const { key } = await service.create(userId.toString(), {
+        name: 'ci',
+        scopes: [Scope.ChatRead],
+      });
+
+      stored!.revokedAt = new Date();
+      await expect(service.authenticate(key)).resolves.toBeNull();
+
+      delete stored!.revokedAt;
+      stored!.expiresAt = new Date(Date.now() - 1000);
+      await expect(service.authenticate(key)).resolves.toBeNull();
+    });
+
+    it('should reject keys of deleted users', async () => {
+      const { key } = await service.create(userId.toString(), {
+        name: 'ci',
+        scopes: [Scope.ChatRead],
+      });
+      mockUsersService.findById.mockRejectedValue(
+        new NotFoundException('User not found'),
+      );
+
+      await expect(service.authenticate(key)).resolves.toBeNull();
+    });
+
+    it('should reject malformed keys without a lookup', async () => {
+      await expect(service.authenticate('hs_nope')).resolves.toBeNull();
+      expect(mockApiKeyModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should throw when the key is not found', async () => {
+      await expect(
+        service.revoke(userId.toString(), new Types.ObjectId().toString()),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { Model, Types } from 'mongoose';
+import {
+  ApiKey,
+  ApiKeyDocument,
+  Scope,
+} from '../entities/api-keys/api-key.entity';
+import { Role, UserDocument } from '../entities/users/users.entity';
+import { UsersService } from '../users/users.service';
+import { CreateApiKeyDTO, CreateApiKeyDTOResponse } from '../DTO/api-key-dto';
+
+// Set as request.user for calls made with an API key
+export interface ApiKeyPrincipal {
+  sub: string;
+  email: string;
+  role: Role;
+  apiKeyId: string;
+  scopes: Scope[];
+}
+
+const KEY_PATTERN = /^(hs_[0-9a-f]{12})_[A-Za-z0-9_-]{43}$/;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Long lived keys for scripts and integrations. A key is shown once when it
+ * is created; only its sha256 is stored, looked up by the public prefix.
+ */
+@Injectable()
+export class ApiKeyService {
+  constructor(
+    @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKeyDocument>,
+    private usersService: UsersService,
+    private configService: ConfigService,
+  ) {}
+
+  isApiKey(token: string): boolean {
+    return token.startsWith('hs_');
+  }
+
+  async create(
+    userId: string,
+    createDto: CreateApiKeyDTO,
+  ): Promise<CreateApiKeyDTOResponse> {
+    const prefix = `hs_${randomBytes(6).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(32).toString('base64url')}`;
+    const days =
+      createDto.expiresInDays ??
+      Number(this.configService.get('API_KEY_DEFAULT_TTL_DAYS', 90));
+
+    const apiKey = await this.apiKeyModel.create({
+      user: new Types.ObjectId(userId),
+      name: createDto.name,
+      prefix,
+      keyHash: this.hashKey(key),
+      scopes: [...new Set(createDto.scopes)],
+      expiresAt: new Date(Date.now() + days * DAY_MS),
+    });
+
+    return { apiKey: apiKey.toObject<ApiKey>(), key };
+  }
+
+  async list(userId: string): Promise<ApiKey[]> {
+    return this.apiKeyModel
+      .find({ user: userId, revokedAt: { $exists: false } })
+      .sort({ createdAt: -1 });
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('API key not found');
+    }
+    const result = await this.apiKeyModel
+      .updateOne(
+        { _id: id, user: userId, revokedAt: { $exists: false } },
+        { revokedAt: new Date() },
+      )
+      .exec();
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('API key not found');
+    }
+  }
+
+  /**
+   * Returns who the key acts for, or null when it is unknown, revoked or
+   * expired, or its owner no longer exists.
+   */
+  async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyModel
+      .findOne({ prefix: match[1] })
+      .select('+keyHash')
+      .exec();
+    if (
+      !apiKey ||
+      !timingSafeEqual(
+        Buffer.from(apiKey.keyHash, 'hex'),
+        Buffer.from(this.hashKey(key), 'hex'),
+      ) ||
+      apiKey.revokedAt ||
+      apiKey.expiresAt.getTime() <= Date.now()
+    ) {
+      return null;
+    }
+
+    let user: UserDocument;
+    try {
+      user = await this.usersService.findById(apiKey.user.toString());
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return null;
+      }
+      throw error;
+    }
+
+    // Saves a write per request for keys used in bursts
+    const now = Date.now();
+    if (
+      !apiKey.lastUsedAt ||
+      now - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+    ) {
+      await this.apiKeyModel
+        .updateOne({ _id: apiKey._id }, { lastUsedAt: new Date(now) })
+        .exec();
+    }
+
+    return {
+      sub: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      apiKeyId: apiKey._id.toString(),
+      scopes: apiKey.scopes,
+    };
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,89 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeyService } from './api-key.service';
+import { Scope } from '../entities/api-keys/api-key.entity';
+
+describe('ApiKeysController', () => {
+  let app: INestApplication<App>;
+
+  const mockApiKeyService = {
+    create: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockApiKeyService.create.mockResolvedValue({});
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ApiKeysController],
+      providers: [{ provide: ApiKeyService, useValue: mockApiKeyService }],
+    }).compile();
+
+    app = module.createNestApplication();
+    // Stands in for AuthGuard, which is registered globally in AuthModule
+    app.use(
+      (req: { user?: { sub: string } }, _res: unknown, next: () => void) => {
+        req.user = { sub: 'user-1' };
+        next();
+      },
+    );
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('create', () => {
+    it('should create a key with a valid body', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/api-keys')
+        .send({
+          name: 'backup script',
+          scopes: [Scope.PostsWrite],
+          expiresInDays: 90,
+        })
+        .expect(201);
+
+      expect(mockApiKeyService.create).toHaveBeenCalledWith('user-1', {
+        name: 'backup script',
+        scopes: [Scope.PostsWrite],
+        expiresInDays: 90,
+      });
+    });
+
+    it('should reject an expiry past a year', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/api-keys')
+        .send({
+          name: 'backup script',
+          scopes: [Scope.PostsWrite],
+          expiresInDays: 1000000,
+        })
+        .expect(400);
+
+      expect(mockApiKeyService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown scope', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/api-keys')
+        .send({ name: 'backup script', scopes: ['everything'] })
+        .expect(400);
+
+      expect(mockApiKeyService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty scope list', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/api-keys')
+        .send({ name: 'backup script', scopes: [] })
+        .expect(400);
+
+      expect(mockApiKeyService.create).not.toHaveBeenCalled();
+    });
+  });
+});
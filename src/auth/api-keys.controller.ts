@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CreateApiKeyDTO, CreateApiKeyDTOResponse } from '../DTO/api-key-dto';
+import { ApiKey } from '../entities/api-keys/api-key.entity';
+import { ApiKeyService } from './api-key.service';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AuthenticatedUser } from '../policies/policy';
+
+@ApiTags('auth')
+@ApiBearerAuth()
+@Controller('auth/api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an API key for the current user' })
+  @ApiResponse({
+    status: 201,
+    description: 'The key is in the response only this once.',
+    type: CreateApiKeyDTOResponse,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid name, scopes or expiry.' })
+  create(
+    @Body(new ValidationPipe({ whitelist: true, transform: true }))
+    createDto: CreateApiKeyDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.apiKeyService.create(user.sub, createDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the API keys of the current user' })
+  @ApiResponse({ status: 200, type: [ApiKey] })
+  findAll(@CurrentUser() user: AuthenticatedUser) {
+    return this.apiKeyService.list(user.sub);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({ status: 204, description: 'Revoked.' })
+  @ApiResponse({ status: 404, description: 'API key not found.' })
+  revoke(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.apiKeyService.revoke(user.sub, id);
+  }
+}
@@ -1,45 +1,193 @@
 import {
-    Body,
-    Controller,
-    Get,
-    HttpCode,
-    HttpStatus,
-    Param,
-    Post,
-    Request,
-    UseGuards
-  } from '@nestjs/common';
-  import { AuthGuard } from './auth.guard';
-  import { AuthService } from './auth.service';
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Delete,
+  Param,
+  Post,
+  UseFilters,
+  ValidationPipe,
+} from '@nestjs/common';
+import { AuthService } from './auth.service';
 import { UsersService } from 'src/users/users.service';
 import { Public } from './decorators/public.decorators';
-import { ApiOperation, ApiTags, ApiResponse } from '@nestjs/swagger';
+import {
+  ApiOperation,
+  ApiTags,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { LoginDTO } from 'src/DTO/login-dto';
 import { User } from 'src/entities/users/users.entity';
 import { SignupDTO } from 'src/DTO/signup-dto';
-  
-  @ApiTags('auth')
-  @Controller('auth')
-  export class AuthController {
-    constructor(private readonly authService: AuthService) {}
-  
-    @Post('signup')
-    @Public()
-    @ApiOperation({ summary: 'Register a new user' })
-    @ApiResponse({ status: 201, description: 'User successfully registered.' })
-    @ApiResponse({ status: 400, description: 'Bad request.' })
-    @ApiResponse({ status: 409, description: 'Email or username already exists.' })
-    signUp(@Body() signupDto: SignupDTO) {
-      return this.authService.signUp(signupDto);
-    }
-
-    @Post('login')
-    @Public()
-    @HttpCode(HttpStatus.OK)
-    @ApiOperation({ summary: 'Login user' })
-    @ApiResponse({ status: 200, description: 'User successfully logged in.' })
-    @ApiResponse({ status: 401, description: 'Invalid credentials.' })
-    signIn(@Body() loginDto: LoginDTO) {
-      return this.authService.signIn(loginDto.email, loginDto.password);
-    }
+import { RefreshTokenDTO } from 'src/DTO/refresh-token-dto';
+import {
+  ResendVerificationDTO,
+  VerifyEmailDTO,
+} from 'src/DTO/verify-email-dto';
+import {
+  ForgotPasswordDTO,
+  ResetPasswordDTO,
+} from 'src/DTO/password-reset-dto';
+import { TooManyAttemptsFilter } from './too-many-attempts.filter';
+import { Client } from './decorators/client.decorator';
+import { ClientInfo } from './session.service';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AccessTokenPayload } from './token.service';
+import { AuthenticatedUser } from '../policies/policy';
+
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post('signup')
+  @Public()
+  @ApiOperation({ summary: 'Register a new user' })
+  @ApiResponse({ status: 201, description: 'User successfully registered.' })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  @ApiResponse({
+    status: 409,
+    description: 'Email or username already exists.',
+  })
+  signUp(@Body(new ValidationPipe({ whitelist: true })) signupDto: SignupDTO) {
+    return this.authService.signUp(signupDto);
+  }
+
+  @Post('login')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Login user' })
+  @ApiResponse({ status: 200, description: 'User successfully logged in.' })
+  @ApiResponse({ status: 401, description: 'Invalid credentials.' })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts, see Retry-After.',
+  })
+  @UseFilters(TooManyAttemptsFilter)
+  signIn(@Body() loginDto: LoginDTO, @Client() client: ClientInfo) {
+    return this.authService.signIn(loginDto.email, loginDto.password, client);
+  }
+
+  @Post('refresh')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rotate a refresh token and get a new access token',
+  })
+  @ApiResponse({ status: 200, description: 'Tokens successfully refreshed.' })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token invalid, expired or revoked.',
+  })
+  refresh(
+    @Body(new ValidationPipe({ whitelist: true }))
+    refreshTokenDto: RefreshTokenDTO,
+    @Client() client: ClientInfo,
+  ) {
+    return this.authService.refresh(refreshTokenDto.refreshToken, client);
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Logout and revoke the current session' })
+  @ApiResponse({ status: 204, description: 'Session revoked.' })
+  logout(@CurrentUser() user: AccessTokenPayload) {
+    return this.authService.logout(user.sid);
+  }
+
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the active sessions of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions with device, IP and activity times.',
+  })
+  listSessions(@CurrentUser() user: AccessTokenPayload) {
+    return this.authService.listSessions(user.sub, user.sid);
+  }
+
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Revoke one of the current user's sessions" })
+  @ApiResponse({ status: 204, description: 'Session revoked.' })
+  @ApiResponse({ status: 404, description: 'Session not found.' })
+  revokeSession(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.authService.revokeSession(user.sub, id);
+  }
+
+  @Post('verify-email')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm an email address with the emailed token' })
+  @ApiResponse({ status: 200, description: 'Email verified.' })
+  @ApiResponse({
+    status: 400,
+    description: 'Token invalid, expired or already used.',
+  })
+  verifyEmail(
+    @Body(new ValidationPipe({ whitelist: true }))
+    verifyEmailDto: VerifyEmailDTO,
+  ) {
+    return this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @Post('resend-verification')
+  @Public()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Send a new email verification link' })
+  @ApiResponse({
+    status: 202,
+    description: 'Email sent if the account needs it.',
+  })
+  resendVerification(
+    @Body(new ValidationPipe({ whitelist: true }))
+    resendVerificationDto: ResendVerificationDTO,
+  ) {
+    return this.authService.resendVerification(resendVerificationDto.email);
+  }
+
+  @Post('forgot-password')
+  @Public()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Send a password reset link' })
+  @ApiResponse({
+    status: 202,
+    description: 'Email sent if the account exists.',
+  })
+  forgotPassword(
+    @Body(new ValidationPipe({ whitelist: true }))
+    forgotPasswordDto: ForgotPasswordDTO,
+  ) {
+    return this.authService.forgotPassword(forgotPasswordDto.email);
+  }
+
+  @Post('reset-password')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Choose a new password with the emailed token' })
+  @ApiResponse({
+    status: 200,
+    description: 'Password updated, all sessions revoked.',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Token invalid, expired or already used.',
+  })
+  resetPassword(
+    @Body(new ValidationPipe({ whitelist: true }))
+    resetPasswordDto: ResetPasswordDTO,
+  ) {
+    return this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
   }
+}
@@ -1,13 +1,23 @@
 import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from "@nestjs/common";
-import { jwtConstants } from "./constants";
 import { JwtService } from "@nestjs/jwt";
 import { Reflector } from "@nestjs/core";
 import { IS_PUBLIC_KEY } from "./decorators/public.decorators";
 import { Request } from 'express';
+import { SessionService } from "./session.service";
+import { AccessTokenPayload } from "./token.service";
+import { ApiKeyService } from "./api-key.service";
+import { SCOPES_KEY } from "./decorators/scopes.decorator";
+import { Scope } from "../entities/api-keys/api-key.entity";
+import { AccessDeniedException, AccessDeniedReason } from "../policies/access-denied.exception";
 
 @Injectable()
 export class AuthGuard implements CanActivate {
-  constructor(private jwtService: JwtService, private reflector: Reflector) {}
+  constructor(
+    private jwtService: JwtService,
+    private reflector: Reflector,
+    private sessionService: SessionService,
+    private apiKeyService: ApiKeyService,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
@@ -15,6 +25,12 @@ export class AuthGuard implements CanActivate {
       context.getClass(),
     ]);
     if (isPublic) {
+      // Public routes still learn who is calling when a valid token is sent
+      const request = context.switchToHttp().getRequest<Request>();
+      const token = this.extractTokenFromHeader(request);
+      if (token && !this.apiKeyService.isApiKey(token)) {
+        request['user'] = await this.verifyAccessToken(token, request).catch(() => undefined);
+      }
       return true;
     }
 
@@ -23,14 +39,48 @@ export class AuthGuard implements CanActivate {
     if (!token) {
       throw new UnauthorizedException();
     }
+    if (this.apiKeyService.isApiKey(token)) {
+      return this.authenticateApiKey(context, request, token);
+    }
+    request['user'] = await this.verifyAccessToken(token, request); // Aggiungi il payload (incluso il ruolo) alla richiesta
+    return true;
+  }
+
+  private async verifyAccessToken(token: string, request: Request): Promise<AccessTokenPayload> {
+    let payload: AccessTokenPayload;
     try {
-      const payload = await this.jwtService.verifyAsync(token, {
-        secret: jwtConstants.secret,
-      });
-      request['user'] = payload; // Aggiungi il payload (incluso il ruolo) alla richiesta
+      payload = await this.jwtService.verifyAsync<AccessTokenPayload>(token);
     } catch {
       throw new UnauthorizedException();
     }
+    // Logout and refresh token reuse revoke the session before the token expires
+    if (!(await this.sessionService.touch(payload.sid, request.ip))) {
+      throw new UnauthorizedException();
+    }
+    return payload;
+  }
+
+  private async authenticateApiKey(
+    context: ExecutionContext,
+    request: Request,
+    key: string,
+  ): Promise<boolean> {
+    const principal = await this.apiKeyService.authenticate(key);
+    if (!principal) {
+      throw new UnauthorizedException();
+    }
+    // Keys only reach routes that declare scopes, and need all of them
+    const requiredScopes = this.reflector.getAllAndOverride<Scope[]>(SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!requiredScopes?.length || !requiredScopes.every((scope) => principal.scopes.includes(scope))) {
+      throw new AccessDeniedException(
+        AccessDeniedReason.MissingScope,
+        'API key lacks the scope for this route',
+      );
+    }
+    request['user'] = principal;
     return true;
   }
 
@@ -1,28 +1,93 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { UsersModule } from '../users/users.module';
 import { JwtModule } from '@nestjs/jwt';
 import { AuthController } from './auth.controller';
-import { jwtConstants } from './constants';
 import { APP_GUARD } from '@nestjs/core';
 import { AuthGuard } from './auth.guard';
+import { HashingModule } from '../hashing/hashing.module';
+import { RedisModule } from '../redis/redis.module';
+import { SessionService } from './session.service';
+import { TokenService } from './token.service';
+import { JwtKeysModule } from './jwt-keys.module';
+import { JwtKeysService } from './jwt-keys.service';
+import { JwksController } from './jwks.controller';
+import { ActionTokenService } from './action-token.service';
+import { MailModule } from '../mail/mail.module';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  LoginLockout,
+  LoginLockoutSchema,
+} from '../entities/lockout/login-lockout.entity';
+import { LoginThrottleService } from './login-throttle.service';
+import { LockoutsController } from './lockouts.controller';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import {
+  UserIdentity,
+  UserIdentitySchema,
+} from '../entities/users/user-identity.entity';
+import { OidcService } from './oidc.service';
+import { OidcController } from './oidc.controller';
+import { ApiKey, ApiKeySchema } from '../entities/api-keys/api-key.entity';
+import { ApiKeyService } from './api-key.service';
+import { ApiKeysController } from './api-keys.controller';
+import { RolesGuard } from '../roles/roles.guard';
+import { PoliciesGuard } from '../policies/policies.guard';
 
+// Global so sockets, which AuthGuard does not cover, can check sessions too
+@Global()
 @Module({
   imports: [
+    MongooseModule.forFeature([
+      { name: LoginLockout.name, schema: LoginLockoutSchema },
+      { name: UserIdentity.name, schema: UserIdentitySchema },
+      { name: ApiKey.name, schema: ApiKeySchema },
+    ]),
     UsersModule,
-    JwtModule.register({
+    HashingModule,
+    RedisModule,
+    JwtKeysModule,
+    MailModule,
+    JwtModule.registerAsync({
       global: true,
-      secret: jwtConstants.secret,
-      signOptions: { expiresIn: '1h' },
+      imports: [JwtKeysModule],
+      inject: [JwtKeysService],
+      useFactory: (jwtKeysService: JwtKeysService) =>
+        jwtKeysService.jwtOptions(),
     }),
   ],
   providers: [
     AuthService,
+    SessionService,
+    TokenService,
+    ActionTokenService,
+    LoginThrottleService,
+    TwoFactorService,
+    OidcService,
+    ApiKeyService,
     {
       provide: APP_GUARD,
       useClass: AuthGuard,
     },
+    // Run in this order: who the user is, then what they may do
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: PoliciesGuard,
+    },
+  ],
+  controllers: [
+    AuthController,
+    TwoFactorController,
+    JwksController,
+    LockoutsController,
+    OidcController,
+    ApiKeysController,
   ],
-  controllers: [AuthController],
+  exports: [SessionService, ApiKeyService],
 })
 export class AuthModule {}
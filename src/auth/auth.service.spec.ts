@@ -1,12 +1,113 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
 import { AuthService } from './auth.service';
+import { UsersService } from '../users/users.service';
+import { HashingService } from '../hashing/hashing.service';
+import { TokenService } from './token.service';
+import { ActionTokenPurpose, ActionTokenService } from './action-token.service';
+import { SessionService } from './session.service';
+import { MailService } from '../mail/mail.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { TooManyAttemptsException } from './too-many-attempts.exception';
+import { TwoFactorService } from './two-factor.service';
+import { LoginDTOResponse } from '../DTO/login-dto';
+import { Role } from '../entities/users/users.entity';
 
 describe('AuthService', () => {
   let service: AuthService;
 
+  const mockUsersService = {
+    findOne: jest.fn(),
+    findOneWithPassword: jest.fn(),
+    findByIdWithSecrets: jest.fn(),
+    setPassword: jest.fn(),
+    markEmailVerified: jest.fn(),
+    create: jest.fn(),
+  };
+
+  const mockTokenService = {
+    issue: jest.fn().mockResolvedValue({
+      accessToken: 'access-token',
+      refreshToken: 'refresh-token',
+    }),
+    refresh: jest.fn(),
+    revoke: jest.fn(),
+  };
+
+  const mockActionTokenService = {
+    issue: jest.fn().mockResolvedValue('action-token'),
+    verify: jest.fn(),
+    consume: jest.fn(),
+  };
+
+  const mockSessionService = {
+    revokeAllForUser: jest.fn(),
+  };
+
+  const mockMailService = {
+    sendEmailVerification: jest.fn(),
+    sendPasswordReset: jest.fn(),
+  };
+
+  const config: Record<string, string> = {};
+  const mockConfigService = {
+    get: jest.fn((key: string, fallback?: unknown) => config[key] ?? fallback),
+  };
+
+  const mockLoginThrottleService = {
+    assertCanAttempt: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+
+  const mockTwoFactorService = {
+    verifyCode: jest.fn(),
+  };
+
+  const mockHashingService = {
+    verify: jest.fn(),
+    needsRehash: jest.fn(),
+  };
+
+  const client = { ip: '127.0.0.1', userAgent: 'jest' };
+
+  const buildUser = (password: string, twoFactorEnabled = false) => {
+    const _id = new Types.ObjectId();
+    return {
+      _id,
+      email: 'john.doe@example.com',
+      role: 'user',
+      password,
+      name: 'John',
+      emailVerified: false,
+      twoFactorEnabled,
+      toObject: () => ({ _id, email: 'john.doe@example.com', role: 'user' }),
+    };
+  };
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    delete config.AUTH_REQUIRE_VERIFIED_EMAIL;
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [AuthService],
+      providers: [
+        AuthService,
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: TokenService, useValue: mockTokenService },
+        { provide: HashingService, useValue: mockHashingService },
+        { provide: ActionTokenService, useValue: mockActionTokenService },
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: LoginThrottleService, useValue: mockLoginThrottleService },
+        { provide: TwoFactorService, useValue: mockTwoFactorService },
+      ],
     }).compile();
 
     service = module.get<AuthService>(AuthService);
@@ -15,4 +116,280 @@ describe('AuthService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('signIn', () => {
+    it('should reject unknown users', async () => {
+      mockUsersService.findOneWithPassword.mockResolvedValue(null);
+
+      await expect(
+        service.signIn('nobody@example.com', 'secret', client),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject a wrong password', async () => {
+      mockUsersService.findOneWithPassword.mockResolvedValue(
+        buildUser('$2b$hash'),
+      );
+      mockHashingService.verify.mockResolvedValue(false);
+
+      await expect(
+        service.signIn('john.doe@example.com', 'wrong', client),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should count failed attempts', async () => {
+      mockUsersService.findOneWithPassword.mockResolvedValue(null);
+
+      await expect(
+        service.signIn('nobody@example.com', 'secret', client),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(
+        'nobody@example.com',
+        '127.0.0.1',
+      );
+    });
+
+    it('should not check credentials while throttled', async () => {
+      mockLoginThrottleService.assertCanAttempt.mockRejectedValueOnce(
+        new TooManyAttemptsException(30),
+      );
+
+      await expect(
+        service.signIn('john.doe@example.com', 'password123', client),
+      ).rejects.toThrow(TooManyAttemptsException);
+      expect(mockUsersService.findOneWithPassword).not.toHaveBeenCalled();
+    });
+
+    it('should never return the password hash', async () => {
+      mockUsersService.findOneWithPassword.mockResolvedValue(
+        buildUser('$2b$hash'),
+      );
+      mockHashingService.verify.mockResolvedValue(true);
+      mockHashingService.needsRehash.mockReturnValue(false);
+
+      const result = (await service.signIn(
+        'john.doe@example.com',
+        'password123',
+        client,
+      )) as LoginDTOResponse;
+
+      expect(result.accessToken).toBe('access-token');
+      expect(result.refreshToken).toBe('refresh-token');
+      expect(result.user).not.toHaveProperty('password');
+      expect(mockUsersService.setPassword).not.toHaveBeenCalled();
+      expect(mockLoginThrottleService.recordSuccess).toHaveBeenCalledWith(
+        'john.doe@example.com',
+      );
+    });
+
+    it('should refuse unverified accounts when configured to', async () => {
+      config.AUTH_REQUIRE_VERIFIED_EMAIL = 'true';
+      mockUsersService.findOneWithPassword.mockResolvedValue(
+        buildUser('$2b$hash'),
+      );
+      mockHashingService.verify.mockResolvedValue(true);
+      mockHashingService.needsRehash.mockReturnValue(false);
+
+      await expect(
+        service.signIn('john.doe@example.com', 'password123', client),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should re-hash legacy plaintext passwords on login', async () => {
+      const user = buildUser('password123');
+      mockUsersService.findOneWithPassword.mockResolvedValue(user);
+      mockHashingService.verify.mockResolvedValue(true);
+      mockHashingService.needsRehash.mockReturnValue(true);
+
+      await service.signIn('john.doe@example.com', 'password123', client);
+
+      expect(mockUsersService.setPassword).toHaveBeenCalledWith(
+        user._id.toString(),
+        'password123',
+      );
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the current session', async () => {
+      await service.logout('session-id');
+      expect(mockTokenService.revoke).toHaveBeenCalledWith('session-id');
+    });
+  });
+
+  describe('signUp', () => {
+    it('should email a verification link', async () => {
+      const user = buildUser('$2b$hash');
+      mockUsersService.create.mockResolvedValue(user);
+
+      await service.signUp({} as never);
+
+      expect(mockActionTokenService.issue).toHaveBeenCalledWith(
+        ActionTokenPurpose.VerifyEmail,
+        user._id.toString(),
+        expect.any(Number),
+      );
+      expect(mockMailService.sendEmailVerification).toHaveBeenCalledWith(
+        user,
+        'action-token',
+      );
+    });
+
+    it('should not fail when the email cannot be sent', async () => {
+      mockUsersService.create.mockResolvedValue(buildUser('$2b$hash'));
+      mockMailService.sendEmailVerification.mockRejectedValueOnce(
+        new Error('smtp down'),
+      );
+
+      await expect(service.signUp({} as never)).resolves.toBeDefined();
+    });
+
+    it('should ignore verification and role sent by the client', async () => {
+      mockUsersService.create.mockResolvedValue(buildUser('$2b$hash'));
+
+      await service.signUp({
+        email: 'john.doe@example.com',
+        password: 'password123',
+        emailVerified: true,
+        role: Role.Admin,
+      } as never);
+
+      expect(mockUsersService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'john.doe@example.com',
+          emailVerified: false,
+          role: Role.User,
+        }),
+      );
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the token owner as verified', async () => {
+      mockActionTokenService.consume.mockResolvedValue('user-id');
+
+      await service.verifyEmail('action-token');
+
+      expect(mockActionTokenService.consume).toHaveBeenCalledWith(
+        'action-token',
+        ActionTokenPurpose.VerifyEmail,
+      );
+      expect(mockUsersService.markEmailVerified).toHaveBeenCalledWith(
+        'user-id',
+      );
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should answer the same for unknown emails', async () => {
+      mockUsersService.findOne.mockResolvedValue(null);
+
+      const unknown = await service.forgotPassword('nobody@example.com');
+
+      mockUsersService.findOne.mockResolvedValue(buildUser('$2b$hash'));
+      const known = await service.forgotPassword('john.doe@example.com');
+
+      expect(unknown).toEqual(known);
+      expect(mockMailService.sendPasswordReset).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer the same when the email cannot be sent', async () => {
+      mockUsersService.findOne.mockResolvedValue(buildUser('$2b$hash'));
+      mockMailService.sendPasswordReset.mockRejectedValueOnce(
+        new Error('smtp down'),
+      );
+
+      await expect(
+        service.forgotPassword('john.doe@example.com'),
+      ).resolves.toEqual({
+        message: 'If the account exists, a password reset email has been sent',
+      });
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke every session', async () => {
+      mockActionTokenService.consume.mockResolvedValue('user-id');
+
+      await service.resetPassword('action-token', 'newPassword123');
+
+      expect(mockActionTokenService.consume).toHaveBeenCalledWith(
+        'action-token',
+        ActionTokenPurpose.ResetPassword,
+      );
+      expect(mockUsersService.setPassword).toHaveBeenCalledWith(
+        'user-id',
+        'newPassword123',
+      );
+      expect(mockSessionService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-id',
+      );
+    });
+
+    it('should keep the token when the new password is too short', async () => {
+      await expect(
+        service.resetPassword('action-token', 'short'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockActionTokenService.consume).not.toHaveBeenCalled();
+      expect(mockUsersService.setPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('two-factor login', () => {
+    it('should answer with a challenge instead of tokens', async () => {
+      mockUsersService.findOneWithPassword.mockResolvedValue(
+        buildUser('$2b$hash', true),
+      );
+      mockHashingService.verify.mockResolvedValue(true);
+      mockHashingService.needsRehash.mockReturnValue(false);
+
+      const result = await service.signIn(
+        'john.doe@example.com',
+        'password123',
+        client,
+      );
+
+      expect(result).toEqual({
+        twoFactorRequired: true,
+        challengeToken: 'action-token',
+      });
+      expect(mockTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should issue tokens for a valid code and burn the challenge', async () => {
+      const user = buildUser('$2b$hash', true);
+      mockActionTokenService.verify.mockResolvedValue(user._id.toString());
+      mockUsersService.findByIdWithSecrets.mockResolvedValue(user);
+      mockTwoFactorService.verifyCode.mockResolvedValue(true);
+
+      const result = await service.verifyTwoFactor(
+        'action-token',
+        '123456',
+        client,
+      );
+
+      expect(result.accessToken).toBe('access-token');
+      expect(mockActionTokenService.consume).toHaveBeenCalledWith(
+        'action-token',
+        ActionTokenPurpose.TwoFactorLogin,
+      );
+    });
+
+    it('should keep the challenge and count the failure for a wrong code', async () => {
+      const user = buildUser('$2b$hash', true);
+      mockActionTokenService.verify.mockResolvedValue(user._id.toString());
+      mockUsersService.findByIdWithSecrets.mockResolvedValue(user);
+      mockTwoFactorService.verifyCode.mockResolvedValue(false);
+
+      await expect(
+        service.verifyTwoFactor('action-token', '000000', client),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockActionTokenService.consume).not.toHaveBeenCalled();
+      expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(
+        user.email,
+        '127.0.0.1',
+      );
+    });
+  });
 });
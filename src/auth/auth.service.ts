@@ -1,47 +1,217 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { BadRequestException, ForbiddenException, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../users/users.service';
-import { JwtService } from '@nestjs/jwt';
 import { LoginDTOResponse } from 'src/DTO/login-dto';
-import { User } from 'src/entities/users/users.entity';
+import { Role, User, UserDocument } from 'src/entities/users/users.entity';
 import { SignupDTO, SignupDTOResponse } from 'src/DTO/signup-dto';
+import { HashingService } from '../hashing/hashing.service';
+import { TokenService } from './token.service';
+import { RefreshTokenDTOResponse } from '../DTO/refresh-token-dto';
+import { MessageDTOResponse, MIN_PASSWORD_LENGTH } from '../DTO/password-reset-dto';
+import { MailService } from '../mail/mail.service';
+import { ActionTokenPurpose, ActionTokenService } from './action-token.service';
+import { ClientInfo, SessionInfo, SessionService } from './session.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorChallengeDTOResponse } from '../DTO/two-factor-dto';
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private usersService: UsersService,
-    private jwtService: JwtService
+    private hashingService: HashingService,
+    private tokenService: TokenService,
+    private actionTokenService: ActionTokenService,
+    private sessionService: SessionService,
+    private mailService: MailService,
+    private configService: ConfigService,
+    private loginThrottleService: LoginThrottleService,
+    private twoFactorService: TwoFactorService
   ) {}
 
   async signIn(
     email: string,
     pass: string,
-  ): Promise<LoginDTOResponse> {
-    const user = await this.usersService.findOne(email);
-    if (user?.password !== pass) {
+    client: ClientInfo,
+  ): Promise<LoginDTOResponse | TwoFactorChallengeDTOResponse> {
+    await this.loginThrottleService.assertCanAttempt(email, client.ip);
+
+    const user = await this.usersService.findOneWithPassword(email);
+    if (!user || !(await this.hashingService.verify(pass, user.password))) {
+      await this.loginThrottleService.recordFailure(email, client.ip);
       throw new UnauthorizedException();
     }
+    await this.loginThrottleService.recordSuccess(email);
+
+    // Upgrades legacy plaintext rows and hashes made with an older cost
+    if (user.password && this.hashingService.needsRehash(user.password)) {
+      await this.usersService.setPassword(user._id.toString(), pass);
+    }
+
+    return this.startLogin(user, client);
+  }
+
+  /**
+   * Logs in a user whose first factor has already been checked, returning a
+   * two-factor challenge instead of tokens when the account needs one.
+   */
+  async startLogin(
+    user: UserDocument,
+    client: ClientInfo,
+  ): Promise<LoginDTOResponse | TwoFactorChallengeDTOResponse> {
+    if (this.requireVerifiedEmail() && !user.emailVerified) {
+      throw new ForbiddenException('Email address not verified');
+    }
+
+    if (user.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await this.actionTokenService.issue(
+          ActionTokenPurpose.TwoFactorLogin,
+          user._id.toString(),
+          Number(this.configService.get('TWO_FACTOR_CHALLENGE_TTL', 5 * 60)),
+        ),
+      };
+    }
 
-    const payload = { 
-      sub: user._id, 
-      email: user.email, 
-      role: user.role 
-    }; 
-    
-    const { password, ...result } = user; 
+    return this.completeLogin(user, client);
+  }
+
+  // Second step of the login for accounts with two-factor authentication
+  async verifyTwoFactor(
+    challengeToken: string,
+    code: string,
+    client: ClientInfo,
+  ): Promise<LoginDTOResponse> {
+    const userId = await this.actionTokenService.verify(challengeToken, ActionTokenPurpose.TwoFactorLogin);
+    const user = await this.usersService.findByIdWithSecrets(userId);
+
+    await this.loginThrottleService.assertCanAttempt(user.email, client.ip);
+    if (!(await this.twoFactorService.verifyCode(user, code))) {
+      await this.loginThrottleService.recordFailure(user.email, client.ip);
+      throw new UnauthorizedException('Invalid code');
+    }
+    // A wrong code keeps the challenge usable, a right one burns it
+    await this.actionTokenService.consume(challengeToken, ActionTokenPurpose.TwoFactorLogin);
+    await this.loginThrottleService.recordSuccess(user.email);
+
+    return this.completeLogin(user, client);
+  }
+
+  private async completeLogin(user: UserDocument, client: ClientInfo): Promise<LoginDTOResponse> {
+    const tokens = await this.tokenService.issue(user, client);
     return {
-      accessToken: await this.jwtService.signAsync(payload),
-      user: result
+      ...tokens,
+      user: user.toObject<User>()
     };
   }
 
+  async refresh(refreshToken: string, client: ClientInfo): Promise<RefreshTokenDTOResponse> {
+    return this.tokenService.refresh(refreshToken, client);
+  }
+
+  async logout(sessionId: string): Promise<void> {
+    await this.tokenService.revoke(sessionId);
+  }
+
+  async listSessions(userId: string, currentSessionId: string): Promise<SessionInfo[]> {
+    return this.sessionService.list(userId, currentSessionId);
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await this.sessionService.revokeForUser(userId, sessionId);
+  }
+
   async signUp(userData: SignupDTO): Promise<SignupDTOResponse> {
-    const newUser = await this.usersService.create(userData);
+    // Only what a user may choose: verification and role are never taken from the request
+    const { name, surname, gender, bio, email, username, password, profilePhoto } = userData;
+    const newUser = await this.usersService.create({
+      name,
+      surname,
+      gender,
+      bio,
+      email,
+      username,
+      password,
+      profilePhoto,
+      emailVerified: false,
+      role: Role.User,
+    });
     if (!newUser) {
       throw new Error(`User not created`);
     }
+    await this.sendEmailVerification(newUser);
     return {
       message: "User created successfully", 
       code: 200
     };
   }
+
+  async verifyEmail(token: string): Promise<MessageDTOResponse> {
+    const userId = await this.actionTokenService.consume(token, ActionTokenPurpose.VerifyEmail);
+    await this.usersService.markEmailVerified(userId);
+    return { message: 'Email verified successfully' };
+  }
+
+  async resendVerification(email: string): Promise<MessageDTOResponse> {
+    const user = await this.usersService.findOne(email);
+    if (user && !user.emailVerified) {
+      await this.sendEmailVerification(user);
+    }
+    // Same answer either way, so the endpoint can't be used to probe for accounts
+    return { message: 'If the account exists and is not verified, a new email has been sent' };
+  }
+
+  async forgotPassword(email: string): Promise<MessageDTOResponse> {
+    const user = await this.usersService.findOne(email);
+    if (user) {
+      try {
+        const token = await this.actionTokenService.issue(
+          ActionTokenPurpose.ResetPassword,
+          user._id.toString(),
+          Number(this.configService.get('PASSWORD_RESET_TTL', 60 * 60)),
+        );
+        await this.mailService.sendPasswordReset(user, token);
+      } catch (error) {
+        // Failing only for existing accounts would tell them apart
+        this.logger.error(`Failed to send password reset email: ${error.message}`);
+      }
+    }
+    return { message: 'If the account exists, a password reset email has been sent' };
+  }
+
+  async resetPassword(token: string, password: string): Promise<MessageDTOResponse> {
+    // The token is single-use, so don't spend it on a password that can't be set
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new BadRequestException(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+      );
+    }
+    const userId = await this.actionTokenService.consume(token, ActionTokenPurpose.ResetPassword);
+    await this.usersService.setPassword(userId, password);
+    // Receiving the email proves ownership of the address too
+    await this.usersService.markEmailVerified(userId);
+    await this.sessionService.revokeAllForUser(userId);
+    return { message: 'Password updated successfully' };
+  }
+
+  private async sendEmailVerification(user: User): Promise<void> {
+    try {
+      const token = await this.actionTokenService.issue(
+        ActionTokenPurpose.VerifyEmail,
+        user._id.toString(),
+        Number(this.configService.get('EMAIL_VERIFICATION_TTL', 60 * 60 * 24)),
+      );
+      await this.mailService.sendEmailVerification(user, token);
+    } catch (error) {
+      // The account exists already; the user can ask for another email
+      this.logger.error(`Failed to send verification email: ${error.message}`);
+    }
+  }
+
+  private requireVerifiedEmail(): boolean {
+    return this.configService.get<string>('AUTH_REQUIRE_VERIFIED_EMAIL') === 'true';
+  }
 }
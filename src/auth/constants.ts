@@ -1,5 +0,0 @@
-
-export const jwtConstants = {
-    secret: 'SalvatoreAlessandroNicoleClara',
-  };
-  
\ No newline at end of file
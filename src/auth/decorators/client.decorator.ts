@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { ClientInfo } from '../session.service';
+
+export const Client = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ClientInfo => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    return {
+      ip: request.ip ?? '',
+      userAgent: request.headers['user-agent'],
+    };
+  },
+);
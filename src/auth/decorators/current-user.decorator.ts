@@ -0,0 +1,11 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedUser } from '../../policies/policy';
+
+// The caller AuthGuard put on the request; undefined on public routes without a token
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuthenticatedUser | undefined => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    return request['user'] as AuthenticatedUser | undefined;
+  },
+);
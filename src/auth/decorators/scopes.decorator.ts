@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { Scope } from '../../entities/api-keys/api-key.entity';
+
+export const SCOPES_KEY = 'scopes';
+// Scopes an API key needs for the route; keys can't call routes without any
+export const Scopes = (...scopes: Scope[]) => SetMetadata(SCOPES_KEY, scopes);
@@ -0,0 +1,19 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Public } from './decorators/public.decorators';
+import { JwtKeysService } from './jwt-keys.service';
+
+@ApiTags('auth')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly jwtKeysService: JwtKeysService) {}
+
+  @Get('jwks.json')
+  @Public()
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({ summary: 'Public keys used to verify access tokens' })
+  @ApiResponse({ status: 200, description: 'JSON Web Key Set.' })
+  getJwks() {
+    return this.jwtKeysService.jwks();
+  }
+}
@@ -0,0 +1,133 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { generateKeyPairSync } from 'crypto';
+import { JwtKeysService } from './jwt-keys.service';
+
+const pem = (type: 'rsa' | 'ec') => {
+  const { privateKey, publicKey } =
+    type === 'rsa'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+  };
+};
+
+const buildKeys = (env: Record<string, string>) =>
+  new JwtKeysService({
+    get: (name: string, fallback?: unknown) => env[name] ?? fallback,
+  } as unknown as ConfigService);
+
+const buildJwt = (keys: JwtKeysService) => new JwtService(keys.jwtOptions());
+
+describe('JwtKeysService', () => {
+  const oldRsa = pem('rsa');
+  const newRsa = pem('rsa');
+
+  it('should require a secret for HS256', () => {
+    expect(() => buildKeys({})).toThrow('JWT_SECRET');
+  });
+
+  it('should sign and verify HS256 tokens without publishing the secret', async () => {
+    const keys = buildKeys({ JWT_SECRET: 'test-secret' });
+    const jwt = buildJwt(keys);
+
+    const token = await jwt.signAsync({ sub: '1' });
+
+    await expect(jwt.verifyAsync(token)).resolves.toMatchObject({ sub: '1' });
+    expect(keys.jwks().keys).toHaveLength(0);
+  });
+
+  it('should sign RS256 tokens with a kid and publish the public key', async () => {
+    const keys = buildKeys({
+      JWT_ALGORITHM: 'RS256',
+      JWT_PRIVATE_KEY: newRsa.privateKey,
+      JWT_KEY_ID: 'key-2',
+    });
+    const jwt = buildJwt(keys);
+
+    const token = await jwt.signAsync({ sub: '1' });
+    const header: unknown = JSON.parse(
+      Buffer.from(token.split('.')[0], 'base64url').toString(),
+    );
+
+    expect(header).toMatchObject({ alg: 'RS256', kid: 'key-2' });
+    await expect(jwt.verifyAsync(token)).resolves.toMatchObject({ sub: '1' });
+    expect(keys.jwks().keys).toEqual([
+      expect.objectContaining({ kty: 'RSA', kid: 'key-2', alg: 'RS256' }),
+    ]);
+    expect(keys.jwks().keys[0]).not.toHaveProperty('d');
+  });
+
+  it('should support ES256 keys with a derived kid', async () => {
+    const ec = pem('ec');
+    const keys = buildKeys({
+      JWT_ALGORITHM: 'ES256',
+      JWT_PRIVATE_KEY: ec.privateKey.replace(/\n/g, '\\n'),
+    });
+    const jwt = buildJwt(keys);
+
+    const token = await jwt.signAsync({ sub: '1' });
+
+    await expect(jwt.verifyAsync(token)).resolves.toMatchObject({ sub: '1' });
+    expect(keys.jwks().keys[0].kid).toBeDefined();
+  });
+
+  it('should keep verifying tokens of the previous key during rotation', async () => {
+    const oldJwt = buildJwt(
+      buildKeys({
+        JWT_ALGORITHM: 'RS256',
+        JWT_PRIVATE_KEY: oldRsa.privateKey,
+        JWT_KEY_ID: 'key-1',
+      }),
+    );
+    const rotated = buildKeys({
+      JWT_ALGORITHM: 'RS256',
+      JWT_PRIVATE_KEY: newRsa.privateKey,
+      JWT_KEY_ID: 'key-2',
+      JWT_PREVIOUS_PUBLIC_KEY: oldRsa.publicKey,
+      JWT_PREVIOUS_KEY_ID: 'key-1',
+    });
+    const newJwt = buildJwt(rotated);
+
+    const oldToken = await oldJwt.signAsync({ sub: '1' });
+
+    await expect(newJwt.verifyAsync(oldToken)).resolves.toMatchObject({
+      sub: '1',
+    });
+    expect(rotated.jwks().keys.map((k) => k.kid)).toEqual(['key-2', 'key-1']);
+  });
+
+  it('should reject tokens signed with an unknown key', async () => {
+    const other = buildJwt(
+      buildKeys({
+        JWT_ALGORITHM: 'RS256',
+        JWT_PRIVATE_KEY: oldRsa.privateKey,
+        JWT_KEY_ID: 'key-1',
+      }),
+    );
+    const jwt = buildJwt(
+      buildKeys({
+        JWT_ALGORITHM: 'RS256',
+        JWT_PRIVATE_KEY: newRsa.privateKey,
+        JWT_KEY_ID: 'key-2',
+      }),
+    );
+
+    const token = await other.signAsync({ sub: '1' });
+
+    await expect(jwt.verifyAsync(token)).rejects.toThrow();
+  });
+
+  it('should not accept HS256 tokens when using asymmetric keys', async () => {
+    const hsJwt = buildJwt(buildKeys({ JWT_SECRET: newRsa.publicKey }));
+    const jwt = buildJwt(
+      buildKeys({ JWT_ALGORITHM: 'RS256', JWT_PRIVATE_KEY: newRsa.privateKey }),
+    );
+
+    const token = await hsJwt.signAsync({ sub: '1' });
+
+    await expect(jwt.verifyAsync(token)).rejects.toThrow();
+  });
+});
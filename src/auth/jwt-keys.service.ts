@@ -0,0 +1,207 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtModuleOptions, JwtSecretRequestType } from '@nestjs/jwt';
+import {
+  JsonWebKey,
+  KeyObject,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  createSecretKey,
+} from 'crypto';
+import { readFileSync } from 'fs';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+const SUPPORTED_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+
+interface VerificationKey {
+  kid?: string;
+  algorithm: JwtAlgorithm;
+  key: KeyObject;
+}
+
+interface SigningKey extends VerificationKey {
+  privateKey: KeyObject;
+}
+
+export interface PublicJwk extends JsonWebKey {
+  kid?: string;
+  alg: JwtAlgorithm;
+  use: 'sig';
+}
+
+/**
+ * Loads the JWT signing key and the keys still accepted for verification.
+ *
+ * The current key is configured with JWT_ALGORITHM plus JWT_SECRET (HS256) or
+ * JWT_PRIVATE_KEY (RS256/ES256). During a rotation the key that was replaced
+ * goes into the JWT_PREVIOUS_* variables so tokens it signed keep verifying
+ * until they expire. Every PEM variable can also be read from a file by
+ * appending _FILE to its name.
+ */
+@Injectable()
+export class JwtKeysService {
+  private readonly signingKey: SigningKey;
+  private readonly verificationKeys: VerificationKey[];
+
+  constructor(private configService: ConfigService) {
+    this.signingKey = this.loadSigningKey();
+    const previousKey = this.loadPreviousKey();
+
+    if (previousKey && previousKey.kid === this.signingKey.kid) {
+      throw new Error(
+        'JWT_PREVIOUS_KEY_ID must differ from the current key id',
+      );
+    }
+    this.verificationKeys = previousKey
+      ? [this.signingKey, previousKey]
+      : [this.signingKey];
+  }
+
+  jwtOptions(): JwtModuleOptions {
+    return {
+      signOptions: {
+        algorithm: this.signingKey.algorithm,
+        ...(this.signingKey.kid && { keyid: this.signingKey.kid }),
+        expiresIn: this.configService.get<string>('JWT_ACCESS_TTL', '1h'),
+      },
+      verifyOptions: {
+        algorithms: [...new Set(this.verificationKeys.map((k) => k.algorithm))],
+      },
+      secretOrKeyProvider: (requestType, tokenOrPayload) =>
+        requestType === JwtSecretRequestType.SIGN
+          ? this.signingKey.privateKey
+          : this.keyForToken(tokenOrPayload),
+    };
+  }
+
+  /**
+   * Public keys in JWKS format. Symmetric keys are never published.
+   */
+  jwks(): { keys: PublicJwk[] } {
+    return {
+      keys: this.verificationKeys
+        .filter((k) => k.algorithm !== 'HS256')
+        .map((k) => ({
+          ...k.key.export({ format: 'jwk' }),
+          kid: k.kid,
+          alg: k.algorithm,
+          use: 'sig',
+        })),
+    };
+  }
+
+  private keyForToken(token: string | object | Buffer): KeyObject {
+    const kid = typeof token === 'string' ? this.readKid(token) : undefined;
+    // Tokens without a kid predate key ids; unknown ids fail the signature check
+    const match = kid && this.verificationKeys.find((k) => k.kid === kid);
+    return (match || this.signingKey).key;
+  }
+
+  private readKid(token: string): string | undefined {
+    try {
+      const header = JSON.parse(
+        Buffer.from(token.split('.')[0], 'base64url').toString('utf8'),
+      ) as { kid?: unknown };
+      return typeof header.kid === 'string' ? header.kid : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private loadSigningKey(): SigningKey {
+    const algorithm = this.readAlgorithm('JWT_ALGORITHM', 'HS256');
+
+    if (algorithm === 'HS256') {
+      const secret = this.read('JWT_SECRET');
+      if (!secret) {
+        throw new Error('Missing JWT configuration: JWT_SECRET');
+      }
+      const key = createSecretKey(Buffer.from(secret, 'utf8'));
+      return {
+        kid: this.read('JWT_KEY_ID'),
+        algorithm,
+        key,
+        privateKey: key,
+      };
+    }
+
+    const privatePem = this.read('JWT_PRIVATE_KEY');
+    if (!privatePem) {
+      throw new Error('Missing JWT configuration: JWT_PRIVATE_KEY');
+    }
+    const privateKey = createPrivateKey(privatePem);
+    const publicPem = this.read('JWT_PUBLIC_KEY');
+    const key = publicPem
+      ? createPublicKey(publicPem)
+      : createPublicKey(privateKey);
+    return {
+      kid: this.read('JWT_KEY_ID') ?? this.thumbprint(key),
+      algorithm,
+      key,
+      privateKey,
+    };
+  }
+
+  private loadPreviousKey(): VerificationKey | undefined {
+    const algorithm = this.readAlgorithm(
+      'JWT_PREVIOUS_ALGORITHM',
+      this.signingKey.algorithm,
+    );
+    const kid = this.read('JWT_PREVIOUS_KEY_ID');
+
+    if (algorithm === 'HS256') {
+      const secret = this.read('JWT_PREVIOUS_SECRET');
+      if (!secret) {
+        return undefined;
+      }
+      if (!kid) {
+        throw new Error('Missing JWT configuration: JWT_PREVIOUS_KEY_ID');
+      }
+      return {
+        kid,
+        algorithm,
+        key: createSecretKey(Buffer.from(secret, 'utf8')),
+      };
+    }
+
+    const publicPem = this.read('JWT_PREVIOUS_PUBLIC_KEY');
+    if (!publicPem) {
+      return undefined;
+    }
+    const key = createPublicKey(publicPem);
+    return { kid: kid ?? this.thumbprint(key), algorithm, key };
+  }
+
+  private readAlgorithm(name: string, fallback: JwtAlgorithm): JwtAlgorithm {
+    const value = this.read(name) ?? fallback;
+    if (!SUPPORTED_ALGORITHMS.includes(value as JwtAlgorithm)) {
+      throw new Error(`Unsupported ${name}: ${value}`);
+    }
+    return value as JwtAlgorithm;
+  }
+
+  private read(name: string): string | undefined {
+    const file = this.configService.get<string>(`${name}_FILE`);
+    const value = file
+      ? readFileSync(file, 'utf8')
+      : this.configService.get<string>(name);
+    // PEM keys are often passed through env vars with escaped newlines
+    return value ? value.replace(/\\n/g, '\n').trim() : undefined;
+  }
+
+  /**
+   * RFC 7638 thumbprint, used as kid when none is configured.
+   */
+  private thumbprint(key: KeyObject): string {
+    const jwk = key.export({ format: 'jwk' });
+    const members =
+      jwk.kty === 'EC'
+        ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+        : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+    return createHash('sha256')
+      .update(JSON.stringify(members))
+      .digest('base64url');
+  }
+}
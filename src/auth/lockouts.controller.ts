@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Roles } from './decorators/role.decorator';
+import { Role } from '../entities/users/users.entity';
+import { LoginThrottleService } from './login-throttle.service';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AuthenticatedUser } from '../policies/policy';
+
+@ApiTags('auth')
+@ApiBearerAuth()
+@Controller('auth/lockouts')
+@Roles(Role.Admin)
+export class LockoutsController {
+  constructor(private readonly loginThrottleService: LoginThrottleService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List account lockouts caused by failed logins' })
+  @ApiQuery({ name: 'active', required: false, type: Boolean })
+  @ApiResponse({ status: 200, description: 'Return the lockouts.' })
+  @ApiResponse({ status: 403, description: 'Admins only.' })
+  findAll(@Query('active') active?: string) {
+    return this.loginThrottleService.findLockouts(active !== 'false');
+  }
+
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Lift a lockout before it expires' })
+  @ApiResponse({ status: 200, description: 'Lockout lifted.' })
+  @ApiResponse({
+    status: 404,
+    description: 'Lockout not found or already lifted.',
+  })
+  unlock(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.loginThrottleService.unlock(id, user.sub);
+  }
+}
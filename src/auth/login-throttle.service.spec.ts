@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { LoginThrottleService } from './login-throttle.service';
+import { LoginLockout } from '../entities/lockout/login-lockout.entity';
+import { TooManyAttemptsException } from './too-many-attempts.exception';
+
+// Just enough of the Redis client for the sorted-set counters
+const createRedisFake = () => {
+  const zsets = new Map<string, { score: number; value: string }[]>();
+  const strings = new Map<string, { value: string; expiresAt: number }>();
+
+  const commands = {
+    zAdd: (key: string, entry: { score: number; value: string }) => {
+      zsets.set(key, [...(zsets.get(key) ?? []), entry]);
+      return 1;
+    },
+    pExpire: () => 1,
+    zCount: (key: string, min: number) =>
+      (zsets.get(key) ?? []).filter((e) => e.score >= min).length,
+    zRemRangeByScore: (key: string, _min: string, max: number) => {
+      zsets.set(
+        key,
+        (zsets.get(key) ?? []).filter((e) => e.score > max),
+      );
+      return 0;
+    },
+    zRangeWithScores: (key: string) =>
+      [...(zsets.get(key) ?? [])].sort((a, b) => a.score - b.score),
+  };
+
+  const multi = () => {
+    const queued: (() => unknown)[] = [];
+    const chain = new Proxy(
+      {},
+      {
+        get: (_target, name: string) =>
+          name === 'exec'
+            ? () => Promise.resolve(queued.map((run) => run()))
+            : (...args: unknown[]) => {
+                queued.push(() =>
+                  (commands[name] as (...a: unknown[]) => unknown)(...args),
+                );
+                return chain;
+              },
+      },
+    );
+    return chain;
+  };
+
+  return {
+    multi,
+    pTTL: (key: string) => {
+      const entry = strings.get(key);
+      return Promise.resolve(entry ? entry.expiresAt - Date.now() : -2);
+    },
+    set: (key: string, value: string, options: { EX: number; NX: boolean }) => {
+      if (options.NX && strings.has(key)) {
+        return Promise.resolve(null);
+      }
+      strings.set(key, { value, expiresAt: Date.now() + options.EX * 1000 });
+      return Promise.resolve('OK');
+    },
+    del: (keys: string | string[]) => {
+      for (const key of [keys].flat()) {
+        zsets.delete(key);
+        strings.delete(key);
+      }
+      return Promise.resolve(1);
+    },
+  };
+};
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+
+  const config: Record<string, number> = {
+    LOGIN_FREE_ATTEMPTS: 2,
+    LOGIN_MAX_ACCOUNT_FAILURES: 4,
+    LOGIN_MAX_IP_FAILURES: 6,
+  };
+
+  const mockLockoutModel = {
+    create: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-05-07T12:00:00Z') });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        { provide: 'REDIS_CLIENT', useValue: createRedisFake() },
+        {
+          provide: getModelToken(LoginLockout.name),
+          useValue: mockLockoutModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback: number) => config[key] ?? fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const fail = async (
+    times: number,
+    email = 'john@example.com',
+    ip = '1.1.1.1',
+  ) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(email, ip);
+    }
+  };
+
+  const retryAfter = async (email = 'john@example.com', ip = '1.1.1.1') => {
+    try {
+      await service.assertCanAttempt(email, ip);
+      return 0;
+    } catch (error) {
+      expect(error).toBeInstanceOf(TooManyAttemptsException);
+      return (error as TooManyAttemptsException).retryAfterSeconds;
+    }
+  };
+
+  it('should allow the first attempts without delay', async () => {
+    await fail(1);
+    await expect(retryAfter()).resolves.toBe(0);
+  });
+
+  it('should double the delay after each failure past the free attempts', async () => {
+    await fail(2);
+    await expect(retryAfter()).resolves.toBe(1);
+
+    await fail(1);
+    await expect(retryAfter()).resolves.toBe(2);
+
+    jest.advanceTimersByTime(2000);
+    await expect(retryAfter()).resolves.toBe(0);
+  });
+
+  it('should treat email addresses case-insensitively', async () => {
+    await fail(3, 'John@Example.com');
+    await expect(retryAfter('john@example.com')).resolves.toBeGreaterThan(0);
+  });
+
+  it('should lock the account and record the lockout', async () => {
+    await fail(4);
+
+    expect(mockLockoutModel.create).toHaveBeenCalledTimes(1);
+    expect(mockLockoutModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'john@example.com', failures: 4 }),
+    );
+    await expect(retryAfter()).resolves.toBe(15 * 60);
+  });
+
+  it('should cap failures per IP across accounts', async () => {
+    for (let i = 0; i < 6; i++) {
+      await fail(1, `user${i}@example.com`);
+    }
+    await expect(retryAfter('other@example.com')).resolves.toBe(15 * 60);
+    await expect(retryAfter('other@example.com', '2.2.2.2')).resolves.toBe(0);
+  });
+
+  it('should forget failures after a successful login', async () => {
+    await fail(3);
+    await service.recordSuccess('john@example.com');
+    await expect(retryAfter()).resolves.toBe(0);
+  });
+
+  it('should let an admin lift a lockout', async () => {
+    await fail(4);
+    const adminId = new Types.ObjectId().toString();
+    mockLockoutModel.findOneAndUpdate.mockReturnValue({
+      exec: jest.fn().mockResolvedValue({ email: 'john@example.com' }),
+    });
+
+    await service.unlock(new Types.ObjectId().toString(), adminId);
+
+    await expect(retryAfter()).resolves.toBe(0);
+  });
+});
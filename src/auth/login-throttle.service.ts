@@ -0,0 +1,193 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { randomUUID } from 'crypto';
+import { Model, Types } from 'mongoose';
+import { RedisClientType } from 'redis';
+import {
+  LoginLockout,
+  LoginLockoutDocument,
+} from '../entities/lockout/login-lockout.entity';
+import { TooManyAttemptsException } from './too-many-attempts.exception';
+
+/**
+ * Sliding-window counters of failed logins, kept in Redis sorted sets scored
+ * by the time of each failure. After a few free attempts every further
+ * failure doubles the wait before the account may try again, and too many
+ * failures lock the account for a while. Each IP also has a hard cap, which
+ * slows down attempts spread over many accounts.
+ */
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger(LoginThrottleService.name);
+
+  private readonly windowMs: number;
+  private readonly freeAttempts: number;
+  private readonly maxDelayMs: number;
+  private readonly maxAccountFailures: number;
+  private readonly maxIpFailures: number;
+  private readonly lockoutSeconds: number;
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redisClient: RedisClientType,
+    @InjectModel(LoginLockout.name)
+    private readonly lockoutModel: Model<LoginLockoutDocument>,
+    private configService: ConfigService,
+  ) {
+    const number = (key: string, fallback: number) =>
+      Number(this.configService.get(key, fallback));
+    this.windowMs = number('LOGIN_FAILURE_WINDOW', 15 * 60) * 1000;
+    this.freeAttempts = number('LOGIN_FREE_ATTEMPTS', 3);
+    this.maxDelayMs = number('LOGIN_MAX_DELAY', 60) * 1000;
+    this.maxAccountFailures = number('LOGIN_MAX_ACCOUNT_FAILURES', 10);
+    this.maxIpFailures = number('LOGIN_MAX_IP_FAILURES', 50);
+    this.lockoutSeconds = number('LOGIN_LOCKOUT_DURATION', 15 * 60);
+  }
+
+  /**
+   * Throws TooManyAttemptsException when the account or IP must wait.
+   */
+  async assertCanAttempt(email: string, ip: string): Promise<void> {
+    const account = this.normalizeEmail(email);
+    const lockTtl = await this.redisClient.pTTL(this.lockoutKey(account));
+    if (lockTtl > 0) {
+      throw new TooManyAttemptsException(
+        Math.ceil(lockTtl / 1000),
+        'Account temporarily locked',
+      );
+    }
+
+    const now = Date.now();
+    const [accountFailures, ipFailures] = await Promise.all([
+      this.recentFailures(this.accountKey(account), now),
+      this.recentFailures(this.ipKey(ip), now),
+    ]);
+
+    if (ipFailures.length >= this.maxIpFailures) {
+      // Wait until enough failures slide out of the window
+      const oldest = ipFailures[ipFailures.length - this.maxIpFailures];
+      this.throwRetryAfter(oldest + this.windowMs - now);
+    }
+
+    const failures = accountFailures.length;
+    if (failures >= this.freeAttempts) {
+      const delay = Math.min(
+        2 ** (failures - this.freeAttempts) * 1000,
+        this.maxDelayMs,
+      );
+      const last = accountFailures[failures - 1];
+      if (last + delay > now) {
+        this.throwRetryAfter(last + delay - now);
+      }
+    }
+  }
+
+  async recordFailure(email: string, ip: string): Promise<void> {
+    const account = this.normalizeEmail(email);
+    const now = Date.now();
+    const member = `${now}:${randomUUID()}`;
+
+    const [, , , , failures] = await this.redisClient
+      .multi()
+      .zAdd(this.accountKey(account), { score: now, value: member })
+      .pExpire(this.accountKey(account), this.windowMs)
+      .zAdd(this.ipKey(ip), { score: now, value: member })
+      .pExpire(this.ipKey(ip), this.windowMs)
+      .zCount(this.accountKey(account), now - this.windowMs, '+inf')
+      .exec();
+
+    if (Number(failures) >= this.maxAccountFailures) {
+      await this.lock(account, ip, Number(failures));
+    }
+  }
+
+  async recordSuccess(email: string): Promise<void> {
+    await this.redisClient.del(this.accountKey(this.normalizeEmail(email)));
+  }
+
+  async findLockouts(activeOnly: boolean): Promise<LoginLockoutDocument[]> {
+    const filter = activeOnly
+      ? { unlockedAt: { $exists: false }, lockedUntil: { $gt: new Date() } }
+      : {};
+    return this.lockoutModel.find(filter).sort({ createdAt: -1 }).exec();
+  }
+
+  async unlock(id: string, adminId: string): Promise<LoginLockoutDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid lockout ID');
+    }
+    const lockout = await this.lockoutModel
+      .findOneAndUpdate(
+        { _id: id, unlockedAt: { $exists: false } },
+        { unlockedAt: new Date(), unlockedBy: new Types.ObjectId(adminId) },
+        { new: true },
+      )
+      .exec();
+    if (!lockout) {
+      throw new NotFoundException('Lockout not found or already lifted');
+    }
+
+    await this.redisClient.del([
+      this.lockoutKey(lockout.email),
+      this.accountKey(lockout.email),
+    ]);
+    this.logger.log(`Lockout of ${lockout.email} lifted by admin ${adminId}`);
+    return lockout;
+  }
+
+  private async lock(account: string, ip: string, failures: number) {
+    const acquired = await this.redisClient.set(
+      this.lockoutKey(account),
+      String(failures),
+      { EX: this.lockoutSeconds, NX: true },
+    );
+    if (!acquired) {
+      return;
+    }
+
+    await this.lockoutModel.create({
+      email: account,
+      ip,
+      failures,
+      lockedUntil: new Date(Date.now() + this.lockoutSeconds * 1000),
+    });
+    this.logger.warn(
+      `Account ${account} locked after ${failures} failed logins`,
+    );
+  }
+
+  private async recentFailures(key: string, now: number): Promise<number[]> {
+    const [, entries] = await this.redisClient
+      .multi()
+      .zRemRangeByScore(key, '-inf', now - this.windowMs)
+      .zRangeWithScores(key, 0, -1)
+      .exec();
+    return (entries as unknown as { score: number }[]).map((e) => e.score);
+  }
+
+  private throwRetryAfter(ms: number): never {
+    throw new TooManyAttemptsException(Math.max(1, Math.ceil(ms / 1000)));
+  }
+
+  private normalizeEmail(email: string): string {
+    return (email ?? '').trim().toLowerCase();
+  }
+
+  private accountKey(account: string): string {
+    return `auth:login-failures:account:${account}`;
+  }
+
+  private ipKey(ip: string): string {
+    return `auth:login-failures:ip:${ip || 'unknown'}`;
+  }
+
+  private lockoutKey(account: string): string {
+    return `auth:lockout:${account}`;
+  }
+}
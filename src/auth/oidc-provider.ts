@@ -0,0 +1,208 @@
+import {
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, JsonWebKey } from 'crypto';
+
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  preferred_username?: string;
+  nonce?: string;
+}
+
+export interface AuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+type Jwk = JsonWebKey & { kid?: string; use?: string };
+
+/**
+ * Client for one OpenID Connect provider using the authorization code flow
+ * with PKCE. Endpoints come from the provider's discovery document and the
+ * ID token is checked against its published keys.
+ */
+export class OidcProvider {
+  private discovery?: Promise<DiscoveryDocument>;
+  private keys = new Map<string, string>();
+  private readonly jwtService = new JwtService();
+
+  constructor(readonly config: OidcProviderConfig) {}
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  async authorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const discovery = await this.getDiscovery();
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scopes,
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+    return url.toString();
+  }
+
+  /**
+   * Exchanges the authorization code and returns the verified ID token claims.
+   */
+  async exchangeCode(
+    code: string,
+    codeVerifier: string,
+    nonce: string,
+  ): Promise<OidcClaims> {
+    const discovery = await this.getDiscovery();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    if (this.config.clientSecret) {
+      const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.config.redirectUri,
+        client_id: this.config.clientId,
+        code_verifier: codeVerifier,
+      }),
+    });
+    if (!response.ok) {
+      throw new UnauthorizedException('Authorization code was rejected');
+    }
+    const body = (await response.json()) as { id_token?: string };
+    if (!body.id_token) {
+      throw new UnauthorizedException('Provider did not return an ID token');
+    }
+
+    return this.verifyIdToken(body.id_token, nonce);
+  }
+
+  async verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+    const discovery = await this.getDiscovery();
+    const header = this.decodeHeader(idToken);
+    const publicKey = await this.getKey(header.kid);
+
+    let claims: OidcClaims;
+    try {
+      claims = await this.jwtService.verifyAsync<OidcClaims>(idToken, {
+        publicKey,
+        algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'],
+        issuer: discovery.issuer,
+        audience: this.config.clientId,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+    if (claims.nonce !== nonce) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+    return claims;
+  }
+
+  private decodeHeader(idToken: string): { kid?: string } {
+    try {
+      const header = idToken.split('.')[0];
+      return JSON.parse(Buffer.from(header, 'base64url').toString('utf8')) as {
+        kid?: string;
+      };
+    } catch {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+  }
+
+  // Refetches the key set once on an unknown kid, to follow key rotation
+  private async getKey(kid = ''): Promise<string> {
+    if (!this.keys.has(kid)) {
+      await this.loadKeys();
+    }
+    // Tokens without a kid are fine as long as there is a single key
+    const key =
+      this.keys.get(kid) ??
+      (!kid && this.keys.size === 1 ? [...this.keys.values()][0] : undefined);
+    if (!key) {
+      throw new UnauthorizedException('Invalid ID token');
+    }
+    return key;
+  }
+
+  private async loadKeys(): Promise<void> {
+    const discovery = await this.getDiscovery();
+    const { keys } = await this.fetchJson<{ keys: Jwk[] }>(discovery.jwks_uri);
+
+    this.keys = new Map();
+    for (const jwk of keys) {
+      if (jwk.use && jwk.use !== 'sig') {
+        continue;
+      }
+      const pem = createPublicKey({ key: jwk, format: 'jwk' }).export({
+        type: 'spki',
+        format: 'pem',
+      }) as string;
+      this.keys.set(jwk.kid ?? '', pem);
+    }
+  }
+
+  private getDiscovery(): Promise<DiscoveryDocument> {
+    if (!this.discovery) {
+      const issuer = this.config.issuer.replace(/\/$/, '');
+      this.discovery = this.fetchJson<DiscoveryDocument>(
+        `${issuer}/.well-known/openid-configuration`,
+      );
+      // Don't cache a failed lookup
+      this.discovery.catch(() => (this.discovery = undefined));
+    }
+    return this.discovery;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, { headers: { Accept: 'application/json' } });
+    } catch {
+      throw new ServiceUnavailableException(
+        `Provider ${this.name} is not reachable`,
+      );
+    }
+    if (!response.ok) {
+      throw new ServiceUnavailableException(
+        `Provider ${this.name} returned ${response.status}`,
+      );
+    }
+    return (await response.json()) as T;
+  }
+}
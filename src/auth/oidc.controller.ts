@@ -0,0 +1,140 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  OidcAuthorizationDTOResponse,
+  OidcCallbackDTO,
+  OidcProvidersDTOResponse,
+} from '../DTO/oidc-dto';
+import { UserIdentity } from '../entities/users/user-identity.entity';
+import { Public } from './decorators/public.decorators';
+import { Client } from './decorators/client.decorator';
+import { ClientInfo } from './session.service';
+import { OidcService } from './oidc.service';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AuthenticatedUser } from '../policies/policy';
+
+@ApiTags('auth')
+@Controller('auth/oidc')
+export class OidcController {
+  constructor(private readonly oidcService: OidcService) {}
+
+  @Get('providers')
+  @Public()
+  @ApiOperation({ summary: 'List the configured login providers' })
+  @ApiResponse({ status: 200, type: OidcProvidersDTOResponse })
+  providers(): OidcProvidersDTOResponse {
+    return { providers: this.oidcService.listProviders() };
+  }
+
+  @Get('identities')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the providers linked to the current user' })
+  @ApiResponse({ status: 200, type: [UserIdentity] })
+  identities(@CurrentUser() user: AuthenticatedUser) {
+    return this.oidcService.listIdentities(user.sub);
+  }
+
+  @Get(':provider/authorize')
+  @Public()
+  @ApiOperation({ summary: 'Start a login with a provider' })
+  @ApiResponse({ status: 200, type: OidcAuthorizationDTOResponse })
+  @ApiResponse({ status: 404, description: 'Unknown provider.' })
+  authorize(@Param('provider') provider: string) {
+    return this.oidcService.authorize(provider);
+  }
+
+  @Post(':provider/callback')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete a login with the code returned by the provider',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User logged in, or a two-factor challenge.',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or expired state.' })
+  @ApiResponse({ status: 401, description: 'Code or ID token rejected.' })
+  @ApiResponse({
+    status: 409,
+    description: 'Email in use by an account the provider is not linked to.',
+  })
+  callback(
+    @Param('provider') provider: string,
+    @Body(new ValidationPipe({ whitelist: true })) callbackDto: OidcCallbackDTO,
+    @Client() client: ClientInfo,
+  ) {
+    return this.oidcService.login(
+      provider,
+      callbackDto.code,
+      callbackDto.state,
+      client,
+    );
+  }
+
+  @Post(':provider/link')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start linking a provider to the current user' })
+  @ApiResponse({ status: 200, type: OidcAuthorizationDTOResponse })
+  link(
+    @Param('provider') provider: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.oidcService.authorize(provider, user.sub);
+  }
+
+  @Post(':provider/link/callback')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Complete linking with the code returned by the provider',
+  })
+  @ApiResponse({ status: 201, type: UserIdentity })
+  @ApiResponse({
+    status: 409,
+    description: 'Provider account linked to another user.',
+  })
+  linkCallback(
+    @Param('provider') provider: string,
+    @Body(new ValidationPipe({ whitelist: true })) callbackDto: OidcCallbackDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.oidcService.link(
+      user.sub,
+      provider,
+      callbackDto.code,
+      callbackDto.state,
+    );
+  }
+
+  @Delete(':provider')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Unlink a provider from the current user' })
+  @ApiResponse({ status: 204, description: 'Unlinked.' })
+  @ApiResponse({
+    status: 400,
+    description: 'It is the only way left to log in.',
+  })
+  unlink(
+    @Param('provider') provider: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.oidcService.unlink(user.sub, provider);
+  }
+}
@@ -0,0 +1,433 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, generateKeyPairSync } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Types } from 'mongoose';
+import { OidcService } from './oidc.service';
+import { AuthService } from './auth.service';
+import { UsersService } from '../users/users.service';
+import { UserIdentity } from '../entities/users/user-identity.entity';
+
+// Minimal OpenID provider: discovery, keys and a token endpoint checking PKCE
+function startMockProvider() {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwtService = new JwtService();
+  const codes = new Map<
+    string,
+    { challenge: string; claims: Record<string, unknown> }
+  >();
+  let issuer = '';
+
+  const server: Server = createServer((req, res) => {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    if (req.url === '/jwks') {
+      return json(200, {
+        keys: [
+          { ...publicKey.export({ format: 'jwk' }), kid: 'k1', use: 'sig' },
+        ],
+      });
+    }
+    if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        const grant = codes.get(params.get('code') ?? '');
+        const verifier = params.get('code_verifier') ?? '';
+        if (
+          !grant ||
+          createHash('sha256').update(verifier).digest('base64url') !==
+            grant.challenge
+        ) {
+          return json(400, { error: 'invalid_grant' });
+        }
+        codes.delete(params.get('code') ?? '');
+        json(200, {
+          access_token: 'at',
+          token_type: 'Bearer',
+          id_token: jwtService.sign(
+            { aud: 'client-1', ...grant.claims },
+            {
+              privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+              algorithm: 'RS256',
+              keyid: 'k1',
+              issuer,
+              expiresIn: 300,
+            },
+          ),
+        });
+      });
+      return;
+    }
+    json(404, {});
+  });
+
+  return {
+    server,
+    codes,
+    listen: () =>
+      new Promise<string>((resolve) =>
+        server.listen(0, '127.0.0.1', () => {
+          issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+          resolve(issuer);
+        }),
+      ),
+  };
+}
+
+describe('OidcService', () => {
+  let service: OidcService;
+  const provider = startMockProvider();
+  let issuer: string;
+
+  const redisStore = new Map<string, string>();
+  const mockRedisClient = {
+    set: jest.fn((key: string, value: string) => {
+      redisStore.set(key, value);
+      return Promise.resolve('OK');
+    }),
+    getDel: jest.fn((key: string) => {
+      const value = redisStore.get(key) ?? null;
+      redisStore.delete(key);
+      return Promise.resolve(value);
+    }),
+  };
+
+  let identities: Array<{
+    user: Types.ObjectId;
+    provider: string;
+    subject: string;
+    deleteOne: jest.Mock;
+  }>;
+  const matches =
+    (query: Record<string, unknown>) => (identity: Record<string, unknown>) =>
+      Object.entries(query).every(([key, value]) => {
+        const field = identity[key];
+        if (value && typeof value === 'object' && '$ne' in value) {
+          return field !== value.$ne;
+        }
+        return String(field) === String(value);
+      });
+  const mockIdentityModel = {
+    findOne: jest.fn((query: Record<string, unknown>) =>
+      Promise.resolve(identities.find(matches(query)) ?? null),
+    ),
+    exists: jest.fn((query: Record<string, unknown>) =>
+      Promise.resolve(identities.find(matches(query)) ? { _id: 1 } : null),
+    ),
+    countDocuments: jest.fn((query: Record<string, unknown>) =>
+      Promise.resolve(identities.filter(matches(query)).length),
+    ),
+    create: jest.fn(
+      (doc: { user: Types.ObjectId; provider: string; subject: string }) => {
+        const identity = { ...doc, deleteOne: jest.fn() };
+        identities.push(identity);
+        return Promise.resolve(identity);
+      },
+    ),
+  };
+
+  const mockUsersService = {
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    findByIdWithSecrets: jest.fn(),
+    existsByUsername: jest.fn(),
+    createWithoutPassword: jest.fn(),
+  };
+
+  const mockAuthService = {
+    startLogin: jest.fn(),
+  };
+
+  const client = { ip: '127.0.0.1', userAgent: 'jest' };
+
+  beforeAll(async () => {
+    issuer = await provider.listen();
+  });
+
+  afterAll(
+    () =>
+      new Promise<void>((resolve) => provider.server.close(() => resolve())),
+  );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    redisStore.clear();
+    identities = [];
+
+    const config: Record<string, string> = {
+      OIDC_PROVIDERS: 'mock',
+      OIDC_MOCK_ISSUER: issuer,
+      OIDC_MOCK_CLIENT_ID: 'client-1',
+      OIDC_MOCK_CLIENT_SECRET: 'secret',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        {
+          provide: getModelToken(UserIdentity.name),
+          useValue: mockIdentityModel,
+        },
+        { provide: 'REDIS_CLIENT', useValue: mockRedisClient },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: AuthService, useValue: mockAuthService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: string) => config[key] ?? fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+  });
+
+  // Plays the browser: starts the flow and lets the provider issue a code
+  async function authorizeAs(
+    claims: Record<string, unknown>,
+    linkUserId?: string,
+  ) {
+    const { authorizationUrl } = await service.authorize('mock', linkUserId);
+    const params = new URL(authorizationUrl).searchParams;
+    const code = `code-${provider.codes.size}-${Date.now()}`;
+    provider.codes.set(code, {
+      challenge: params.get('code_challenge') ?? '',
+      claims: { nonce: params.get('nonce'), ...claims },
+    });
+    return { code, state: params.get('state') ?? '' };
+  }
+
+  it('should list the configured providers', () => {
+    expect(service.listProviders()).toEqual(['mock']);
+  });
+
+  describe('authorize', () => {
+    it('should build an authorization URL with PKCE', async () => {
+      const { authorizationUrl } = await service.authorize('mock');
+      const url = new URL(authorizationUrl);
+
+      expect(`${url.origin}${url.pathname}`).toBe(`${issuer}/authorize`);
+      expect(url.searchParams.get('client_id')).toBe('client-1');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('redirect_uri')).toBe(
+        'http://localhost:3000/oidc/mock/callback',
+      );
+      expect(redisStore.size).toBe(1);
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(service.authorize('other')).rejects.toThrow(
+        'Unknown provider',
+      );
+    });
+  });
+
+  describe('login', () => {
+    it('should create a user and an identity on the first login', async () => {
+      const newUser = { _id: new Types.ObjectId() };
+      mockUsersService.findOne.mockResolvedValue(null);
+      mockUsersService.existsByUsername.mockResolvedValue(false);
+      mockUsersService.createWithoutPassword.mockResolvedValue(newUser);
+      mockAuthService.startLogin.mockResolvedValue({ accessToken: 'a' });
+
+      const { code, state } = await authorizeAs({
+        sub: 'sub-1',
+        email: 'Ale.C@example.com',
+        email_verified: true,
+        given_name: 'Ale',
+        family_name: 'C',
+      });
+      const result = await service.login('mock', code, state, client);
+
+      expect(result).toEqual({ accessToken: 'a' });
+      expect(mockUsersService.createWithoutPassword).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Ale',
+          surname: 'C',
+          username: 'ale.c',
+          email: 'Ale.C@example.com',
+          emailVerified: true,
+        }),
+      );
+      expect(identities).toHaveLength(1);
+      expect(identities[0]).toMatchObject({
+        provider: 'mock',
+        subject: 'sub-1',
+      });
+      expect(mockAuthService.startLogin).toHaveBeenCalledWith(newUser, client);
+    });
+
+    it('should log in the user linked to the identity', async () => {
+      const user = { _id: new Types.ObjectId() };
+      identities.push({
+        user: user._id,
+        provider: 'mock',
+        subject: 'sub-1',
+        deleteOne: jest.fn(),
+      });
+      mockUsersService.findById.mockResolvedValue(user);
+
+      const { code, state } = await authorizeAs({ sub: 'sub-1' });
+      await service.login('mock', code, state, client);
+
+      expect(mockUsersService.createWithoutPassword).not.toHaveBeenCalled();
+      expect(mockAuthService.startLogin).toHaveBeenCalledWith(user, client);
+    });
+
+    it('should link to the user with the same verified email', async () => {
+      const user = { _id: new Types.ObjectId(), emailVerified: true };
+      mockUsersService.findOne.mockResolvedValue(user);
+
+      const { code, state } = await authorizeAs({
+        sub: 'sub-1',
+        email: 'ale@ale.com',
+        email_verified: true,
+      });
+      await service.login('mock', code, state, client);
+
+      expect(identities[0].user).toBe(user._id);
+      expect(mockAuthService.startLogin).toHaveBeenCalledWith(user, client);
+    });
+
+    it('should not link on an email the provider has not verified', async () => {
+      mockUsersService.findOne.mockResolvedValue({
+        _id: new Types.ObjectId(),
+        emailVerified: true,
+      });
+
+      const { code, state } = await authorizeAs({
+        sub: 'sub-1',
+        email: 'ale@ale.com',
+        email_verified: false,
+      });
+
+      await expect(service.login('mock', code, state, client)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(identities).toHaveLength(0);
+    });
+
+    it('should not accept a state twice', async () => {
+      mockUsersService.findById.mockResolvedValue({
+        _id: new Types.ObjectId(),
+      });
+      identities.push({
+        user: new Types.ObjectId(),
+        provider: 'mock',
+        subject: 'sub-1',
+        deleteOne: jest.fn(),
+      });
+      const { code, state } = await authorizeAs({ sub: 'sub-1' });
+      await service.login('mock', code, state, client);
+
+      await expect(service.login('mock', code, state, client)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject ID tokens issued to another client', async () => {
+      const { code, state } = await authorizeAs({
+        sub: 'sub-1',
+        aud: 'someone-else',
+      });
+
+      await expect(service.login('mock', code, state, client)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a state started for linking', async () => {
+      const { code, state } = await authorizeAs(
+        { sub: 'sub-1' },
+        new Types.ObjectId().toString(),
+      );
+
+      await expect(service.login('mock', code, state, client)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('link', () => {
+    const userId = new Types.ObjectId().toString();
+
+    it('should link the provider account to the user', async () => {
+      const { code, state } = await authorizeAs({ sub: 'sub-1' }, userId);
+
+      await service.link(userId, 'mock', code, state);
+
+      expect(identities).toHaveLength(1);
+      expect(identities[0].user.toString()).toBe(userId);
+    });
+
+    it('should refuse an account linked to another user', async () => {
+      identities.push({
+        user: new Types.ObjectId(),
+        provider: 'mock',
+        subject: 'sub-1',
+        deleteOne: jest.fn(),
+      });
+      const { code, state } = await authorizeAs({ sub: 'sub-1' }, userId);
+
+      await expect(service.link(userId, 'mock', code, state)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('unlink', () => {
+    const userId = new Types.ObjectId();
+
+    beforeEach(() => {
+      identities.push({
+        user: userId,
+        provider: 'mock',
+        subject: 'sub-1',
+        deleteOne: jest.fn(),
+      });
+    });
+
+    it('should unlink when the user has a password', async () => {
+      mockUsersService.findByIdWithSecrets.mockResolvedValue({
+        password: '$2b$hash',
+      });
+
+      await service.unlink(userId.toString(), 'mock');
+
+      expect(identities[0].deleteOne).toHaveBeenCalled();
+    });
+
+    it('should refuse to remove the only way to log in', async () => {
+      mockUsersService.findByIdWithSecrets.mockResolvedValue({});
+
+      await expect(service.unlink(userId.toString(), 'mock')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(identities[0].deleteOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { Model, Types } from 'mongoose';
+import { RedisClientType } from 'redis';
+import {
+  UserIdentity,
+  UserIdentityDocument,
+} from '../entities/users/user-identity.entity';
+import { Gender, UserDocument } from '../entities/users/users.entity';
+import { UsersService } from '../users/users.service';
+import { LoginDTOResponse } from '../DTO/login-dto';
+import { TwoFactorChallengeDTOResponse } from '../DTO/two-factor-dto';
+import { OidcAuthorizationDTOResponse } from '../DTO/oidc-dto';
+import { AuthService } from './auth.service';
+import { OidcClaims, OidcProvider } from './oidc-provider';
+import { ClientInfo } from './session.service';
+
+interface OidcState {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  // Set when the flow links a provider to a logged in user
+  linkUserId?: string;
+}
+
+/**
+ * Social login through OpenID Connect providers. Providers are listed in
+ * OIDC_PROVIDERS and each one is configured with OIDC_<NAME>_ISSUER,
+ * OIDC_<NAME>_CLIENT_ID, OIDC_<NAME>_CLIENT_SECRET and optionally
+ * OIDC_<NAME>_REDIRECT_URI and OIDC_<NAME>_SCOPES. Any issuer that serves a
+ * discovery document works, including a local mock provider over plain http.
+ */
+@Injectable()
+export class OidcService {
+  private readonly providers = new Map<string, OidcProvider>();
+  private readonly stateTtl: number;
+
+  constructor(
+    @InjectModel(UserIdentity.name)
+    private identityModel: Model<UserIdentityDocument>,
+    @Inject('REDIS_CLIENT') private readonly redisClient: RedisClientType,
+    private usersService: UsersService,
+    private authService: AuthService,
+    private configService: ConfigService,
+  ) {
+    this.stateTtl = Number(this.configService.get('OIDC_STATE_TTL', 10 * 60));
+
+    const appUrl = this.configService.get<string>(
+      'APP_URL',
+      'http://localhost:3000',
+    );
+    const names = this.configService.get<string>('OIDC_PROVIDERS', '');
+    for (const name of names.split(',').map((n) => n.trim().toLowerCase())) {
+      if (!name) {
+        continue;
+      }
+      const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+      const issuer = this.configService.get<string>(`${prefix}ISSUER`);
+      const clientId = this.configService.get<string>(`${prefix}CLIENT_ID`);
+      if (!issuer || !clientId) {
+        throw new Error(`${prefix}ISSUER and ${prefix}CLIENT_ID must be set`);
+      }
+      this.providers.set(
+        name,
+        new OidcProvider({
+          name,
+          issuer,
+          clientId,
+          clientSecret: this.configService.get<string>(
+            `${prefix}CLIENT_SECRET`,
+          ),
+          redirectUri: this.configService.get<string>(
+            `${prefix}REDIRECT_URI`,
+            `${appUrl}/oidc/${name}/callback`,
+          ),
+          scopes: this.configService.get<string>(
+            `${prefix}SCOPES`,
+            'openid email profile',
+          ),
+        }),
+      );
+    }
+  }
+
+  listProviders(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  async authorize(
+    providerName: string,
+    linkUserId?: string,
+  ): Promise<OidcAuthorizationDTOResponse> {
+    const provider = this.getProvider(providerName);
+
+    const stateId = randomBytes(32).toString('base64url');
+    const state: OidcState = {
+      provider: provider.name,
+      codeVerifier: randomBytes(32).toString('base64url'),
+      nonce: randomBytes(16).toString('base64url'),
+      linkUserId,
+    };
+    await this.redisClient.set(this.stateKey(stateId), JSON.stringify(state), {
+      EX: this.stateTtl,
+    });
+
+    return {
+      authorizationUrl: await provider.authorizationUrl({
+        state: stateId,
+        nonce: state.nonce,
+        codeChallenge: createHash('sha256')
+          .update(state.codeVerifier)
+          .digest('base64url'),
+      }),
+    };
+  }
+
+  /**
+   * Logs in with the provider account, linking it to the user with the same
+   * verified email or creating a new user the first time it is seen.
+   */
+  async login(
+    providerName: string,
+    code: string,
+    state: string,
+    client: ClientInfo,
+  ): Promise<LoginDTOResponse | TwoFactorChallengeDTOResponse> {
+    const provider = this.getProvider(providerName);
+    const claims = await this.completeAuthorization(provider, code, state);
+
+    let user = await this.findLinkedUser(provider.name, claims.sub);
+    if (!user) {
+      user = await this.findOrCreateUser(claims);
+      await this.identityModel.create({
+        user: user._id,
+        provider: provider.name,
+        subject: claims.sub,
+        email: claims.email,
+      });
+    }
+
+    return this.authService.startLogin(user, client);
+  }
+
+  async link(
+    userId: string,
+    providerName: string,
+    code: string,
+    state: string,
+  ): Promise<UserIdentity> {
+    const provider = this.getProvider(providerName);
+    const claims = await this.completeAuthorization(
+      provider,
+      code,
+      state,
+      userId,
+    );
+
+    const existing = await this.identityModel.findOne({
+      provider: provider.name,
+      subject: claims.sub,
+    });
+    if (existing) {
+      if (existing.user.equals(userId)) {
+        return existing;
+      }
+      throw new ConflictException(
+        'This account is already linked to another user',
+      );
+    }
+    if (
+      await this.identityModel.exists({ user: userId, provider: provider.name })
+    ) {
+      throw new ConflictException(
+        `Another ${provider.name} account is already linked`,
+      );
+    }
+
+    return this.identityModel.create({
+      user: new Types.ObjectId(userId),
+      provider: provider.name,
+      subject: claims.sub,
+      email: claims.email,
+    });
+  }
+
+  async listIdentities(userId: string): Promise<UserIdentity[]> {
+    return this.identityModel.find({ user: userId }).sort({ createdAt: 1 });
+  }
+
+  async unlink(userId: string, providerName: string): Promise<void> {
+    const identity = await this.identityModel.findOne({
+      user: userId,
+      provider: providerName,
+    });
+    if (!identity) {
+      throw new NotFoundException('Provider not linked');
+    }
+
+    const user = await this.usersService.findByIdWithSecrets(userId);
+    const otherIdentities = await this.identityModel.countDocuments({
+      user: userId,
+      provider: { $ne: providerName },
+    });
+    if (!user.password && otherIdentities === 0) {
+      throw new BadRequestException(
+        'Set a password before unlinking your only way to log in',
+      );
+    }
+
+    await identity.deleteOne();
+  }
+
+  private getProvider(name: string): OidcProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new NotFoundException('Unknown provider');
+    }
+    return provider;
+  }
+
+  // States are single use and tied to the provider and the linking user
+  private async completeAuthorization(
+    provider: OidcProvider,
+    code: string,
+    stateId: string,
+    linkUserId?: string,
+  ): Promise<OidcClaims> {
+    const raw = await this.redisClient.getDel(this.stateKey(stateId));
+    const state = raw ? (JSON.parse(raw) as OidcState) : null;
+    if (
+      !state ||
+      state.provider !== provider.name ||
+      state.linkUserId !== linkUserId
+    ) {
+      throw new BadRequestException('Invalid or expired state');
+    }
+    return provider.exchangeCode(code, state.codeVerifier, state.nonce);
+  }
+
+  private async findLinkedUser(
+    provider: string,
+    subject: string,
+  ): Promise<UserDocument | null> {
+    const identity = await this.identityModel.findOne({ provider, subject });
+    if (!identity) {
+      return null;
+    }
+    try {
+      return await this.usersService.findById(identity.user.toString());
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+      // The user was deleted; start over as a first login
+      await identity.deleteOne();
+      return null;
+    }
+  }
+
+  private async findOrCreateUser(claims: OidcClaims): Promise<UserDocument> {
+    if (!claims.email) {
+      throw new BadRequestException(
+        'The provider did not share an email address',
+      );
+    }
+
+    const existing = await this.usersService.findOne(claims.email);
+    if (existing) {
+      // Linking on an address nobody proved to own would let whoever
+      // registered it first take over the provider account, or the reverse
+      if (!claims.email_verified || !existing.emailVerified) {
+        throw new ConflictException(
+          'An account with this email already exists; log in to it and link the provider',
+        );
+      }
+      return existing;
+    }
+
+    const [firstName, ...otherNames] = (claims.name ?? '').split(' ');
+    const username = await this.uniqueUsername(claims);
+    return this.usersService.createWithoutPassword({
+      name: claims.given_name || firstName || username,
+      surname: claims.family_name || otherNames.join(' ') || '-',
+      gender: Gender.Other,
+      email: claims.email,
+      username,
+      emailVerified: claims.email_verified === true,
+      emailVerifiedAt: claims.email_verified ? new Date() : undefined,
+    });
+  }
+
+  private async uniqueUsername(claims: OidcClaims): Promise<string> {
+    const base =
+      (claims.preferred_username ?? claims.email?.split('@')[0] ?? '')
+        .toLowerCase()
+        .replace(/[^a-z0-9._-]/g, '')
+        .slice(0, 20) || 'user';
+
+    let candidate = base;
+    while (await this.usersService.existsByUsername(candidate)) {
+      candidate = `${base}${randomBytes(3).readUIntBE(0, 3) % 100000}`;
+    }
+    return candidate;
+  }
+
+  private stateKey(stateId: string): string {
+    return `auth:oidc-state:${stateId}`;
+  }
+}
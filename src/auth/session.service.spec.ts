@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SessionService } from './session.service';
+
+// Just enough of the Redis client for session hashes and the per-user sets
+const createRedisFake = () => {
+  const hashes = new Map<string, Record<string, string>>();
+  const sets = new Map<string, Set<string>>();
+
+  const commands = {
+    hSet: (key: string, fields: Record<string, string>) => {
+      hashes.set(key, { ...(hashes.get(key) ?? {}), ...fields });
+      return Promise.resolve(1);
+    },
+    hGet: (key: string, field: string) =>
+      Promise.resolve(hashes.get(key)?.[field]),
+    hmGet: (key: string, fields: string[]) =>
+      Promise.resolve(fields.map((f) => hashes.get(key)?.[f] ?? null)),
+    hGetAll: (key: string) => Promise.resolve({ ...(hashes.get(key) ?? {}) }),
+    expire: () => Promise.resolve(true),
+    sAdd: (key: string, member: string) => {
+      sets.set(key, (sets.get(key) ?? new Set()).add(member));
+      return Promise.resolve(1);
+    },
+    sMembers: (key: string) => Promise.resolve([...(sets.get(key) ?? [])]),
+    sRem: (key: string, members: string | string[]) => {
+      [members].flat().forEach((m) => sets.get(key)?.delete(m));
+      return Promise.resolve(1);
+    },
+    del: (keys: string | string[]) => {
+      [keys].flat().forEach((k) => hashes.delete(k) || sets.delete(k));
+      return Promise.resolve(1);
+    },
+  };
+
+  const multi = () => {
+    const queued: (() => Promise<unknown>)[] = [];
+    const chain = new Proxy(
+      {},
+      {
+        get: (_target, name: string) =>
+          name === 'exec'
+            ? () => Promise.all(queued.map((run) => run()))
+            : (...args: unknown[]) => {
+                queued.push(() =>
+                  (commands[name] as (...a: unknown[]) => Promise<unknown>)(
+                    ...args,
+                  ),
+                );
+                return chain;
+              },
+      },
+    );
+    return chain;
+  };
+
+  return { ...commands, multi, hashes };
+};
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let redis: ReturnType<typeof createRedisFake>;
+
+  const client = { ip: '10.0.0.1', userAgent: 'Mozilla/5.0 (iPhone)' };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2025-05-07T12:00:00Z') });
+    redis = createRedisFake();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: 'REDIS_CLIENT', useValue: redis },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: number) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should list sessions with their device and mark the current one', async () => {
+    await service.create('s1', 'u1', 'hash', client);
+    jest.advanceTimersByTime(1000);
+    await service.create('s2', 'u1', 'hash', { ip: '10.0.0.2' });
+
+    const sessions = await service.list('u1', 's1');
+
+    expect(sessions.map((s) => [s.id, s.current])).toEqual([
+      ['s2', false],
+      ['s1', true],
+    ]);
+    expect(sessions[1]).toMatchObject({
+      userAgent: client.userAgent,
+      ip: client.ip,
+      createdAt: '2025-05-07T12:00:00.000Z',
+    });
+  });
+
+  it('should drop expired sessions from the listing', async () => {
+    await service.create('s1', 'u1', 'hash', client);
+    redis.hashes.delete('auth:session:s1');
+
+    await expect(service.list('u1')).resolves.toEqual([]);
+  });
+
+  it('should update last seen at most once a minute', async () => {
+    await service.create('s1', 'u1', 'hash', client);
+
+    jest.advanceTimersByTime(30 * 1000);
+    await expect(service.touch('s1', '10.0.0.9')).resolves.toBe(true);
+    expect(redis.hashes.get('auth:session:s1')?.lastSeenAt).toBe(
+      '2025-05-07T12:00:00.000Z',
+    );
+
+    jest.advanceTimersByTime(30 * 1000);
+    await service.touch('s1', '10.0.0.9');
+    expect(redis.hashes.get('auth:session:s1')).toMatchObject({
+      lastSeenAt: '2025-05-07T12:01:00.000Z',
+      ip: '10.0.0.9',
+    });
+  });
+
+  it('should report revoked sessions as inactive', async () => {
+    await service.create('s1', 'u1', 'hash', client);
+    await service.revokeForUser('u1', 's1');
+
+    await expect(service.touch('s1')).resolves.toBe(false);
+    await expect(service.touch(undefined)).resolves.toBe(false);
+  });
+
+  it("should not revoke another user's session", async () => {
+    await service.create('s1', 'u1', 'hash', client);
+
+    await expect(service.revokeForUser('u2', 's1')).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(service.touch('s1')).resolves.toBe(true);
+  });
+});
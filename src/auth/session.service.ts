@@ -0,0 +1,207 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisClientType } from 'redis';
+
+export enum RotationResult {
+  Rotated = 'rotated',
+  Reused = 'reused',
+  Unknown = 'unknown',
+}
+
+export interface ClientInfo {
+  ip: string;
+  userAgent?: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// lastSeenAt is written at most this often per session, not on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Swaps the refresh token hash only if the caller presented the current one,
+// so two concurrent refreshes with the same token cannot both succeed.
+const ROTATE_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], 'refreshTokenHash')
+if not current then return -1 end
+if current ~= ARGV[1] then return 0 end
+redis.call('HSET', KEYS[1], 'refreshTokenHash', ARGV[2])
+redis.call('EXPIRE', KEYS[1], ARGV[3])
+return 1
+`;
+
+@Injectable()
+export class SessionService {
+  readonly ttlSeconds: number;
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redisClient: RedisClientType,
+    private configService: ConfigService,
+  ) {
+    this.ttlSeconds = Number(
+      this.configService.get('JWT_REFRESH_TTL', 60 * 60 * 24 * 30),
+    );
+  }
+
+  async create(
+    sessionId: string,
+    userId: string,
+    refreshTokenHash: string,
+    client: ClientInfo,
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await this.redisClient
+      .multi()
+      .hSet(this.sessionKey(sessionId), {
+        userId,
+        refreshTokenHash,
+        userAgent: client.userAgent ?? '',
+        ip: client.ip ?? '',
+        createdAt: now,
+        lastSeenAt: now,
+      })
+      .expire(this.sessionKey(sessionId), this.ttlSeconds)
+      .sAdd(this.userSessionsKey(userId), sessionId)
+      .exec();
+  }
+
+  async getUserId(sessionId: string): Promise<string | null> {
+    const userId = await this.redisClient.hGet(
+      this.sessionKey(sessionId),
+      'userId',
+    );
+    return userId ?? null;
+  }
+
+  async rotate(
+    sessionId: string,
+    presentedHash: string,
+    nextHash: string,
+  ): Promise<RotationResult> {
+    const result = await this.redisClient.eval(ROTATE_SCRIPT, {
+      keys: [this.sessionKey(sessionId)],
+      arguments: [presentedHash, nextHash, String(this.ttlSeconds)],
+    });
+    if (result === 1) {
+      return RotationResult.Rotated;
+    }
+    return result === 0 ? RotationResult.Reused : RotationResult.Unknown;
+  }
+
+  async isActive(sessionId: string | undefined): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+    return (await this.redisClient.exists(this.sessionKey(sessionId))) === 1;
+  }
+
+  /**
+   * Checks that the session is still active and records it as seen.
+   */
+  async touch(sessionId: string | undefined, ip?: string): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+    const key = this.sessionKey(sessionId);
+    const [userId, lastSeenAt] = await this.redisClient.hmGet(key, [
+      'userId',
+      'lastSeenAt',
+    ]);
+    if (!userId) {
+      return false;
+    }
+
+    const now = Date.now();
+    if (
+      !lastSeenAt ||
+      now - Date.parse(lastSeenAt) >= LAST_SEEN_RESOLUTION_MS
+    ) {
+      await this.redisClient.hSet(key, {
+        lastSeenAt: new Date(now).toISOString(),
+        ...(ip && { ip }),
+      });
+    }
+    return true;
+  }
+
+  async list(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionInfo[]> {
+    const sessionIds = await this.redisClient.sMembers(
+      this.userSessionsKey(userId),
+    );
+    const records = await Promise.all(
+      sessionIds.map((id) => this.redisClient.hGetAll(this.sessionKey(id))),
+    );
+
+    const sessions: SessionInfo[] = [];
+    const expired: string[] = [];
+    records.forEach((record, i) => {
+      if (!record.userId) {
+        expired.push(sessionIds[i]);
+        return;
+      }
+      sessions.push({
+        id: sessionIds[i],
+        userAgent: record.userAgent ?? '',
+        ip: record.ip ?? '',
+        createdAt: record.createdAt,
+        lastSeenAt: record.lastSeenAt ?? record.createdAt,
+        current: sessionIds[i] === currentSessionId,
+      });
+    });
+
+    // Sessions that expired on their own are still listed in the user's set
+    if (expired.length) {
+      await this.redisClient.sRem(this.userSessionsKey(userId), expired);
+    }
+    return sessions.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+  }
+
+  /**
+   * Revokes one of the user's sessions. Other users' sessions look missing.
+   */
+  async revokeForUser(userId: string, sessionId: string): Promise<void> {
+    if ((await this.getUserId(sessionId)) !== userId) {
+      throw new NotFoundException('Session not found');
+    }
+    await this.revoke(sessionId);
+  }
+
+  async revoke(sessionId: string): Promise<void> {
+    const userId = await this.getUserId(sessionId);
+    const multi = this.redisClient.multi().del(this.sessionKey(sessionId));
+    if (userId) {
+      multi.sRem(this.userSessionsKey(userId), sessionId);
+    }
+    await multi.exec();
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    const sessionIds = await this.redisClient.sMembers(
+      this.userSessionsKey(userId),
+    );
+    await this.redisClient
+      .multi()
+      .del([
+        ...sessionIds.map((id) => this.sessionKey(id)),
+        this.userSessionsKey(userId),
+      ])
+      .exec();
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `auth:session:${sessionId}`;
+  }
+
+  private userSessionsKey(userId: string): string {
+    return `auth:user-sessions:${userId}`;
+  }
+}
@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Types } from 'mongoose';
+import { TokenService } from './token.service';
+import { RotationResult, SessionService } from './session.service';
+import { UsersService } from '../users/users.service';
+import { Role } from '../entities/users/users.entity';
+
+describe('TokenService', () => {
+  let service: TokenService;
+
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'john.doe@example.com',
+    role: Role.User,
+  };
+
+  const client = { ip: '127.0.0.1', userAgent: 'jest' };
+
+  const mockSessionService = {
+    create: jest.fn(),
+    touch: jest.fn(),
+    getUserId: jest.fn(),
+    rotate: jest.fn(),
+    revoke: jest.fn(),
+  };
+
+  const mockJwtService = {
+    signAsync: jest.fn().mockResolvedValue('access-token'),
+  };
+
+  const mockUsersService = {
+    findById: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenService,
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: UsersService, useValue: mockUsersService },
+      ],
+    }).compile();
+
+    service = module.get<TokenService>(TokenService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('issue', () => {
+    it('should open a session and embed its id in both tokens', async () => {
+      const tokens = await service.issue(user, client);
+
+      const [sessionId] = tokens.refreshToken.split('.');
+      expect(mockSessionService.create).toHaveBeenCalledWith(
+        sessionId,
+        user._id.toString(),
+        expect.not.stringContaining(tokens.refreshToken),
+        client,
+      );
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: user._id.toString(), sid: sessionId }),
+      );
+    });
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token', async () => {
+      mockSessionService.getUserId.mockResolvedValue(user._id.toString());
+      mockSessionService.rotate.mockResolvedValue(RotationResult.Rotated);
+      mockUsersService.findById.mockResolvedValue(user);
+
+      const tokens = await service.refresh('session-id.secret', client);
+
+      expect(tokens.accessToken).toBe('access-token');
+      expect(tokens.refreshToken).toMatch(/^session-id\./);
+      expect(tokens.refreshToken).not.toBe('session-id.secret');
+      expect(mockSessionService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole session when a rotated token is reused', async () => {
+      mockSessionService.getUserId.mockResolvedValue(user._id.toString());
+      mockSessionService.rotate.mockResolvedValue(RotationResult.Reused);
+
+      await expect(
+        service.refresh('session-id.old-secret', client),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockSessionService.revoke).toHaveBeenCalledWith('session-id');
+    });
+
+    it('should reject tokens of revoked sessions', async () => {
+      mockSessionService.getUserId.mockResolvedValue(null);
+
+      await expect(
+        service.refresh('session-id.secret', client),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockSessionService.rotate).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed tokens', async () => {
+      await expect(service.refresh('garbage', client)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { Role, User } from '../entities/users/users.entity';
+import { UsersService } from '../users/users.service';
+import { ClientInfo, RotationResult, SessionService } from './session.service';
+
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  role: Role;
+  sid: string;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+@Injectable()
+export class TokenService {
+  private readonly logger = new Logger(TokenService.name);
+
+  constructor(
+    private jwtService: JwtService,
+    private sessionService: SessionService,
+    private usersService: UsersService,
+  ) {}
+
+  /**
+   * Starts a new session (refresh token family) for the user.
+   */
+  async issue(
+    user: Pick<User, '_id' | 'email' | 'role'>,
+    client: ClientInfo,
+  ): Promise<TokenPair> {
+    const sessionId = randomUUID();
+    const refreshToken = this.generateRefreshToken(sessionId);
+    await this.sessionService.create(
+      sessionId,
+      user._id.toString(),
+      this.hashToken(refreshToken),
+      client,
+    );
+    return {
+      accessToken: await this.signAccessToken(user, sessionId),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for a new pair. Presenting a token that was
+   * already rotated means it leaked, so the whole family is revoked.
+   */
+  async refresh(refreshToken: string, client: ClientInfo): Promise<TokenPair> {
+    const sessionId = this.parseSessionId(refreshToken);
+    const userId = sessionId
+      ? await this.sessionService.getUserId(sessionId)
+      : null;
+    if (!sessionId || !userId) {
+      throw new UnauthorizedException();
+    }
+
+    const nextRefreshToken = this.generateRefreshToken(sessionId);
+    const result = await this.sessionService.rotate(
+      sessionId,
+      this.hashToken(refreshToken),
+      this.hashToken(nextRefreshToken),
+    );
+
+    if (result === RotationResult.Reused) {
+      this.logger.warn(
+        `Refresh token reuse detected, revoking session ${sessionId}`,
+      );
+      await this.sessionService.revoke(sessionId);
+      throw new UnauthorizedException();
+    }
+    if (result !== RotationResult.Rotated) {
+      throw new UnauthorizedException();
+    }
+    await this.sessionService.touch(sessionId, client.ip);
+
+    let user: User;
+    try {
+      user = await this.usersService.findById(userId);
+    } catch {
+      await this.sessionService.revoke(sessionId);
+      throw new UnauthorizedException();
+    }
+
+    return {
+      accessToken: await this.signAccessToken(user, sessionId),
+      refreshToken: nextRefreshToken,
+    };
+  }
+
+  async revoke(sessionId: string): Promise<void> {
+    await this.sessionService.revoke(sessionId);
+  }
+
+  private async signAccessToken(
+    user: Pick<User, '_id' | 'email' | 'role'>,
+    sessionId: string,
+  ): Promise<string> {
+    const payload: AccessTokenPayload = {
+      sub: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    };
+    return this.jwtService.signAsync(payload);
+  }
+
+  private generateRefreshToken(sessionId: string): string {
+    return `${sessionId}.${randomBytes(32).toString('base64url')}`;
+  }
+
+  private parseSessionId(refreshToken: string): string | null {
+    const [sessionId, secret] = (refreshToken ?? '').split('.');
+    return sessionId && secret ? sessionId : null;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,18 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class TooManyAttemptsException extends HttpException {
+  constructor(
+    readonly retryAfterSeconds: number,
+    message = 'Too many failed login attempts',
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message,
+        retryAfter: retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Response } from 'express';
+import { TooManyAttemptsException } from './too-many-attempts.exception';
+
+/**
+ * Adds the Retry-After header that HttpException alone cannot set.
+ */
+@Catch(TooManyAttemptsException)
+export class TooManyAttemptsFilter implements ExceptionFilter {
+  catch(exception: TooManyAttemptsException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+    response
+      .status(exception.getStatus())
+      .setHeader('Retry-After', String(exception.retryAfterSeconds))
+      .json(exception.getResponse());
+  }
+}
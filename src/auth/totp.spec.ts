@@ -0,0 +1,48 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  generateTotpSecret,
+  otpauthUri,
+  timeStep,
+  verifyTotp,
+} from './totp';
+
+describe('totp', () => {
+  // RFC 6238 appendix B, SHA1 seed
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+  it('should round-trip base32', () => {
+    const bytes = Buffer.from('hello two factor');
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(generateTotp(rfcSecret, timeStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(rfcSecret, timeStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(rfcSecret, timeStep(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('should accept one step of clock drift', () => {
+    const secret = generateTotpSecret();
+    const now = 1_700_000_000_000;
+    const previous = generateTotp(secret, timeStep(now) - 1);
+
+    expect(verifyTotp(secret, previous, now)).toBe(timeStep(now) - 1);
+    expect(verifyTotp(secret, previous, now + 60_000)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    const secret = generateTotpSecret();
+    expect(verifyTotp(secret, '12345')).toBeNull();
+    expect(verifyTotp(secret, 'abcdef')).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = otpauthUri('HomeServices', 'ale@ale.com', 'ABC');
+    expect(uri).toBe(
+      'otpauth://totp/HomeServices%3Aale%40ale.com?secret=ABC&issuer=HomeServices&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseFilters,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  TwoFactorCodeDTO,
+  TwoFactorDisableDTO,
+  TwoFactorVerifyDTO,
+} from '../DTO/two-factor-dto';
+import { AuthService } from './auth.service';
+import { Public } from './decorators/public.decorators';
+import { TooManyAttemptsFilter } from './too-many-attempts.filter';
+import { TwoFactorService } from './two-factor.service';
+import { Client } from './decorators/client.decorator';
+import { ClientInfo } from './session.service';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AuthenticatedUser } from '../policies/policy';
+
+@ApiTags('auth')
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
+
+  @Post('enroll')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Generate a TOTP secret to scan in an authenticator app',
+  })
+  @ApiResponse({ status: 201, description: 'Secret and otpauth URI.' })
+  @ApiResponse({
+    status: 409,
+    description: 'Two-factor authentication already enabled.',
+  })
+  enroll(@CurrentUser() user: AuthenticatedUser) {
+    return this.twoFactorService.enroll(user.sub);
+  }
+
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Enable two-factor authentication with a first code',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Enabled; recovery codes are shown only once.',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code or no enrollment in progress.',
+  })
+  confirm(
+    @Body(new ValidationPipe({ whitelist: true })) codeDto: TwoFactorCodeDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.twoFactorService.confirm(user.sub, codeDto.code);
+  }
+
+  @Post('verify')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @UseFilters(TooManyAttemptsFilter)
+  @ApiOperation({
+    summary: 'Complete a login with the challenge token and a code',
+  })
+  @ApiResponse({ status: 200, description: 'User successfully logged in.' })
+  @ApiResponse({ status: 401, description: 'Invalid code.' })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts, see Retry-After.',
+  })
+  verify(
+    @Body(new ValidationPipe({ whitelist: true }))
+    verifyDto: TwoFactorVerifyDTO,
+    @Client() client: ClientInfo,
+  ) {
+    return this.authService.verifyTwoFactor(
+      verifyDto.challengeToken,
+      verifyDto.code,
+      client,
+    );
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @UseFilters(TooManyAttemptsFilter)
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  @ApiResponse({ status: 204, description: 'Disabled.' })
+  @ApiResponse({ status: 401, description: 'Wrong password or code.' })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts, see Retry-After.',
+  })
+  disable(
+    @Body(new ValidationPipe({ whitelist: true }))
+    disableDto: TwoFactorDisableDTO,
+    @Client() client: ClientInfo,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.twoFactorService.disable(
+      user.sub,
+      disableDto.password,
+      disableDto.code,
+      client,
+    );
+  }
+}
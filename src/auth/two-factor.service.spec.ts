@@ -0,0 +1,233 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { TwoFactorService } from './two-factor.service';
+import { UsersService } from '../users/users.service';
+import { HashingService } from '../hashing/hashing.service';
+import { UserDocument } from '../entities/users/users.entity';
+import { generateTotp, generateTotpSecret, timeStep } from './totp';
+import { LoginThrottleService } from './login-throttle.service';
+import { TooManyAttemptsException } from './too-many-attempts.exception';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  const usedKeys = new Set<string>();
+  const mockRedisClient = {
+    set: jest.fn((key: string) => {
+      if (usedKeys.has(key)) {
+        return Promise.resolve(null);
+      }
+      usedKeys.add(key);
+      return Promise.resolve('OK');
+    }),
+  };
+
+  const mockUsersService = {
+    findById: jest.fn(),
+    findByIdWithSecrets: jest.fn(),
+    setPendingTwoFactorSecret: jest.fn(),
+    enableTwoFactor: jest.fn(),
+    disableTwoFactor: jest.fn(),
+    consumeRecoveryCode: jest.fn(),
+  };
+
+  const mockHashingService = {
+    verify: jest.fn(),
+  };
+
+  const mockLoginThrottleService = {
+    assertCanAttempt: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+
+  const client = { ip: '127.0.0.1', userAgent: 'jest' };
+
+  const userId = new Types.ObjectId();
+  const secret = generateTotpSecret();
+  const enabledUser = {
+    _id: userId,
+    email: 'ale@ale.com',
+    password: '$2b$hash',
+    twoFactorEnabled: true,
+    twoFactorSecret: secret,
+  } as unknown as UserDocument;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    usedKeys.clear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: HashingService, useValue: mockHashingService },
+        { provide: 'REDIS_CLIENT', useValue: mockRedisClient },
+        { provide: LoginThrottleService, useValue: mockLoginThrottleService },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: string) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('enroll', () => {
+    it('should store a pending secret and return an otpauth URI', async () => {
+      mockUsersService.findById.mockResolvedValue({
+        email: 'ale@ale.com',
+        twoFactorEnabled: false,
+      });
+
+      const result = await service.enroll(userId.toString());
+
+      expect(mockUsersService.setPendingTwoFactorSecret).toHaveBeenCalledWith(
+        userId.toString(),
+        result.secret,
+      );
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+    });
+
+    it('should refuse when already enabled', async () => {
+      mockUsersService.findById.mockResolvedValue(enabledUser);
+
+      await expect(service.enroll(userId.toString())).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('confirm', () => {
+    it('should enable 2FA and return hashed-at-rest recovery codes', async () => {
+      mockUsersService.findByIdWithSecrets.mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorPendingSecret: secret,
+      });
+
+      const { recoveryCodes } = await service.confirm(
+        userId.toString(),
+        generateTotp(secret, timeStep()),
+      );
+
+      expect(recoveryCodes).toHaveLength(10);
+      const [, storedSecret, storedCodes] =
+        mockUsersService.enableTwoFactor.mock.calls[0];
+      expect(storedSecret).toBe(secret);
+      expect(storedCodes).toHaveLength(10);
+      expect(storedCodes).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should reject a wrong code', async () => {
+      mockUsersService.findByIdWithSecrets.mockResolvedValue({
+        twoFactorEnabled: false,
+        twoFactorPendingSecret: secret,
+      });
+
+      await expect(
+        service.confirm(userId.toString(), 'abcdef'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockUsersService.enableTwoFactor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept a TOTP code only once', async () => {
+      const code = generateTotp(secret, timeStep());
+
+      await expect(service.verifyCode(enabledUser, code)).resolves.toBe(true);
+      await expect(service.verifyCode(enabledUser, code)).resolves.toBe(false);
+    });
+
+    it('should fall back to recovery codes', async () => {
+      mockUsersService.consumeRecoveryCode.mockResolvedValue(true);
+
+      await expect(
+        service.verifyCode(enabledUser, 'abcde-12345'),
+      ).resolves.toBe(true);
+      expect(mockUsersService.consumeRecoveryCode).toHaveBeenCalledWith(
+        userId.toString(),
+        expect.stringMatching(/^[0-9a-f]{64}$/),
+      );
+    });
+  });
+
+  describe('disable', () => {
+    it('should require the password', async () => {
+      mockUsersService.findByIdWithSecrets.mockResolvedValue(enabledUser);
+      mockHashingService.verify.mockResolvedValue(false);
+
+      await expect(
+        service.disable(
+          userId.toString(),
+          'wrong',
+          generateTotp(secret, timeStep()),
+          client,
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockUsersService.disableTwoFactor).not.toHaveBeenCalled();
+      expect(mockLoginThrottleService.recordFailure).toHaveBeenCalledWith(
+        'ale@ale.com',
+        '127.0.0.1',
+      );
+    });
+
+    it('should stop guessing once the account is locked', async () => {
+      mockUsersService.findByIdWithSecrets.mockResolvedValue(enabledUser);
+      mockLoginThrottleService.assertCanAttempt.mockRejectedValueOnce(
+        new TooManyAttemptsException(60),
+      );
+
+      await expect(
+        service.disable(userId.toString(), 'password123', '000000', client),
+      ).rejects.toThrow(TooManyAttemptsException);
+      expect(mockHashingService.verify).not.toHaveBeenCalled();
+    });
+
+    it('should take a code alone from accounts without a password', async () => {
+      mockUsersService.findByIdWithSecrets.mockResolvedValue({
+        ...enabledUser,
+        password: undefined,
+      });
+
+      await service.disable(
+        userId.toString(),
+        undefined,
+        generateTotp(secret, timeStep()),
+        client,
+      );
+
+      expect(mockHashingService.verify).not.toHaveBeenCalled();
+      expect(mockUsersService.disableTwoFactor).toHaveBeenCalledWith(
+        userId.toString(),
+      );
+    });
+
+    it('should disable with password and code', async () => {
+      mockUsersService.findByIdWithSecrets.mockResolvedValue(enabledUser);
+      mockHashingService.verify.mockResolvedValue(true);
+
+      await service.disable(
+        userId.toString(),
+        'password123',
+        generateTotp(secret, timeStep()),
+        client,
+      );
+
+      expect(mockUsersService.disableTwoFactor).toHaveBeenCalledWith(
+        userId.toString(),
+      );
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { RedisClientType } from 'redis';
+import { UserDocument } from '../entities/users/users.entity';
+import { HashingService } from '../hashing/hashing.service';
+import { UsersService } from '../users/users.service';
+import { generateTotpSecret, otpauthUri, verifyTotp } from './totp';
+import { LoginThrottleService } from './login-throttle.service';
+import { ClientInfo } from './session.service';
+
+const RECOVERY_CODE_COUNT = 10;
+
+@Injectable()
+export class TwoFactorService {
+  private readonly issuer: string;
+
+  constructor(
+    private usersService: UsersService,
+    private hashingService: HashingService,
+    private configService: ConfigService,
+    @Inject('REDIS_CLIENT') private readonly redisClient: RedisClientType,
+    private loginThrottleService: LoginThrottleService,
+  ) {
+    this.issuer = this.configService.get<string>(
+      'TWO_FACTOR_ISSUER',
+      'HomeServices',
+    );
+  }
+
+  /**
+   * Generates a new secret. It only takes effect once confirmed with a code.
+   */
+  async enroll(
+    userId: string,
+  ): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await this.usersService.findById(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.usersService.setPendingTwoFactorSecret(userId, secret);
+    return { secret, otpauthUri: otpauthUri(this.issuer, user.email, secret) };
+  }
+
+  async confirm(
+    userId: string,
+    code: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.usersService.findByIdWithSecrets(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new BadRequestException('Start the enrollment first');
+    }
+    if (verifyTotp(user.twoFactorPendingSecret, code) === null) {
+      throw new BadRequestException('Invalid code');
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      this.generateRecoveryCode(),
+    );
+    await this.usersService.enableTwoFactor(
+      userId,
+      user.twoFactorPendingSecret,
+      recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+    );
+    return { recoveryCodes };
+  }
+
+  /**
+   * Accepts a TOTP code or one of the recovery codes. `user` must have been
+   * loaded with its secrets. Each TOTP code works once and each recovery code
+   * is deleted when used.
+   */
+  async verifyCode(user: UserDocument, code: string): Promise<boolean> {
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step !== null) {
+      const fresh = await this.redisClient.set(
+        `auth:totp-used:${user._id.toString()}:${step}`,
+        '1',
+        { NX: true, EX: 120 },
+      );
+      return fresh !== null;
+    }
+
+    return this.usersService.consumeRecoveryCode(
+      user._id.toString(),
+      this.hashRecoveryCode(code),
+    );
+  }
+
+  /**
+   * Takes the password and a code, or only a code for accounts without a
+   * password, like those created through an identity provider. Failures
+   * count towards the same lockouts as logins.
+   */
+  async disable(
+    userId: string,
+    password: string | undefined,
+    code: string,
+    client: ClientInfo,
+  ): Promise<void> {
+    const user = await this.usersService.findByIdWithSecrets(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    await this.loginThrottleService.assertCanAttempt(user.email, client.ip);
+    const passwordOk =
+      !user.password ||
+      (await this.hashingService.verify(password ?? '', user.password));
+    if (!passwordOk || !(await this.verifyCode(user, code))) {
+      await this.loginThrottleService.recordFailure(user.email, client.ip);
+      throw new UnauthorizedException('Invalid credentials');
+    }
+    await this.loginThrottleService.recordSuccess(user.email);
+    await this.usersService.disableTwoFactor(userId);
+  }
+
+  private generateRecoveryCode(): string {
+    const hex = randomBytes(5).toString('hex').toUpperCase();
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = (code ?? '').toUpperCase().replace(/[^0-9A-Z]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+}
@@ -1,5 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ChatController } from './chat.controller';
+import { ChatService } from './chat.service';
+import { ChatGateway } from './chat.gateway';
 
 describe('ChatController', () => {
   let controller: ChatController;
@@ -7,6 +9,10 @@ describe('ChatController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ChatController],
+      providers: [
+        { provide: ChatService, useValue: {} },
+        { provide: ChatGateway, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<ChatController>(ChatController);
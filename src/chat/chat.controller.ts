@@ -1,24 +1,44 @@
-import { Controller, Get, Post, Body, Param, Put, Delete, HttpCode, HttpStatus, ParseIntPipe, Logger } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Put, Delete, HttpCode, HttpStatus, ParseIntPipe, Logger, Query, ValidationPipe } from '@nestjs/common';
 import { ChatService } from './chat.service';
 import { User } from 'src/entities/users/users.entity';
-import { ApiBearerAuth, ApiProperty } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiOperation, ApiProperty } from '@nestjs/swagger';
 import { Public } from 'src/auth/decorators/public.decorators';
 import { Message } from 'src/entities/chat/chat.entity';
+import { Scopes } from 'src/auth/decorators/scopes.decorator';
+import { Scope } from 'src/entities/api-keys/api-key.entity';
+import { CheckPolicies } from 'src/policies/check-policies.decorator';
+import { SelfOrAdminPolicy } from 'src/policies/self-or-admin.policy';
+import { MessageSenderPolicy } from './message-sender.policy';
+import { ChatGateway } from './chat.gateway';
+import { PaginationQueryDTO } from 'src/common/pagination/pagination.dto';
 
 @Controller('chat')
 @ApiBearerAuth()
 export class ChatController {
-  constructor(private readonly chatService: ChatService) {}
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
   private readonly logger = new Logger(ChatController.name);
 
   @Get(':userId')
-  async findAllChatsByUser(@Param('userId') userId: string) {
-    return this.chatService.findAllChatsByUser(userId);
+  @Scopes(Scope.ChatRead)
+  @CheckPolicies(SelfOrAdminPolicy)
+  @ApiOperation({ summary: 'The latest message with each user, most recent first' })
+  async findAllChatsByUser(
+    @Param('userId') userId: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) query: PaginationQueryDTO
+  ) {
+    return this.chatService.findAllChatsByUser(userId, query);
   }
 
   @Post()
-  createMsg(@Body() msg: Message) {
-    return this.chatService.create(msg);
+  @Scopes(Scope.ChatWrite)
+  @CheckPolicies(MessageSenderPolicy)
+  async createMsg(@Body() msg: Message) {
+    const message = await this.chatService.create(msg);
+    await this.chatGateway.broadcastMessage(message);
+    return message;
   }
 
   /*@Delete(':id')
@@ -1,18 +1,139 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { Types } from 'mongoose';
+import { Socket } from 'socket.io';
 import { ChatGateway } from './chat.gateway';
+import { ChatService } from './chat.service';
+import { ConversationService } from './conversation.service';
+import { ReceiptService } from './receipt.service';
+import { PresenceService } from './presence.service';
+import { SessionService } from '../auth/session.service';
+import { Message } from '../entities/chat/chat.entity';
 
 describe('ChatGateway', () => {
   let gateway: ChatGateway;
 
+  // Records which rooms each operation of the server targeted
+  const emitted: { rooms: string[]; except?: string; event: string }[] = [];
+  const joined: { rooms: string[]; room: string }[] = [];
+  const recipientSockets: { data: { userId?: string } }[] = [];
+  const io = {
+    to: (rooms: string | string[]) => ({
+      emit: (event: string) =>
+        emitted.push({ rooms: ([] as string[]).concat(rooms), event }),
+      except: (except: string) => ({
+        emit: (event: string) =>
+          emitted.push({
+            rooms: ([] as string[]).concat(rooms),
+            except,
+            event,
+          }),
+      }),
+    }),
+    in: (rooms: string | string[]) => ({
+      socketsJoin: (room: string) =>
+        joined.push({ rooms: ([] as string[]).concat(rooms), room }),
+      fetchSockets: () => Promise.resolve(recipientSockets),
+    }),
+  };
+
+  const mockReceiptService = {
+    unreadUpdate: jest.fn(),
+  };
+
+  const mockPresenceService = {
+    heartbeat: jest.fn(),
+    ttlSeconds: 90,
+  };
+
+  const alice = new Types.ObjectId();
+  const bob = new Types.ObjectId();
+  const message = {
+    _id: new Types.ObjectId(),
+    conversation: new Types.ObjectId(),
+    sender: alice,
+    receiver: bob,
+    message_text: 'Hi Bob',
+    createdAt: new Date(),
+  } as Message;
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    emitted.length = 0;
+    joined.length = 0;
+    recipientSockets.length = 0;
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ChatGateway],
+      providers: [
+        ChatGateway,
+        { provide: ChatService, useValue: {} },
+        { provide: ConversationService, useValue: {} },
+        { provide: ReceiptService, useValue: mockReceiptService },
+        { provide: PresenceService, useValue: mockPresenceService },
+        { provide: JwtService, useValue: {} },
+        { provide: SessionService, useValue: {} },
+      ],
     }).compile();
 
     gateway = module.get<ChatGateway>(ChatGateway);
+    gateway.io = io as unknown as ChatGateway['io'];
   });
 
   it('should be defined', () => {
     expect(gateway).toBeDefined();
   });
+
+  describe('broadcastMessage', () => {
+    it('should reach every device of both users but the sending one', async () => {
+      const room = `conversation:${message.conversation.toString()}`;
+
+      await gateway.broadcastMessage(message, 'alice-phone');
+
+      expect(joined).toEqual([
+        { rooms: [`user:${alice.toString()}`, `user:${bob.toString()}`], room },
+      ]);
+      expect(emitted).toContainEqual({
+        rooms: [room],
+        except: 'alice-phone',
+        event: 'receive',
+      });
+    });
+
+    it('should update unread counts once per recipient, whatever their devices', async () => {
+      recipientSockets.push(
+        { data: { userId: alice.toString() } },
+        { data: { userId: bob.toString() } },
+        { data: { userId: bob.toString() } },
+      );
+      mockReceiptService.unreadUpdate.mockResolvedValue({ unread: 1 });
+
+      await gateway.broadcastMessage(message);
+
+      expect(mockReceiptService.unreadUpdate).toHaveBeenCalledTimes(1);
+      expect(emitted).toContainEqual({
+        rooms: [`user:${bob.toString()}`],
+        event: 'unread',
+      });
+    });
+  });
+
+  describe('before the socket is authenticated', () => {
+    const to = jest.fn();
+    const client = {
+      id: 'socket-1',
+      data: {},
+      rooms: new Set(['conversation:conversation-1']),
+      to,
+    } as unknown as Socket;
+
+    it('should ignore heartbeats', async () => {
+      await expect(gateway.handleHeartbeat(client)).resolves.toBeUndefined();
+      expect(mockPresenceService.heartbeat).not.toHaveBeenCalled();
+    });
+
+    it('should ignore typing', () => {
+      gateway.handleTyping({ conversationId: 'conversation-1' }, client);
+      expect(to).not.toHaveBeenCalled();
+    });
+  });
 });
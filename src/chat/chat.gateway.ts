@@ -11,11 +11,26 @@ import {
   WebSocketServer,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { ChatService } from './chat.service';
+import { ChatService, toMessageView } from './chat.service';
 import { Message } from 'src/entities/chat/chat.entity';
+import { Conversation } from 'src/entities/chat/conversation.entity';
+import { ConversationService } from './conversation.service';
+import { ReceiptService, ReceiptUpdate, UnreadUpdate } from './receipt.service';
+import { Presence, PresenceService } from './presence.service';
 import { JwtService } from '@nestjs/jwt';
-import { Inject } from '@nestjs/common';
 import { createClient } from 'redis';
+import { SessionService } from 'src/auth/session.service';
+import { AccessTokenPayload } from 'src/auth/token.service';
+
+// Every participant's socket is in the room of each of their conversations
+export const conversationRoom = (conversationId: unknown): string =>
+  `conversation:${String(conversationId)}`;
+
+// And in the room of its user, with their other devices
+export const userRoom = (userId: unknown): string => `user:${String(userId)}`;
+
+// A burst of typing events makes one event per conversation this often
+const TYPING_THROTTLE_MS = 3000;
 
 @ApiBearerAuth()
 @WebSocketGateway()
@@ -25,12 +40,13 @@ export class ChatGateway
 {
   private readonly logger = new Logger(ChatGateway.name);
 
-  private clientMap: Map<string, Socket> = new Map();
-
   constructor(
-    @Inject('REDIS_CLIENT') private readonly redisClient,
     private readonly chatService: ChatService,
+    private readonly conversationService: ConversationService,
+    private readonly receiptService: ReceiptService,
+    private readonly presenceService: PresenceService,
     private readonly jwtService: JwtService,
+    private readonly sessionService: SessionService,
   ) {}
 
   @WebSocketServer() io: Server;
@@ -45,14 +61,30 @@ export class ChatGateway
       if (!token) {
         throw new Error('No token provided');
       }
-  
-      const payload = await this.jwtService.verifyAsync(token);
+
+      const payload =
+        await this.jwtService.verifyAsync<AccessTokenPayload>(token);
+      if (
+        !(await this.sessionService.touch(
+          payload.sid,
+          client.handshake.address,
+        ))
+      ) {
+        throw new Error('Session revoked');
+      }
       const userId = payload.sub.toString();
-  
-      await this.redisClient.set(`user:${userId}`, client.id, {
-        EX: 1800, //30 min exp
-      });
-  
+
+      client.data.userId = userId;
+      const conversationIds = await this.conversationService.idsForUser(userId);
+      const rooms = conversationIds.map(conversationRoom);
+      await client.join([userRoom(userId), ...rooms]);
+      if (
+        (await this.presenceService.connect(userId, client.id)) &&
+        rooms.length > 0
+      ) {
+        client.to(rooms).emit('presence', this.presenceOf(userId, true));
+      }
+
       const { sockets } = this.io.sockets;
       this.logger.debug(`Number of connected clients: ${sockets.size}`);
     } catch (error) {
@@ -63,12 +95,15 @@ export class ChatGateway
 
   async handleDisconnect(client: Socket) {
     try {
-      for (const key of await this.redisClient.keys('user:*')) {
-        const socketId = await this.redisClient.get(key);
-        if (socketId === client.id) {
-          await this.redisClient.del(key);
-          this.logger.log(`Removed user id: ${key.split(':')[1]} from Redis`);
-          break;
+      const userId = await this.presenceService.disconnect(client.id);
+      if (userId) {
+        this.logger.log(`User ${userId} went offline`);
+        const conversationIds =
+          await this.conversationService.idsForUser(userId);
+        if (conversationIds.length > 0) {
+          this.io
+            .to(conversationIds.map(conversationRoom))
+            .emit('presence', this.presenceOf(userId, false));
         }
       }
     } catch (error) {
@@ -79,27 +114,221 @@ export class ChatGateway
   @SubscribeMessage('send')
   @ApiOperation({ summary: 'Send a chat message' })
   @ApiBody({ type: () => Object })
-  async handleMessage(@MessageBody() data: Partial<Message>, client: Socket) {
-    const message = await this.chatService.create(data);
-    this.sendMSGtoReceiver(message);
-  }
-
-  private async sendMSGtoReceiver(message: Message) {
-    const receivedMsg = {
-      id: message._id,
-      message: message.message_text,
-      sent_at: message.createdAt,
-      senderId: message.sender,
-      receiverId: message.receiver,
-    };
-  
-    this.logger.log(`Sending message to receiver: ${message.receiver}`);
-  
-    const recipientSocketId = await this.redisClient.get(`user:${receivedMsg.receiverId}`);
-    if (recipientSocketId) {
-      this.io.to(recipientSocketId).emit('receive', receivedMsg); 
-    } else {
-      this.logger.warn(`Recipient with id ${receivedMsg.receiverId} is not online`);
+  async handleMessage(
+    @MessageBody() data: Partial<Message>,
+    @ConnectedSocket() client: Socket,
+  ) {
+    if (!client.data.userId) {
+      return;
+    }
+    // The socket's user is the sender, whatever the payload says
+    const message = await this.chatService.create({
+      ...data,
+      sender: client.data.userId,
+    });
+    // Sending ends typing, so the next keystroke is announced right away
+    this.typingSince(client).delete(conversationRoom(message.conversation));
+    await this.broadcastMessage(message, client.id);
+    return toMessageView(message);
+  }
+
+  /**
+   * Sends the message to the room of its conversation, on every instance,
+   * leaving out only the socket it came from: the sender's other devices get
+   * it too. The first message of a direct conversation also puts both users'
+   * sockets in the new room.
+   */
+  async broadcastMessage(message: Message, exceptSocketId?: string) {
+    const room = conversationRoom(message.conversation);
+    if (message.receiver) {
+      this.joinConversation(message.conversation, [
+        message.sender,
+        message.receiver,
+      ]);
+    }
+
+    this.logger.log(`Sending message to conversation: ${message.conversation}`);
+
+    const target = exceptSocketId
+      ? this.io.to(room).except(exceptSocketId)
+      : this.io.to(room);
+    target.emit('receive', toMessageView(message));
+
+    // The recipients online get their new unread counts, once per user
+    const recipients = new Set<string>();
+    for (const socket of await this.io.in(room).fetchSockets()) {
+      const userId: string | undefined = socket.data.userId;
+      if (userId && userId !== String(message.sender)) {
+        recipients.add(userId);
+      }
+    }
+    for (const userId of recipients) {
+      this.io
+        .to(userRoom(userId))
+        .emit(
+          'unread',
+          await this.receiptService.unreadUpdate(userId, message.conversation),
+        );
+    }
+  }
+
+  @SubscribeMessage('heartbeat')
+  @ApiOperation({
+    summary: 'Stay online; send more often than the returned ttl',
+  })
+  async handleHeartbeat(@ConnectedSocket() client: Socket) {
+    // Events can arrive before handleConnection has authenticated the socket
+    if (!client.data.userId) {
+      return;
+    }
+    await this.presenceService.heartbeat(client.data.userId, client.id);
+    return { ttl: this.presenceService.ttlSeconds };
+  }
+
+  @SubscribeMessage('typing')
+  @ApiOperation({ summary: 'Tell the conversation you are typing' })
+  handleTyping(
+    @MessageBody() data: { conversationId: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    this.typing(client, data?.conversationId, true);
+  }
+
+  @SubscribeMessage('stop_typing')
+  @ApiOperation({ summary: 'Tell the conversation you stopped typing' })
+  handleStopTyping(
+    @MessageBody() data: { conversationId: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    this.typing(client, data?.conversationId, false);
+  }
+
+  /**
+   * Passes typing on to the other participants, who should drop it after a
+   * few seconds without a refresh. Sockets outside the conversation's room
+   * are ignored.
+   */
+  private typing(client: Socket, conversationId: string, typing: boolean) {
+    if (!client.data.userId) {
+      return;
+    }
+    const room = conversationRoom(conversationId);
+    if (!client.rooms.has(room)) {
+      return;
+    }
+    const typingSince = this.typingSince(client);
+    if (typing) {
+      const since = typingSince.get(room);
+      if (since !== undefined && Date.now() - since < TYPING_THROTTLE_MS) {
+        return;
+      }
+      typingSince.set(room, Date.now());
+    } else if (!typingSince.delete(room)) {
+      return;
+    }
+    client.to(room).emit(typing ? 'typing' : 'stop_typing', {
+      conversationId,
+      userId: client.data.userId,
+    });
+  }
+
+  // When the socket last announced typing, per conversation room
+  private typingSince(client: Socket): Map<string, number> {
+    if (!client.data.typingSince) {
+      client.data.typingSince = new Map<string, number>();
+    }
+    return client.data.typingSince;
+  }
+
+  private presenceOf(userId: string, online: boolean): Presence {
+    return { userId, online, lastSeenAt: new Date() };
+  }
+
+  @SubscribeMessage('ack')
+  @ApiOperation({ summary: 'Confirm a received message was delivered' })
+  async handleAck(
+    @MessageBody() data: { messageId: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    if (!client.data.userId) {
+      return;
+    }
+    const receipt = await this.receiptService.markDelivered(
+      client.data.userId,
+      data?.messageId,
+    );
+    if (receipt) {
+      this.io
+        .to(conversationRoom(receipt.conversationId))
+        .emit('receipt', receipt);
+    }
+  }
+
+  @SubscribeMessage('read')
+  @ApiOperation({
+    summary: 'Mark a conversation read up to a message, or entirely',
+  })
+  async handleRead(
+    @MessageBody() data: { conversationId: string; messageId?: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    const userId: string | undefined = client.data.userId;
+    if (!userId) {
+      return;
+    }
+    const { receipt, unread } = await this.receiptService.markRead(
+      userId,
+      data?.conversationId,
+      data?.messageId,
+    );
+    this.readUpdated(userId, receipt, unread);
+    return unread;
+  }
+
+  // Tells the senders how far the reader got, and the reader what is left unread
+  readUpdated(
+    userId: string,
+    receipt: ReceiptUpdate | null,
+    unread: UnreadUpdate,
+  ) {
+    if (receipt) {
+      this.io
+        .to(conversationRoom(receipt.conversationId))
+        .emit('receipt', receipt);
+    }
+    this.io.to(userRoom(userId)).emit('unread', unread);
+  }
+
+  // Tells the participants how the conversation changed; removed users leave its room
+  conversationUpdated(
+    conversation: Conversation,
+    removedUserIds: unknown[] = [],
+  ) {
+    const room = conversationRoom(conversation._id);
+    this.joinConversation(conversation._id, conversation.participants);
+    if (removedUserIds.length > 0) {
+      const removed = removedUserIds.map(userRoom);
+      this.io.in(removed).socketsLeave(room);
+      this.io
+        .to(removed)
+        .emit('conversation_removed', { id: conversation._id });
+    }
+    this.io.to(room).emit('conversation', conversation);
+  }
+
+  conversationDeleted(conversationId: unknown) {
+    const room = conversationRoom(conversationId);
+    this.io.to(room).emit('conversation_removed', { id: conversationId });
+    this.io.in(room).socketsLeave(room);
+  }
+
+  // Puts every socket of the users, on any instance, in the conversation's room
+  private joinConversation(conversationId: unknown, userIds: unknown[]) {
+    // No rooms at all would mean every socket
+    if (userIds.length > 0) {
+      this.io
+        .in(userIds.map(userRoom))
+        .socketsJoin(conversationRoom(conversationId));
     }
   }
 
@@ -122,4 +351,4 @@ export class ChatGateway
 
     return token;
   }
-}
\ No newline at end of file
+}
@@ -3,15 +3,38 @@ import { ChatController } from './chat.controller';
 import { ChatGateway } from './chat.gateway';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Message, MessageSchema } from 'src/entities/chat/chat.entity';
+import { Conversation, ConversationSchema } from 'src/entities/chat/conversation.entity';
+import { ConversationReceipt, ConversationReceiptSchema } from 'src/entities/chat/conversation-receipt.entity';
+import { User, UserSchema } from 'src/entities/users/users.entity';
 import { ChatService } from './chat.service';
 import { RedisModule } from 'src/redis/redis.module';
+import { MessageSenderPolicy } from './message-sender.policy';
+import { ConversationService } from './conversation.service';
+import { ConversationController } from './conversation.controller';
+import { ConversationAdminPolicy } from './conversation-admin.policy';
+import { ReceiptService } from './receipt.service';
+import { PresenceService } from './presence.service';
+import { PresenceController } from './presence.controller';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Message.name, schema: MessageSchema }]),
+    MongooseModule.forFeature([
+      { name: Message.name, schema: MessageSchema },
+      { name: Conversation.name, schema: ConversationSchema },
+      { name: ConversationReceipt.name, schema: ConversationReceiptSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
     RedisModule
   ],
-  controllers: [ChatController],
-  providers: [ChatGateway, ChatService]
+  controllers: [ChatController, ConversationController, PresenceController],
+  providers: [
+    ChatGateway,
+    ChatService,
+    ConversationService,
+    ReceiptService,
+    PresenceService,
+    MessageSenderPolicy,
+    ConversationAdminPolicy
+  ]
 })
 export class ChatModule {}
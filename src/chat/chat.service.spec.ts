@@ -1,12 +1,59 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { ChatService } from './chat.service';
+import { ConversationService } from './conversation.service';
+import { ReceiptService } from './receipt.service';
+import { Message } from '../entities/chat/chat.entity';
+import { User } from '../entities/users/users.entity';
 
 describe('ChatService', () => {
   let service: ChatService;
 
+  // Chain returned by find/findOne: sort/limit/lean then exec
+  const queryResolving = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockMessageModel = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockConversationService = {
+    findForParticipant: jest.fn(),
+  };
+
+  const userId = new Types.ObjectId().toString();
+  const conversationId = new Types.ObjectId();
+  // Messages one minute apart, newest first
+  const messages: Message[] = [5, 4, 3, 2, 1].map((minute) => ({
+    _id: new Types.ObjectId(),
+    conversation: conversationId,
+    sender: new Types.ObjectId(userId),
+    message_text: `Message ${minute}`,
+    createdAt: new Date(Date.UTC(2024, 0, 1, 12, minute)),
+    updatedAt: new Date(Date.UTC(2024, 0, 1, 12, minute)),
+  }));
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    mockConversationService.findForParticipant.mockResolvedValue({
+      _id: conversationId,
+    });
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ChatService],
+      providers: [
+        ChatService,
+        { provide: getModelToken(Message.name), useValue: mockMessageModel },
+        { provide: getModelToken(User.name), useValue: {} },
+        { provide: ConversationService, useValue: mockConversationService },
+        { provide: ReceiptService, useValue: {} },
+      ],
     }).compile();
 
     service = module.get<ChatService>(ChatService);
@@ -15,4 +62,63 @@ describe('ChatService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('history', () => {
+    it('should start from the newest message', async () => {
+      mockMessageModel.find.mockReturnValue(
+        queryResolving(messages.slice(0, 3)),
+      );
+
+      const page = await service.history(conversationId.toString(), userId, {
+        limit: 2,
+      });
+
+      expect(page.items.map((item) => item.id)).toEqual([
+        messages[0]._id,
+        messages[1]._id,
+      ]);
+      expect(page.nextCursor).toEqual(expect.any(String));
+      expect(page.newerCursor).toBeNull();
+    });
+
+    it('should put the message jumped to in the middle of its page', async () => {
+      mockMessageModel.findOne.mockReturnValue(queryResolving(messages[2]));
+      mockMessageModel.find
+        // Newer ones come oldest first
+        .mockReturnValueOnce(queryResolving([messages[1], messages[0]]))
+        .mockReturnValueOnce(queryResolving([messages[3], messages[4]]));
+
+      const page = await service.history(conversationId.toString(), userId, {
+        limit: 3,
+        around: messages[2]._id.toString(),
+      });
+
+      expect(page.items.map((item) => item.id)).toEqual([
+        messages[1]._id,
+        messages[2]._id,
+        messages[3]._id,
+      ]);
+      expect(page.nextCursor).toEqual(expect.any(String));
+      expect(page.newerCursor).toEqual(expect.any(String));
+    });
+
+    it('should fail for a message from another conversation', async () => {
+      mockMessageModel.findOne.mockReturnValue(queryResolving(null));
+
+      await expect(
+        service.history(conversationId.toString(), userId, {
+          around: new Types.ObjectId().toString(),
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should not take two starting points at once', async () => {
+      await expect(
+        service.history(conversationId.toString(), userId, {
+          cursor: 'a',
+          around: messages[0]._id.toString(),
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
 });
@@ -1,62 +1,300 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Message, MessageDocument } from 'src/entities/chat/chat.entity';
+import { ConversationKind } from 'src/entities/chat/conversation.entity';
+import { User, UserDocument } from 'src/entities/users/users.entity';
+import { MessageHistoryQueryDTO } from 'src/DTO/conversation.dto';
+import {
+  DEFAULT_PAGE_SIZE,
+  Page,
+  PaginationQueryDTO,
+} from 'src/common/pagination/pagination.dto';
+import {
+  keysetBeforeFilter,
+  keysetCursor,
+  RECENCY_KEY,
+  RECENCY_SORT,
+  recencyFilter,
+  reverseKeysetSort,
+  toRecencyPage,
+} from 'src/common/pagination/cursor';
+import { ConversationService, Participant } from './conversation.service';
+import { ReceiptService } from './receipt.service';
+
+// A message as clients receive it
+export interface MessageView {
+  id: Types.ObjectId;
+  conversationId: Types.ObjectId;
+  message: string;
+  sent_at: Date;
+  senderId: Types.ObjectId;
+  receiverId?: Types.ObjectId;
+}
+
+// The latest message exchanged with one other user
+export interface ChatSummary {
+  userId: Types.ObjectId;
+  // Null once the user is deleted
+  user: Participant | null;
+  lastMessage: MessageView;
+}
+
+export type MessageHistoryPage = Page<MessageView> & {
+  // Null when the page ends with the newest message
+  newerCursor: string | null;
+};
+
+// A message from the aggregation in findAllChatsByUser
+type LatestMessage = Message & {
+  peer: Types.ObjectId;
+  peerUser: Participant[];
+};
+
+export function toMessageView(message: Message): MessageView {
+  return {
+    id: message._id,
+    conversationId: message.conversation,
+    message: message.message_text,
+    sent_at: message.createdAt,
+    senderId: message.sender,
+    receiverId: message.receiver,
+  };
+}
 
 @Injectable()
 export class ChatService {
   constructor(
     @InjectModel(Message.name)
     private readonly messageModel: Model<MessageDocument>,
+    @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
+    private readonly conversationService: ConversationService,
+    private readonly receiptService: ReceiptService,
   ) {}
 
   private readonly logger = new Logger(ChatService.name);
 
-  async findAllChatsByUser(userId: string) {
-    const messages = await this.messageModel
-      .find({
-        $or: [
-          { sender: new Types.ObjectId(userId) },
-          { receiver: new Types.ObjectId(userId) }
-        ]
-      })
-      .populate('sender', 'username email')
-      .populate('receiver', 'username email')
-      .sort({ createdAt: 1 })
+  /**
+   * The latest message with each user the user has a direct conversation
+   * with, most recent first; other messages never leave the database.
+   */
+  async findAllChatsByUser(
+    userId: string,
+    query: PaginationQueryDTO,
+  ): Promise<Page<ChatSummary>> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new BadRequestException('Invalid user ID');
+    }
+    const user = new Types.ObjectId(userId);
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const latest = await this.messageModel
+      .aggregate<LatestMessage>([
+        {
+          $match: {
+            receiver: { $exists: true },
+            $or: [{ sender: user }, { receiver: user }],
+          },
+        },
+        { $sort: RECENCY_SORT },
+        {
+          $group: {
+            _id: {
+              $cond: [{ $eq: ['$sender', user] }, '$receiver', '$sender'],
+            },
+            message: { $first: '$$ROOT' },
+          },
+        },
+        { $replaceWith: { $mergeObjects: ['$message', { peer: '$_id' }] } },
+        { $match: recencyFilter(query.cursor) },
+        { $sort: RECENCY_SORT },
+        { $limit: limit + 1 },
+        {
+          $lookup: {
+            from: this.userModel.collection.name,
+            localField: 'peer',
+            foreignField: '_id',
+            pipeline: [
+              {
+                $project: { username: 1, name: 1, surname: 1, profilePhoto: 1 },
+              },
+            ],
+            as: 'peerUser',
+          },
+        },
+      ])
       .exec();
 
-    const chatsMap = new Map<string, any[]>();
+    const page = toRecencyPage(latest, limit);
+    return {
+      items: page.items.map((message) => ({
+        userId: message.peer,
+        user: message.peerUser[0] ?? null,
+        lastMessage: toMessageView(message),
+      })),
+      nextCursor: page.nextCursor,
+    };
+  }
 
-    for (const message of messages) {
-      const otherUser = message.sender._id.toString() === userId
-        ? message.receiver
-        : message.sender;
+  /**
+   * Messages of one conversation, newest first. Older ones continue from
+   * nextCursor and newer ones from newerCursor; around jumps to a message,
+   * with about as many newer messages as older ones around it.
+   */
+  async history(
+    conversationId: string,
+    userId: string,
+    query: MessageHistoryQueryDTO,
+  ): Promise<MessageHistoryPage> {
+    if (
+      [query.cursor, query.newerCursor, query.around].filter(Boolean).length > 1
+    ) {
+      throw new BadRequestException(
+        'Only one of cursor, newerCursor and around can be given',
+      );
+    }
+    const conversation = await this.conversationService.findForParticipant(
+      conversationId,
+      userId,
+    );
+    const inConversation = { conversation: conversation._id };
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
 
-      if (!chatsMap.has(otherUser._id.toString())) {
-        chatsMap.set(otherUser._id.toString(), []);
+    if (query.around) {
+      const anchor = await this.messageModel
+        .findOne({ _id: query.around, ...inConversation })
+        .lean<Message>()
+        .exec();
+      if (!anchor) {
+        throw new NotFoundException('Message not found');
       }
+      const anchorCursor = keysetCursor(anchor, RECENCY_KEY);
+      const newerLimit = Math.floor((limit - 1) / 2);
+      const newer = await this.newerMessages(
+        inConversation,
+        anchorCursor,
+        newerLimit,
+      );
+      const olderLimit = limit - 1 - Math.min(newer.length, newerLimit);
+      const older = await this.olderMessages(
+        inConversation,
+        anchorCursor,
+        olderLimit,
+      );
+      return this.toHistoryPage(
+        [
+          ...newer.slice(0, newerLimit).reverse(),
+          anchor,
+          ...older.slice(0, olderLimit),
+        ],
+        older.length > olderLimit,
+        newer.length > newerLimit,
+      );
+    }
 
-      const simplifiedMessage = {
-        id: message._id,
-        message: message.message_text,
-        sent_at: message.createdAt,
-        senderId: message.sender._id,
-        receiverId: message.receiver._id,
-      };
-
-      (chatsMap.get(otherUser._id.toString()) || []).push(simplifiedMessage);
+    if (query.newerCursor) {
+      const newer = await this.newerMessages(
+        inConversation,
+        query.newerCursor,
+        limit,
+      );
+      return this.toHistoryPage(
+        newer.slice(0, limit).reverse(),
+        true,
+        newer.length > limit,
+      );
     }
 
-    const chats = Array.from(chatsMap.entries()).map(([otherUserId, messages]) => ({
-      userId: otherUserId,
-      messages,
-    }));
+    const older = await this.olderMessages(inConversation, query.cursor, limit);
+    return this.toHistoryPage(
+      older.slice(0, limit),
+      older.length > limit,
+      !!query.cursor,
+    );
+  }
 
-    return chats;
+  // Up to limit + 1 messages before the cursor, newest first
+  private olderMessages(
+    filter: object,
+    cursor: string | undefined,
+    limit: number,
+  ): Promise<Message[]> {
+    return this.messageModel
+      .find({ ...filter, ...recencyFilter(cursor) })
+      .sort(RECENCY_SORT)
+      .limit(limit + 1)
+      .lean<Message[]>()
+      .exec();
+  }
+
+  // Up to limit + 1 messages after the cursor, oldest first
+  private newerMessages(
+    filter: object,
+    cursor: string,
+    limit: number,
+  ): Promise<Message[]> {
+    return this.messageModel
+      .find({ ...filter, ...keysetBeforeFilter(RECENCY_KEY, cursor) })
+      .sort(reverseKeysetSort(RECENCY_KEY))
+      .limit(limit + 1)
+      .lean<Message[]>()
+      .exec();
   }
 
+  private toHistoryPage(
+    messages: Message[],
+    hasOlder: boolean,
+    hasNewer: boolean,
+  ): MessageHistoryPage {
+    const first = messages[0];
+    const last = messages[messages.length - 1];
+    return {
+      items: messages.map(toMessageView),
+      nextCursor: hasOlder && last ? keysetCursor(last, RECENCY_KEY) : null,
+      newerCursor: hasNewer && first ? keysetCursor(first, RECENCY_KEY) : null,
+    };
+  }
+
+  /**
+   * Sends to msg.conversation, or to msg.receiver, whose direct conversation
+   * with the sender is created by the first message.
+   */
   async create(msg: Partial<Message>): Promise<MessageDocument> {
-    const newMessage = new this.messageModel(msg);
-    return newMessage.save();
+    const sender = String(msg.sender);
+    let conversation;
+    if (msg.conversation) {
+      conversation = await this.conversationService.findForParticipant(
+        String(msg.conversation),
+        sender,
+      );
+    } else if (msg.receiver) {
+      conversation = await this.conversationService.findOrCreateDirect(
+        sender,
+        String(msg.receiver),
+      );
+    } else {
+      throw new BadRequestException(
+        'A message needs a conversation or a receiver',
+      );
+    }
+
+    const receiver =
+      conversation.kind === ConversationKind.Direct
+        ? (conversation.participants.find((id) => id.toString() !== sender) ??
+          conversation.participants[0])
+        : undefined;
+    const newMessage = await new this.messageModel({
+      conversation: conversation._id,
+      sender: msg.sender,
+      receiver,
+      message_text: msg.message_text,
+    }).save();
+    await this.conversationService.recordMessage(newMessage);
+    await this.receiptService.recordSent(conversation, newMessage);
+    return newMessage;
   }
-}
\ No newline at end of file
+}
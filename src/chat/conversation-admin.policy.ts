@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AccessDeniedReason } from '../policies/access-denied.exception';
+import {
+  allow,
+  AuthenticatedUser,
+  deny,
+  PolicyDecision,
+  PolicyHandler,
+} from '../policies/policy';
+import { ConversationService } from './conversation.service';
+
+/**
+ * For routes changing the conversation given as :id. Site admins get no say
+ * in private conversations, and outsiders get a 404.
+ */
+@Injectable()
+export class ConversationAdminPolicy implements PolicyHandler {
+  constructor(private readonly conversationService: ConversationService) {}
+
+  async handle(
+    user: AuthenticatedUser,
+    request: Request,
+  ): Promise<PolicyDecision> {
+    const conversation = await this.conversationService.findForParticipant(
+      request.params.id,
+      user.sub,
+    );
+    if (conversation.admins.some((admin) => admin.toString() === user.sub)) {
+      return allow();
+    }
+    return deny(
+      AccessDeniedReason.NotOwner,
+      'Only admins of the conversation can do this',
+    );
+  }
+}
@@ -0,0 +1,213 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Scopes } from 'src/auth/decorators/scopes.decorator';
+import { Scope } from 'src/entities/api-keys/api-key.entity';
+import { CheckPolicies } from 'src/policies/check-policies.decorator';
+import { PaginationQueryDTO } from 'src/common/pagination/pagination.dto';
+import {
+  AddParticipantsDTO,
+  CreateConversationDTO,
+  MarkReadDTO,
+  MessageHistoryQueryDTO,
+  UpdateConversationDTO,
+} from 'src/DTO/conversation.dto';
+import { Conversation } from 'src/entities/chat/conversation.entity';
+import { ConversationService } from './conversation.service';
+import { ConversationAdminPolicy } from './conversation-admin.policy';
+import { ChatGateway } from './chat.gateway';
+import { ChatService } from './chat.service';
+import { ReceiptService } from './receipt.service';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from 'src/policies/policy';
+
+@Controller('conversations')
+@ApiTags('Chat')
+@ApiBearerAuth()
+export class ConversationController {
+  constructor(
+    private readonly conversationService: ConversationService,
+    private readonly chatService: ChatService,
+    private readonly receiptService: ReceiptService,
+    private readonly chatGateway: ChatGateway,
+  ) {}
+
+  @Post()
+  @Scopes(Scope.ChatWrite)
+  @ApiOperation({ summary: 'Start a group chat' })
+  async create(
+    @Body(new ValidationPipe({ whitelist: true })) dto: CreateConversationDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const conversation = await this.conversationService.createGroup(
+      user.sub,
+      dto,
+    );
+    this.chatGateway.conversationUpdated(conversation);
+    return conversation;
+  }
+
+  @Get()
+  @Scopes(Scope.ChatRead)
+  @ApiOperation({
+    summary: 'Your conversations with their last message, most active first',
+  })
+  findAll(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PaginationQueryDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.conversationService.listForUser(user.sub, query);
+  }
+
+  // Declared before :id, which would otherwise match it
+  @Get('unread')
+  @Scopes(Scope.ChatRead)
+  @ApiOperation({ summary: 'Unread messages, per conversation and in total' })
+  unread(@CurrentUser() user: AuthenticatedUser) {
+    return this.receiptService.unreadCounts(user.sub);
+  }
+
+  @Get(':id')
+  @Scopes(Scope.ChatRead)
+  findOne(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.conversationService.findOne(id, user.sub);
+  }
+
+  @Get(':id/messages')
+  @Scopes(Scope.ChatRead)
+  @ApiOperation({ summary: 'Messages of the conversation, newest first' })
+  @ApiResponse({ status: 400, description: 'Invalid cursor.' })
+  @ApiResponse({ status: 404, description: 'No such conversation or message.' })
+  history(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: MessageHistoryQueryDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.chatService.history(id, user.sub, query);
+  }
+
+  @Get(':id/messages/:messageId/receipts')
+  @Scopes(Scope.ChatRead)
+  @ApiOperation({
+    summary: 'Whether each recipient has got and read the message',
+  })
+  receipts(
+    @Param('id') id: string,
+    @Param('messageId') messageId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.receiptService.findForMessage(id, messageId, user.sub);
+  }
+
+  @Post(':id/read')
+  @Scopes(Scope.ChatWrite)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark the conversation read up to a message' })
+  async markRead(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true })) dto: MarkReadDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const { receipt, unread } = await this.receiptService.markRead(
+      user.sub,
+      id,
+      dto.messageId,
+    );
+    this.chatGateway.readUpdated(user.sub, receipt, unread);
+    return unread;
+  }
+
+  @Patch(':id')
+  @Scopes(Scope.ChatWrite)
+  @CheckPolicies(ConversationAdminPolicy)
+  @ApiOperation({ summary: 'Rename a group chat' })
+  async update(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true })) dto: UpdateConversationDTO,
+  ) {
+    const conversation = await this.conversationService.rename(id, dto.title);
+    this.chatGateway.conversationUpdated(conversation);
+    return conversation;
+  }
+
+  @Post(':id/participants')
+  @Scopes(Scope.ChatWrite)
+  @CheckPolicies(ConversationAdminPolicy)
+  async addParticipants(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true })) dto: AddParticipantsDTO,
+  ) {
+    const conversation = await this.conversationService.addParticipants(
+      id,
+      dto.participants,
+    );
+    this.chatGateway.conversationUpdated(conversation);
+    return conversation;
+  }
+
+  @Delete(':id/participants/:userId')
+  @Scopes(Scope.ChatWrite)
+  @CheckPolicies(ConversationAdminPolicy)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeParticipant(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+  ) {
+    this.notifyRemoval(
+      id,
+      userId,
+      await this.conversationService.removeParticipant(id, userId),
+    );
+  }
+
+  @Post(':id/admins/:userId')
+  @Scopes(Scope.ChatWrite)
+  @CheckPolicies(ConversationAdminPolicy)
+  @ApiOperation({ summary: 'Make a participant an admin of the group chat' })
+  async addAdmin(@Param('id') id: string, @Param('userId') userId: string) {
+    const conversation = await this.conversationService.addAdmin(id, userId);
+    this.chatGateway.conversationUpdated(conversation);
+    return conversation;
+  }
+
+  @Post(':id/leave')
+  @Scopes(Scope.ChatWrite)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async leave(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    this.notifyRemoval(
+      id,
+      user.sub,
+      await this.conversationService.leave(id, user.sub),
+    );
+  }
+
+  private notifyRemoval(
+    id: string,
+    userId: string,
+    conversation: Conversation | null,
+  ) {
+    if (conversation) {
+      this.chatGateway.conversationUpdated(conversation, [userId]);
+    } else {
+      this.chatGateway.conversationDeleted(id);
+    }
+  }
+}
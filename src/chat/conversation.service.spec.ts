@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ConversationService } from './conversation.service';
+import {
+  Conversation,
+  ConversationKind,
+} from '../entities/chat/conversation.entity';
+import { Message } from '../entities/chat/chat.entity';
+import { ConversationReceipt } from '../entities/chat/conversation-receipt.entity';
+import { User } from '../entities/users/users.entity';
+
+describe('ConversationService', () => {
+  let service: ConversationService;
+
+  // Chain returned by the model queries: lean/orFail then exec
+  const queryResolving = (value: unknown) => ({
+    lean: jest.fn().mockReturnThis(),
+    orFail: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockConversationModel = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+
+  const mockMessageModel = {
+    deleteMany: jest.fn(),
+  };
+
+  const mockUserModel = {
+    countDocuments: jest.fn(),
+  };
+
+  const mockReceiptModel = {
+    deleteOne: jest.fn(),
+  };
+
+  const alice = new Types.ObjectId();
+  const bob = new Types.ObjectId();
+  const carol = new Types.ObjectId();
+  const group = {
+    _id: new Types.ObjectId(),
+    kind: ConversationKind.Group,
+    title: 'Weekend trip',
+    participants: [alice, bob, carol],
+    admins: [alice],
+  } as Conversation;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockConversationModel.updateOne.mockReturnValue(queryResolving({}));
+    mockConversationModel.deleteOne.mockReturnValue(queryResolving({}));
+    mockMessageModel.deleteMany.mockReturnValue(queryResolving({}));
+    mockReceiptModel.deleteOne.mockReturnValue(queryResolving({}));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationService,
+        {
+          provide: getModelToken(Conversation.name),
+          useValue: mockConversationModel,
+        },
+        { provide: getModelToken(Message.name), useValue: mockMessageModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        {
+          provide: getModelToken(ConversationReceipt.name),
+          useValue: mockReceiptModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ConversationService>(ConversationService);
+  });
+
+  describe('findOrCreateDirect', () => {
+    it('should find the conversation by its sorted participants', async () => {
+      mockConversationModel.findOneAndUpdate.mockReturnValue(
+        queryResolving(group),
+      );
+
+      await service.findOrCreateDirect(bob.toString(), alice.toString());
+      await service.findOrCreateDirect(alice.toString(), bob.toString());
+
+      const [[first], [second]] = mockConversationModel.findOneAndUpdate.mock
+        .calls as [[object], [object]];
+      expect(first).toEqual(second);
+    });
+  });
+
+  describe('findForParticipant', () => {
+    it('should hide conversations from users outside them', async () => {
+      mockConversationModel.findOne.mockReturnValue(queryResolving(null));
+
+      await expect(
+        service.findForParticipant(group._id.toString(), carol.toString()),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('addParticipants', () => {
+    it('should reject users that do not exist', async () => {
+      mockUserModel.countDocuments.mockReturnValue(queryResolving(1));
+
+      await expect(
+        service.addParticipants(group._id.toString(), [
+          bob.toString(),
+          new Types.ObjectId().toString(),
+        ]),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockConversationModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeParticipant', () => {
+    it('should hand the group to the next participant when the last admin goes', async () => {
+      mockConversationModel.findOneAndUpdate.mockReturnValue(
+        queryResolving({ ...group, participants: [bob, carol], admins: [] }),
+      );
+
+      const conversation = await service.removeParticipant(
+        group._id.toString(),
+        alice.toString(),
+      );
+
+      expect(conversation?.admins).toEqual([bob]);
+      expect(mockReceiptModel.deleteOne).toHaveBeenCalledWith({
+        conversation: group._id,
+        user: alice,
+      });
+      expect(mockConversationModel.updateOne).toHaveBeenCalledWith(
+        { _id: group._id },
+        { $addToSet: { admins: bob } },
+      );
+    });
+
+    it('should delete the conversation when the last participant goes', async () => {
+      mockConversationModel.findOneAndUpdate.mockReturnValue(
+        queryResolving({ ...group, participants: [], admins: [] }),
+      );
+
+      await expect(
+        service.removeParticipant(group._id.toString(), alice.toString()),
+      ).resolves.toBeNull();
+      expect(mockMessageModel.deleteMany).toHaveBeenCalledWith({
+        conversation: group._id,
+      });
+    });
+  });
+
+  describe('leave', () => {
+    it('should not let anyone leave a direct conversation', async () => {
+      mockConversationModel.findOne.mockReturnValue(
+        queryResolving({ ...group, kind: ConversationKind.Direct }),
+      );
+
+      await expect(
+        service.leave(group._id.toString(), alice.toString()),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockConversationModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,384 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, PopulateOptions, Types } from 'mongoose';
+import { Message, MessageDocument } from 'src/entities/chat/chat.entity';
+import {
+  Conversation,
+  ConversationDocument,
+  ConversationKind,
+} from 'src/entities/chat/conversation.entity';
+import {
+  ConversationReceipt,
+  ConversationReceiptDocument,
+} from 'src/entities/chat/conversation-receipt.entity';
+import { User, UserDocument } from 'src/entities/users/users.entity';
+import {
+  CreateConversationDTO,
+  MAX_PARTICIPANTS,
+} from 'src/DTO/conversation.dto';
+import {
+  DEFAULT_PAGE_SIZE,
+  Page,
+  PaginationQueryDTO,
+} from 'src/common/pagination/pagination.dto';
+import {
+  keysetFilter,
+  keysetSort,
+  SortKey,
+  toKeysetPage,
+} from 'src/common/pagination/cursor';
+
+export type Participant = Pick<
+  User,
+  '_id' | 'username' | 'name' | 'surname' | 'profilePhoto'
+>;
+
+export type ConversationView = Omit<
+  Conversation,
+  'participants' | 'lastMessage'
+> & {
+  participants: Participant[];
+  lastMessage: Pick<
+    Message,
+    '_id' | 'sender' | 'message_text' | 'createdAt'
+  > | null;
+};
+
+// Sender and receiver of a message, in id order
+interface MessagePair {
+  _id: { a: Types.ObjectId; b: Types.ObjectId };
+}
+
+const ACTIVITY_KEY: SortKey<{ lastMessageAt: Date }> = {
+  field: 'lastMessageAt',
+  type: 'date',
+};
+
+const CONVERSATION_POPULATE: PopulateOptions[] = [
+  { path: 'participants', select: 'username name surname profilePhoto' },
+  { path: 'lastMessage', select: 'sender message_text createdAt' },
+];
+
+@Injectable()
+export class ConversationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ConversationService.name);
+
+  constructor(
+    @InjectModel(Conversation.name)
+    private readonly conversationModel: Model<ConversationDocument>,
+    @InjectModel(Message.name)
+    private readonly messageModel: Model<MessageDocument>,
+    @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
+    @InjectModel(ConversationReceipt.name)
+    private readonly receiptModel: Model<ConversationReceiptDocument>,
+  ) {}
+
+  /**
+   * Messages sent before conversations existed only have a sender and a
+   * receiver; each pair of users gets its direct conversation.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const pairs = await this.messageModel
+      .aggregate<MessagePair>([
+        { $match: { conversation: { $exists: false } } },
+        {
+          $group: {
+            _id: {
+              a: { $min: ['$sender', '$receiver'] },
+              b: { $max: ['$sender', '$receiver'] },
+            },
+          },
+        },
+      ])
+      .exec();
+
+    for (const { _id: pair } of pairs) {
+      const conversation = await this.findOrCreateDirect(
+        pair.a.toString(),
+        pair.b.toString(),
+      );
+      await this.messageModel
+        .updateMany(
+          {
+            conversation: { $exists: false },
+            $or: [
+              { sender: pair.a, receiver: pair.b },
+              { sender: pair.b, receiver: pair.a },
+            ],
+          },
+          { conversation: conversation._id },
+        )
+        .exec();
+      const last = await this.messageModel
+        .findOne({ conversation: conversation._id })
+        .sort({ createdAt: -1, _id: -1 })
+        .select('createdAt')
+        .lean()
+        .exec();
+      if (last) {
+        await this.conversationModel
+          .updateOne(
+            { _id: conversation._id },
+            { lastMessage: last._id, lastMessageAt: last.createdAt },
+          )
+          .exec();
+      }
+    }
+    if (pairs.length > 0) {
+      this.logger.log(
+        `Grouped old messages into ${pairs.length} conversations`,
+      );
+    }
+  }
+
+  /**
+   * The conversation between two users, created on their first message. The
+   * unique directKey index makes concurrent upserts settle on one document.
+   */
+  async findOrCreateDirect(
+    userId: string,
+    otherId: string,
+  ): Promise<ConversationDocument> {
+    if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(otherId)) {
+      throw new BadRequestException('Invalid user ID');
+    }
+    const ids = [userId, otherId].sort();
+    return this.conversationModel
+      .findOneAndUpdate(
+        { directKey: ids.join(':') },
+        {
+          $setOnInsert: {
+            kind: ConversationKind.Direct,
+            participants: [...new Set(ids)].map((id) => new Types.ObjectId(id)),
+            admins: [],
+            lastMessageAt: new Date(),
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .orFail()
+      .exec();
+  }
+
+  async createGroup(
+    creatorId: string,
+    dto: CreateConversationDTO,
+  ): Promise<ConversationDocument> {
+    const participants = await this.existingUsers([
+      creatorId,
+      ...dto.participants,
+    ]);
+    const creator = new Types.ObjectId(creatorId);
+    return this.conversationModel.create({
+      kind: ConversationKind.Group,
+      title: dto.title,
+      participants,
+      admins: [creator],
+      lastMessageAt: new Date(),
+    });
+  }
+
+  async listForUser(
+    userId: string,
+    query: PaginationQueryDTO,
+  ): Promise<Page<ConversationView>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const conversations = await this.conversationModel
+      .find({
+        participants: new Types.ObjectId(userId),
+        ...keysetFilter(ACTIVITY_KEY, query.cursor),
+      })
+      .sort(keysetSort(ACTIVITY_KEY))
+      .limit(limit + 1)
+      .populate(CONVERSATION_POPULATE)
+      .lean<ConversationView[]>()
+      .exec();
+    return toKeysetPage(conversations, ACTIVITY_KEY, limit);
+  }
+
+  async findOne(id: string, userId: string): Promise<ConversationView> {
+    await this.findForParticipant(id, userId);
+    return this.conversationModel
+      .findById(id)
+      .populate(CONVERSATION_POPULATE)
+      .lean<ConversationView>()
+      .orFail(new NotFoundException('Conversation not found'))
+      .exec();
+  }
+
+  // Conversations are a 404 to everyone outside them
+  async findForParticipant(id: string, userId: string): Promise<Conversation> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid conversation ID');
+    }
+    const conversation = await this.conversationModel
+      .findOne({ _id: id, participants: new Types.ObjectId(userId) })
+      .lean<Conversation>()
+      .exec();
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+    return conversation;
+  }
+
+  // Ids of every conversation the user is in, for joining socket rooms
+  async idsForUser(userId: string): Promise<string[]> {
+    const conversations = await this.conversationModel
+      .find({ participants: new Types.ObjectId(userId) })
+      .select('_id')
+      .lean()
+      .exec();
+    return conversations.map(({ _id }) => _id.toString());
+  }
+
+  // The users among userIds who share a conversation with the user
+  async contactsAmong(userId: string, userIds: string[]): Promise<string[]> {
+    const contacts = await this.conversationModel
+      .distinct('participants', {
+        participants: new Types.ObjectId(userId),
+      })
+      .exec();
+    const known = new Set(contacts.map((contact) => String(contact)));
+    return [...new Set(userIds)].filter((id) => known.has(id));
+  }
+
+  async rename(id: string, title: string): Promise<Conversation> {
+    return this.conversationModel
+      .findOneAndUpdate(
+        { _id: id, kind: ConversationKind.Group },
+        { title },
+        { new: true },
+      )
+      .lean<Conversation>()
+      .orFail(new BadRequestException('Only group chats have a title'))
+      .exec();
+  }
+
+  async addParticipants(id: string, userIds: string[]): Promise<Conversation> {
+    const participants = await this.existingUsers(userIds);
+    const conversation = await this.conversationModel
+      .findOneAndUpdate(
+        {
+          _id: id,
+          kind: ConversationKind.Group,
+          // Leaves room for all of them, even those already in
+          [`participants.${MAX_PARTICIPANTS - participants.length}`]: {
+            $exists: false,
+          },
+        },
+        { $addToSet: { participants: { $each: participants } } },
+        { new: true },
+      )
+      .lean<Conversation>()
+      .exec();
+    if (!conversation) {
+      throw new BadRequestException(
+        `Only group chats take new participants, up to ${MAX_PARTICIPANTS}`,
+      );
+    }
+    return conversation;
+  }
+
+  async addAdmin(id: string, userId: string): Promise<Conversation> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new BadRequestException('Invalid user ID');
+    }
+    const user = new Types.ObjectId(userId);
+    return this.conversationModel
+      .findOneAndUpdate(
+        { _id: id, kind: ConversationKind.Group, participants: user },
+        { $addToSet: { admins: user } },
+        { new: true },
+      )
+      .lean<Conversation>()
+      .orFail(new NotFoundException('Participant not found'))
+      .exec();
+  }
+
+  /**
+   * Takes the user out of a group chat. When the last admin goes, the
+   * longest-standing participant takes over; when the last participant goes,
+   * the conversation and its messages are deleted and null is returned.
+   * Receipts go with the participant.
+   */
+  async removeParticipant(
+    id: string,
+    userId: string,
+  ): Promise<Conversation | null> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new BadRequestException('Invalid user ID');
+    }
+    const user = new Types.ObjectId(userId);
+    const conversation = await this.conversationModel
+      .findOneAndUpdate(
+        { _id: id, kind: ConversationKind.Group, participants: user },
+        { $pull: { participants: user, admins: user } },
+        { new: true },
+      )
+      .lean<Conversation>()
+      .exec();
+    if (!conversation) {
+      throw new NotFoundException('Participant not found');
+    }
+    await this.receiptModel
+      .deleteOne({ conversation: conversation._id, user })
+      .exec();
+
+    if (conversation.participants.length === 0) {
+      await this.conversationModel.deleteOne({ _id: conversation._id }).exec();
+      await this.messageModel
+        .deleteMany({ conversation: conversation._id })
+        .exec();
+      return null;
+    }
+    if (conversation.admins.length === 0) {
+      const [successor] = conversation.participants;
+      await this.conversationModel
+        .updateOne(
+          { _id: conversation._id },
+          { $addToSet: { admins: successor } },
+        )
+        .exec();
+      conversation.admins = [successor];
+    }
+    return conversation;
+  }
+
+  async leave(id: string, userId: string): Promise<Conversation | null> {
+    const conversation = await this.findForParticipant(id, userId);
+    if (conversation.kind !== ConversationKind.Group) {
+      throw new BadRequestException('Direct conversations cannot be left');
+    }
+    return this.removeParticipant(id, userId);
+  }
+
+  // Keeps lastMessage on the newest message when sends race
+  async recordMessage(message: Message): Promise<void> {
+    await this.conversationModel
+      .updateOne(
+        {
+          _id: message.conversation,
+          lastMessageAt: { $lte: message.createdAt },
+        },
+        { lastMessage: message._id, lastMessageAt: message.createdAt },
+      )
+      .exec();
+  }
+
+  private async existingUsers(userIds: string[]): Promise<Types.ObjectId[]> {
+    const ids = [...new Set(userIds)].map((id) => new Types.ObjectId(id));
+    const found = await this.userModel
+      .countDocuments({ _id: { $in: ids } })
+      .exec();
+    if (found !== ids.length) {
+      throw new BadRequestException('Some participants do not exist');
+    }
+    return ids;
+  }
+}
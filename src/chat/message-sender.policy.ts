@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AccessDeniedReason } from '../policies/access-denied.exception';
+import {
+  allow,
+  AuthenticatedUser,
+  deny,
+  PolicyDecision,
+  PolicyHandler,
+} from '../policies/policy';
+
+// Nobody, admins included, sends messages in someone else's name
+@Injectable()
+export class MessageSenderPolicy implements PolicyHandler {
+  handle(user: AuthenticatedUser, request: Request): PolicyDecision {
+    const body = request.body as { sender?: unknown } | undefined;
+    if (typeof body?.sender === 'string' && body.sender === user.sub) {
+      return allow();
+    }
+    return deny(
+      AccessDeniedReason.NotOwner,
+      'Messages can only be sent as yourself',
+    );
+  }
+}
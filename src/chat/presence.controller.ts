@@ -0,0 +1,37 @@
+import { Controller, Get, Query, ValidationPipe } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Scopes } from 'src/auth/decorators/scopes.decorator';
+import { Scope } from 'src/entities/api-keys/api-key.entity';
+import { PresenceQueryDTO } from 'src/DTO/presence.dto';
+import { ConversationService } from './conversation.service';
+import { PresenceService } from './presence.service';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from 'src/policies/policy';
+
+@Controller('presence')
+@ApiTags('Chat')
+@ApiBearerAuth()
+export class PresenceController {
+  constructor(
+    private readonly conversationService: ConversationService,
+    private readonly presenceService: PresenceService,
+  ) {}
+
+  @Get()
+  @Scopes(Scope.ChatRead)
+  @ApiOperation({
+    summary: 'Whether users are online and when they were last seen',
+    description: 'Only users sharing a conversation with you are returned.',
+  })
+  async findAll(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PresenceQueryDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const contacts = await this.conversationService.contactsAmong(
+      user.sub,
+      query.users,
+    );
+    return this.presenceService.presence(contacts);
+  }
+}
@@ -0,0 +1,112 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PresenceService } from './presence.service';
+
+describe('PresenceService', () => {
+  let service: PresenceService;
+
+  const batch = {
+    zRemRangeByScore: jest.fn().mockReturnThis(),
+    zCard: jest.fn().mockReturnThis(),
+    zAdd: jest.fn().mockReturnThis(),
+    zRem: jest.fn().mockReturnThis(),
+    zCount: jest.fn().mockReturnThis(),
+    expire: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    hSet: jest.fn().mockReturnThis(),
+    exec: jest.fn(),
+  };
+
+  const mockRedis = {
+    multi: jest.fn(() => batch),
+    get: jest.fn(),
+    del: jest.fn(),
+    hmGet: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PresenceService,
+        { provide: 'REDIS_CLIENT', useValue: mockRedis },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PresenceService>(PresenceService);
+  });
+
+  describe('connect', () => {
+    it('should add the socket to the user and point it back', async () => {
+      batch.exec.mockResolvedValue([0, 0, 1, 1, 'OK', 0]);
+
+      await expect(service.connect('user-1', 'socket-1')).resolves.toBe(true);
+      expect(batch.zAdd).toHaveBeenCalledWith('presence:sockets:user-1', {
+        score: expect.any(Number),
+        value: 'socket-1',
+      });
+      expect(batch.set).toHaveBeenCalledWith('socket:socket-1', 'user-1', {
+        EX: 90,
+      });
+    });
+
+    it('should not announce a user online on another device', async () => {
+      batch.exec.mockResolvedValue([0, 1, 1, 1, 'OK', 0]);
+
+      await expect(service.connect('user-1', 'socket-2')).resolves.toBe(false);
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should find the user without scanning keys', async () => {
+      mockRedis.get.mockResolvedValue('user-1');
+      batch.exec.mockResolvedValue([1, 0, 0, 0]);
+
+      await expect(service.disconnect('socket-1')).resolves.toBe('user-1');
+      expect(mockRedis.get).toHaveBeenCalledWith('socket:socket-1');
+      expect(batch.zRem).toHaveBeenCalledWith(
+        'presence:sockets:user-1',
+        'socket-1',
+      );
+    });
+
+    it('should keep the user online while another device is connected', async () => {
+      mockRedis.get.mockResolvedValue('user-1');
+      batch.exec.mockResolvedValue([1, 0, 1, 0]);
+
+      await expect(service.disconnect('socket-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('presence', () => {
+    it('should tell who is online and when others were last seen', async () => {
+      batch.exec.mockResolvedValue([2, 0, 0]);
+      mockRedis.hmGet.mockResolvedValue([
+        '1704110400000',
+        '1704106800000',
+        null,
+      ]);
+
+      await expect(
+        service.presence(['user-1', 'user-2', 'user-3']),
+      ).resolves.toEqual([
+        {
+          userId: 'user-1',
+          online: true,
+          lastSeenAt: new Date('2024-01-01T12:00:00Z'),
+        },
+        {
+          userId: 'user-2',
+          online: false,
+          lastSeenAt: new Date('2024-01-01T11:00:00Z'),
+        },
+        { userId: 'user-3', online: false, lastSeenAt: null },
+      ]);
+    });
+  });
+});
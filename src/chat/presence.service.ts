@@ -0,0 +1,106 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisClientType } from 'redis';
+
+export interface Presence {
+  userId: string;
+  online: boolean;
+  // Last connection, heartbeat or disconnection; null if never seen
+  lastSeenAt: Date | null;
+}
+
+const LAST_SEEN_KEY = 'presence:last-seen';
+
+// Sorted set of the user's sockets, scored by when each one expires
+const socketsKey = (userId: string) => `presence:sockets:${userId}`;
+const socketKey = (socketId: string) => `socket:${socketId}`;
+
+/**
+ * Who is online, in Redis. Every socket of a user, on any device and any app
+ * instance, is in the user's socket set until it disconnects or its
+ * heartbeats stop for PRESENCE_TTL_SECONDS; the user is online while one is
+ * left. socket:{id} points back to the user, so a disconnect finds its set
+ * without scanning keys. Sockets of a crashed instance expire by themselves.
+ */
+@Injectable()
+export class PresenceService {
+  readonly ttlSeconds: number;
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redisClient: RedisClientType,
+    private configService: ConfigService,
+  ) {
+    this.ttlSeconds = Number(
+      this.configService.get('PRESENCE_TTL_SECONDS', 90),
+    );
+  }
+
+  // Returns whether the user was offline until now
+  async connect(userId: string, socketId: string): Promise<boolean> {
+    const now = Date.now();
+    const key = socketsKey(userId);
+    const [, before] = await this.redisClient
+      .multi()
+      .zRemRangeByScore(key, '-inf', now)
+      .zCard(key)
+      .zAdd(key, { score: now + this.ttlSeconds * 1000, value: socketId })
+      .expire(key, this.ttlSeconds)
+      .set(socketKey(socketId), userId, { EX: this.ttlSeconds })
+      .hSet(LAST_SEEN_KEY, userId, now)
+      .exec();
+    return before === 0;
+  }
+
+  // Keeps the socket online for another ttlSeconds
+  async heartbeat(userId: string, socketId: string): Promise<void> {
+    const now = Date.now();
+    const key = socketsKey(userId);
+    await this.redisClient
+      .multi()
+      .zAdd(key, { score: now + this.ttlSeconds * 1000, value: socketId })
+      .expire(key, this.ttlSeconds)
+      .set(socketKey(socketId), userId, { EX: this.ttlSeconds })
+      .hSet(LAST_SEEN_KEY, userId, now)
+      .exec();
+  }
+
+  /**
+   * Forgets the socket. Returns its user when that was their last socket, or
+   * null when they are still online elsewhere, or were already gone.
+   */
+  async disconnect(socketId: string): Promise<string | null> {
+    const userId = await this.redisClient.get(socketKey(socketId));
+    await this.redisClient.del(socketKey(socketId));
+    if (!userId) {
+      return null;
+    }
+    const now = Date.now();
+    const key = socketsKey(userId);
+    const [, , left] = await this.redisClient
+      .multi()
+      .zRem(key, socketId)
+      .zRemRangeByScore(key, '-inf', now)
+      .zCard(key)
+      .hSet(LAST_SEEN_KEY, userId, now)
+      .exec();
+    return left === 0 ? userId : null;
+  }
+
+  async presence(userIds: string[]): Promise<Presence[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    const now = Date.now();
+    const counts = this.redisClient.multi();
+    userIds.forEach((userId) => counts.zCount(socketsKey(userId), now, '+inf'));
+    const [sockets, lastSeen] = await Promise.all([
+      counts.exec(),
+      this.redisClient.hmGet(LAST_SEEN_KEY, userIds),
+    ]);
+    return userIds.map((userId, index) => ({
+      userId,
+      online: Number(sockets[index]) > 0,
+      lastSeenAt: lastSeen[index] ? new Date(Number(lastSeen[index])) : null,
+    }));
+  }
+}
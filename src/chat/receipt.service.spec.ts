@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ReceiptService, ReceiptStatus } from './receipt.service';
+import { ConversationService } from './conversation.service';
+import { Message } from '../entities/chat/chat.entity';
+import {
+  Conversation,
+  ConversationKind,
+} from '../entities/chat/conversation.entity';
+import { ConversationReceipt } from '../entities/chat/conversation-receipt.entity';
+
+describe('ReceiptService', () => {
+  let service: ReceiptService;
+
+  // Chain returned by the model queries: sort/select/lean/orFail then exec
+  const queryResolving = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    orFail: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockReceiptModel = {
+    bulkWrite: jest.fn(),
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockMessageModel = {
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+
+  const mockConversationService = {
+    findForParticipant: jest.fn(),
+  };
+
+  const alice = new Types.ObjectId();
+  const bob = new Types.ObjectId();
+  const carol = new Types.ObjectId();
+  const conversation = {
+    _id: new Types.ObjectId(),
+    kind: ConversationKind.Group,
+    participants: [alice, bob, carol],
+    admins: [alice],
+    lastMessageAt: new Date('2024-01-01T12:00:00Z'),
+  } as Conversation;
+  const message = {
+    _id: new Types.ObjectId(),
+    conversation: conversation._id,
+    sender: alice,
+    message_text: 'Hi all',
+    createdAt: new Date('2024-01-01T12:05:00Z'),
+  } as Message;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockConversationService.findForParticipant.mockResolvedValue(conversation);
+    mockReceiptModel.find.mockReturnValue(queryResolving([]));
+    mockReceiptModel.updateOne.mockReturnValue(queryResolving({}));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReceiptService,
+        {
+          provide: getModelToken(ConversationReceipt.name),
+          useValue: mockReceiptModel,
+        },
+        { provide: getModelToken(Message.name), useValue: mockMessageModel },
+        { provide: ConversationService, useValue: mockConversationService },
+      ],
+    }).compile();
+
+    service = module.get<ReceiptService>(ReceiptService);
+  });
+
+  describe('recordSent', () => {
+    it('should count the message as unread for everyone but its sender', async () => {
+      await service.recordSent(conversation, message);
+
+      const [operations] = mockReceiptModel.bulkWrite.mock.calls[0] as [
+        { updateOne: { filter: { user: Types.ObjectId }; update: object } }[],
+      ];
+      const unreadFor = operations
+        .filter(({ updateOne }) => '$inc' in updateOne.update)
+        .map(({ updateOne }) => updateOne.filter.user);
+      expect(unreadFor).toEqual([bob, carol]);
+    });
+  });
+
+  describe('markDelivered', () => {
+    it('should report nothing when the message was delivered before', async () => {
+      mockMessageModel.findById.mockReturnValue(queryResolving(message));
+      mockReceiptModel.findOneAndUpdate.mockReturnValue(
+        queryResolving({ deliveredAt: new Date('2024-01-01T12:10:00Z') }),
+      );
+
+      await expect(
+        service.markDelivered(bob.toString(), message._id.toString()),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('markRead', () => {
+    it('should take the messages just read off the unread count', async () => {
+      mockMessageModel.findOne.mockReturnValue(queryResolving(message));
+      mockReceiptModel.findOneAndUpdate.mockReturnValue(
+        queryResolving({
+          unread: 3,
+          readAt: conversation.lastMessageAt,
+        }),
+      );
+      mockMessageModel.countDocuments.mockReturnValue(queryResolving(2));
+      mockReceiptModel.find.mockReturnValue(
+        queryResolving([{ conversation: conversation._id, unread: 1 }]),
+      );
+
+      const { receipt, unread } = await service.markRead(
+        bob.toString(),
+        conversation._id.toString(),
+      );
+
+      expect(mockReceiptModel.updateOne).toHaveBeenCalledWith(
+        { conversation: conversation._id, user: bob },
+        [{ $set: { unread: { $max: [0, { $subtract: ['$unread', 2] }] } } }],
+      );
+      expect(receipt).toEqual(
+        expect.objectContaining({
+          status: ReceiptStatus.Read,
+          messageId: message._id,
+        }),
+      );
+      expect(unread).toEqual({
+        conversationId: conversation._id,
+        unread: 1,
+        total: 1,
+      });
+    });
+  });
+
+  describe('findForMessage', () => {
+    it('should tell the state of the message for each recipient', async () => {
+      mockMessageModel.findOne.mockReturnValue(queryResolving(message));
+      mockReceiptModel.find.mockReturnValue(
+        queryResolving([
+          {
+            user: bob,
+            deliveredAt: message.createdAt,
+            readAt: conversation.lastMessageAt,
+          },
+        ]),
+      );
+
+      await expect(
+        service.findForMessage(
+          conversation._id.toString(),
+          message._id.toString(),
+          alice.toString(),
+        ),
+      ).resolves.toEqual([
+        { userId: bob, delivered: true, read: false },
+        { userId: carol, delivered: false, read: false },
+      ]);
+    });
+  });
+});
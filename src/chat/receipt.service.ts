@@ -0,0 +1,281 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, Model, Types } from 'mongoose';
+import { Message, MessageDocument } from 'src/entities/chat/chat.entity';
+import { Conversation } from 'src/entities/chat/conversation.entity';
+import {
+  ConversationReceipt,
+  ConversationReceiptDocument,
+} from 'src/entities/chat/conversation-receipt.entity';
+import { RECENCY_SORT } from 'src/common/pagination/cursor';
+import { ConversationService } from './conversation.service';
+
+export enum ReceiptStatus {
+  Delivered = 'delivered',
+  Read = 'read',
+}
+
+// Sent live to a conversation when a participant gets further in it
+export interface ReceiptUpdate {
+  conversationId: Types.ObjectId;
+  userId: string;
+  status: ReceiptStatus;
+  messageId: Types.ObjectId;
+  // Every message sent at or before this has the status for the user
+  at: Date;
+}
+
+export interface UnreadCounts {
+  total: number;
+  // Only conversations with unread messages
+  conversations: { conversationId: Types.ObjectId; unread: number }[];
+}
+
+// Sent live to a user when their unread count changes
+export interface UnreadUpdate {
+  conversationId: Types.ObjectId;
+  unread: number;
+  total: number;
+}
+
+export interface MessageReceipt {
+  userId: Types.ObjectId;
+  delivered: boolean;
+  read: boolean;
+}
+
+type MessagePosition = Pick<
+  Message,
+  '_id' | 'conversation' | 'sender' | 'createdAt'
+>;
+
+@Injectable()
+export class ReceiptService {
+  constructor(
+    @InjectModel(ConversationReceipt.name)
+    private readonly receiptModel: Model<ConversationReceiptDocument>,
+    @InjectModel(Message.name)
+    private readonly messageModel: Model<MessageDocument>,
+    private readonly conversationService: ConversationService,
+  ) {}
+
+  /**
+   * Counts a new message as unread for everyone but its sender, who has read
+   * it. Participants without a receipt yet, like conversations older than
+   * receipts, start with everything before the message read.
+   *
+   * conversation is as it was before the message, for its lastMessageAt.
+   */
+  async recordSent(
+    conversation: Conversation,
+    message: Message,
+  ): Promise<void> {
+    const operations: AnyBulkWriteOperation<ConversationReceipt>[] =
+      conversation.participants.map((participant) => ({
+        updateOne: {
+          filter: { conversation: conversation._id, user: participant },
+          update: participant.equals(message.sender)
+            ? {
+                $max: {
+                  deliveredAt: message.createdAt,
+                  readAt: message.createdAt,
+                },
+              }
+            : {
+                $inc: { unread: 1 },
+                $setOnInsert: {
+                  deliveredAt: conversation.lastMessageAt,
+                  readAt: conversation.lastMessageAt,
+                },
+              },
+          upsert: true,
+        },
+      }));
+    await this.receiptModel.bulkWrite(operations, { ordered: false });
+  }
+
+  // Returns null when the message was delivered to the user already
+  async markDelivered(
+    userId: string,
+    messageId: string,
+  ): Promise<ReceiptUpdate | null> {
+    if (!Types.ObjectId.isValid(messageId)) {
+      throw new BadRequestException('Invalid message ID');
+    }
+    const message = await this.messageModel
+      .findById(messageId)
+      .select('conversation sender createdAt')
+      .lean<MessagePosition>()
+      .orFail(new NotFoundException('Message not found'))
+      .exec();
+    // Without a receipt the user is not a participant, or has no messages yet
+    const before = await this.receiptModel
+      .findOneAndUpdate(
+        {
+          conversation: message.conversation,
+          user: new Types.ObjectId(userId),
+        },
+        { $max: { deliveredAt: message.createdAt } },
+      )
+      .lean<ConversationReceipt>()
+      .exec();
+    if (!before || (before.deliveredAt ?? 0) >= message.createdAt) {
+      return null;
+    }
+    return this.receiptUpdate(userId, ReceiptStatus.Delivered, message);
+  }
+
+  /**
+   * Marks the conversation read up to messageId, or up to its newest message,
+   * which also marks it delivered. Reading back in time changes nothing.
+   */
+  async markRead(
+    userId: string,
+    conversationId: string,
+    messageId?: string,
+  ): Promise<{ receipt: ReceiptUpdate | null; unread: UnreadUpdate }> {
+    if (messageId !== undefined && !Types.ObjectId.isValid(messageId)) {
+      throw new BadRequestException('Invalid message ID');
+    }
+    const conversation = await this.conversationService.findForParticipant(
+      conversationId,
+      userId,
+    );
+    const user = new Types.ObjectId(userId);
+    const message = await this.messageModel
+      .findOne({
+        conversation: conversation._id,
+        ...(messageId && { _id: messageId }),
+      })
+      .sort(RECENCY_SORT)
+      .select('conversation sender createdAt')
+      .lean<MessagePosition>()
+      .exec();
+    if (!message && messageId) {
+      throw new NotFoundException('Message not found');
+    }
+
+    let receipt: ReceiptUpdate | null = null;
+    if (message) {
+      const before = await this.receiptModel
+        .findOneAndUpdate(
+          { conversation: conversation._id, user },
+          {
+            $max: { deliveredAt: message.createdAt, readAt: message.createdAt },
+          },
+          { upsert: true },
+        )
+        .lean<ConversationReceipt>()
+        .exec();
+      if (!before?.readAt || before.readAt < message.createdAt) {
+        // Taking off what was just read, rather than counting what is left,
+        // keeps messages arriving meanwhile counted
+        const read = await this.messageModel
+          .countDocuments({
+            conversation: conversation._id,
+            sender: { $ne: user },
+            createdAt: {
+              ...(before?.readAt && { $gt: before.readAt }),
+              $lte: message.createdAt,
+            },
+          })
+          .exec();
+        await this.receiptModel
+          .updateOne({ conversation: conversation._id, user }, [
+            {
+              $set: { unread: { $max: [0, { $subtract: ['$unread', read] }] } },
+            },
+          ])
+          .exec();
+        receipt = this.receiptUpdate(userId, ReceiptStatus.Read, message);
+      }
+    }
+    return {
+      receipt,
+      unread: await this.unreadUpdate(userId, conversation._id),
+    };
+  }
+
+  async unreadCounts(userId: string): Promise<UnreadCounts> {
+    const receipts = await this.receiptModel
+      .find({ user: new Types.ObjectId(userId), unread: { $gt: 0 } })
+      .select('conversation unread')
+      .lean<ConversationReceipt[]>()
+      .exec();
+    return {
+      total: receipts.reduce((total, receipt) => total + receipt.unread, 0),
+      conversations: receipts.map(({ conversation, unread }) => ({
+        conversationId: conversation,
+        unread,
+      })),
+    };
+  }
+
+  async unreadUpdate(
+    userId: string,
+    conversationId: Types.ObjectId,
+  ): Promise<UnreadUpdate> {
+    const { total, conversations } = await this.unreadCounts(userId);
+    const found = conversations.find((count) =>
+      count.conversationId.equals(conversationId),
+    );
+    return { conversationId, unread: found?.unread ?? 0, total };
+  }
+
+  // Where a message got to with each participant other than its sender
+  async findForMessage(
+    conversationId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<MessageReceipt[]> {
+    const conversation = await this.conversationService.findForParticipant(
+      conversationId,
+      userId,
+    );
+    if (!Types.ObjectId.isValid(messageId)) {
+      throw new BadRequestException('Invalid message ID');
+    }
+    const message = await this.messageModel
+      .findOne({ _id: messageId, conversation: conversation._id })
+      .select('conversation sender createdAt')
+      .lean<MessagePosition>()
+      .orFail(new NotFoundException('Message not found'))
+      .exec();
+    const receipts = await this.receiptModel
+      .find({ conversation: conversation._id })
+      .lean<ConversationReceipt[]>()
+      .exec();
+    const byUser = new Map(
+      receipts.map((receipt) => [receipt.user.toString(), receipt]),
+    );
+
+    return conversation.participants
+      .filter((participant) => !participant.equals(message.sender))
+      .map((participant) => {
+        const receipt = byUser.get(participant.toString());
+        return {
+          userId: participant,
+          delivered: (receipt?.deliveredAt ?? 0) >= message.createdAt,
+          read: (receipt?.readAt ?? 0) >= message.createdAt,
+        };
+      });
+  }
+
+  private receiptUpdate(
+    userId: string,
+    status: ReceiptStatus,
+    message: MessagePosition,
+  ): ReceiptUpdate {
+    return {
+      conversationId: message.conversation,
+      userId,
+      status,
+      messageId: message._id,
+      at: message.createdAt,
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient } from 'redis';
+import { Server, ServerOptions } from 'socket.io';
+
+/**
+ * Socket.io over Redis pub/sub, so emitting to a room, joining sockets to it
+ * or fetching its sockets reaches every app instance, not just this one.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private adapterConstructor: ReturnType<typeof createAdapter>;
+
+  constructor(private readonly app: INestApplicationContext) {
+    super(app);
+  }
+
+  async connectToRedis(): Promise<void> {
+    const configService = this.app.get(ConfigService);
+    const pubClient = createClient({
+      socket: {
+        host: configService.get<string>('REDIS_HOST', 'localhost'),
+        port: configService.get<number>('REDIS_PORT', 6379),
+      },
+    });
+    const subClient = pubClient.duplicate();
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    server.adapter(this.adapterConstructor);
+    return server;
+  }
+}
@@ -0,0 +1,119 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  decodeCursor,
+  decodeOffsetCursor,
+  encodeCursor,
+  encodeOffsetCursor,
+  keysetBeforeFilter,
+  keysetCursor,
+  keysetFilter,
+  recencyFilter,
+  SortKey,
+  toKeysetPage,
+  toRecencyPage,
+} from './cursor';
+
+describe('decodeCursor', () => {
+  it('should reject cursors that are not JSON objects', () => {
+    for (const value of ['null', '42', '"text"', '[]']) {
+      expect(() =>
+        decodeCursor(Buffer.from(value).toString('base64url')),
+      ).toThrow(BadRequestException);
+    }
+  });
+
+  it('should round trip an object', () => {
+    expect(decodeCursor(encodeCursor({ offset: 3 }))).toEqual({ offset: 3 });
+  });
+});
+
+describe('recency cursors', () => {
+  const docs = [3, 2, 1].map((day) => ({
+    _id: new Types.ObjectId(),
+    createdAt: new Date(Date.UTC(2024, 0, day)),
+  }));
+
+  it('should return a cursor only when there are more results', () => {
+    expect(toRecencyPage(docs, 3).nextCursor).toBeNull();
+
+    const page = toRecencyPage(docs, 2);
+    expect(page.items).toEqual(docs.slice(0, 2));
+    expect(page.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('should filter after the last item of the page', () => {
+    const { nextCursor } = toRecencyPage(docs, 2);
+
+    expect(recencyFilter(nextCursor!)).toEqual({
+      $or: [
+        { createdAt: { $lt: docs[1].createdAt } },
+        { createdAt: docs[1].createdAt, _id: { $lt: docs[1]._id } },
+      ],
+    });
+  });
+
+  it('should not filter the first page', () => {
+    expect(recencyFilter()).toEqual({});
+  });
+
+  it('should reject cursors it did not make', () => {
+    expect(() => recencyFilter('not-a-cursor')).toThrow(BadRequestException);
+    expect(() =>
+      recencyFilter(Buffer.from('{"createdAt":"x"}').toString('base64url')),
+    ).toThrow(BadRequestException);
+  });
+});
+
+describe('keyset cursors', () => {
+  interface Ranked {
+    _id: Types.ObjectId;
+    createdAt: Date;
+    likes: number;
+  }
+  const byLikes: SortKey<Ranked> = { field: 'likes', type: 'number' };
+  const docs: Ranked[] = [9, 4, 4].map((likes) => ({
+    _id: new Types.ObjectId(),
+    createdAt: new Date(),
+    likes,
+  }));
+
+  it('should continue after the last item on the sorted field', () => {
+    const { nextCursor } = toKeysetPage(docs, byLikes, 2);
+
+    expect(keysetFilter(byLikes, nextCursor!)).toEqual({
+      $or: [{ likes: { $lt: 4 } }, { likes: 4, _id: { $lt: docs[1]._id } }],
+    });
+  });
+
+  it('should go back before a cursor pointing at any item', () => {
+    expect(keysetBeforeFilter(byLikes, keysetCursor(docs[1], byLikes))).toEqual(
+      {
+        $or: [{ likes: { $gt: 4 } }, { likes: 4, _id: { $gt: docs[1]._id } }],
+      },
+    );
+  });
+
+  it('should reject a cursor made for another sort', () => {
+    const { nextCursor } = toRecencyPage(docs, 2);
+
+    expect(() => keysetFilter(byLikes, nextCursor!)).toThrow(
+      BadRequestException,
+    );
+  });
+});
+
+describe('offset cursors', () => {
+  it('should round trip the offset', () => {
+    expect(decodeOffsetCursor(encodeOffsetCursor(40))).toBe(40);
+    expect(decodeOffsetCursor()).toBe(0);
+  });
+
+  it('should reject keyset cursors', () => {
+    const { nextCursor } = toRecencyPage(
+      [1, 2].map(() => ({ _id: new Types.ObjectId(), createdAt: new Date() })),
+      1,
+    );
+    expect(() => decodeOffsetCursor(nextCursor!)).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,171 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { DEFAULT_PAGE_SIZE, Page } from './pagination.dto';
+
+interface KeysetCursor {
+  field: string;
+  value: string | number;
+  id: string;
+}
+
+/**
+ * A descending sort on one field, with _id breaking ties so every document
+ * has a distinct position.
+ */
+export interface SortKey<T> {
+  field: keyof T & string;
+  // Dates travel in cursors as ISO strings
+  type: 'date' | 'number';
+}
+
+// Cursors are opaque to clients; the content may change between releases
+export function encodeCursor(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+export function decodeCursor<T>(cursor: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+  // Valid JSON still, like null or a number, but nothing a cursor encodes
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return value as T;
+}
+
+export const RECENCY_SORT = { createdAt: -1, _id: -1 } as const;
+
+export const RECENCY_KEY: SortKey<{ createdAt: Date }> = {
+  field: 'createdAt',
+  type: 'date',
+};
+
+export function keysetSort<T>(key: SortKey<T>): Record<string, -1> {
+  return { [key.field]: -1, _id: -1 };
+}
+
+// Where a cursor made for key points, for stores other than Mongo
+export function decodeKeysetCursor<T>(
+  key: SortKey<T>,
+  cursor: string,
+): { value: Date | number; id: Types.ObjectId } {
+  const { field, value, id } = decodeCursor<KeysetCursor>(cursor);
+  const position = key.type === 'date' ? new Date(value) : value;
+  if (
+    field !== key.field ||
+    !Types.ObjectId.isValid(id) ||
+    (position instanceof Date
+      ? Number.isNaN(position.getTime())
+      : typeof position !== 'number')
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return { value: position as Date | number, id: new Types.ObjectId(id) };
+}
+
+/**
+ * Keyset filter for results sorted by keysetSort(key), matching what comes
+ * after the cursor. Stable under inserts, unlike skip/limit. Cursors made for
+ * another sort are rejected.
+ */
+export function keysetFilter<T>(
+  key: SortKey<T>,
+  cursor?: string,
+): Record<string, unknown> {
+  if (!cursor) {
+    return {};
+  }
+  const { value, id } = decodeKeysetCursor(key, cursor);
+  return {
+    $or: [
+      { [key.field]: { $lt: value } },
+      { [key.field]: value, _id: { $lt: id } },
+    ],
+  };
+}
+
+/**
+ * The other way from keysetFilter: what comes before the cursor, for paging
+ * back towards the start. Sort with reverseKeysetSort(key) to get the nearest
+ * first.
+ */
+export function keysetBeforeFilter<T>(
+  key: SortKey<T>,
+  cursor: string,
+): Record<string, unknown> {
+  const { value, id } = decodeKeysetCursor(key, cursor);
+  return {
+    $or: [
+      { [key.field]: { $gt: value } },
+      { [key.field]: value, _id: { $gt: id } },
+    ],
+  };
+}
+
+export function reverseKeysetSort<T>(key: SortKey<T>): Record<string, 1> {
+  return { [key.field]: 1, _id: 1 };
+}
+
+// Cursor pointing at doc, in either direction
+export function keysetCursor<T extends { _id: Types.ObjectId }>(
+  doc: T,
+  key: SortKey<T>,
+): string {
+  const value = doc[key.field] as unknown;
+  const cursor: KeysetCursor = {
+    field: key.field,
+    value: value instanceof Date ? value.toISOString() : Number(value),
+    id: doc._id.toString(),
+  };
+  return encodeCursor(cursor);
+}
+
+/**
+ * Builds the page from up to limit + 1 documents; the extra one only tells
+ * whether there is a next page.
+ */
+export function toKeysetPage<T extends { _id: Types.ObjectId }>(
+  docs: T[],
+  key: SortKey<T>,
+  limit = DEFAULT_PAGE_SIZE,
+): Page<T> {
+  const items = docs.slice(0, limit);
+  const last = items[items.length - 1];
+  if (docs.length <= limit || !last) {
+    return { items, nextCursor: null };
+  }
+  return { items, nextCursor: keysetCursor(last, key) };
+}
+
+export function recencyFilter(cursor?: string): Record<string, unknown> {
+  return keysetFilter(RECENCY_KEY, cursor);
+}
+
+export function toRecencyPage<
+  T extends { _id: Types.ObjectId; createdAt: Date },
+>(docs: T[], limit = DEFAULT_PAGE_SIZE): Page<T> {
+  return toKeysetPage(docs, RECENCY_KEY, limit);
+}
+
+/**
+ * For results ranked by something that can't be filtered on, like search
+ * relevance, the cursor is the number of results already returned.
+ */
+export function encodeOffsetCursor(offset: number): string {
+  return encodeCursor({ offset });
+}
+
+export function decodeOffsetCursor(cursor?: string): number {
+  if (!cursor) {
+    return 0;
+  }
+  const { offset } = decodeCursor<{ offset: unknown }>(cursor);
+  if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return offset;
+}
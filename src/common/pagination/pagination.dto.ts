@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export class PaginationQueryDTO {
+  @ApiProperty({
+    required: false,
+    default: DEFAULT_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'nextCursor of the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+// Envelope for every paged listing
+export interface Page<T> {
+  items: T[];
+  // Null on the last page
+  nextCursor: string | null;
+}
@@ -0,0 +1,4 @@
+// For user input that ends up inside a regular expression
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
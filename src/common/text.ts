@@ -0,0 +1,9 @@
+// Lower case, without accents and with single spaces, for comparing what people type
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,73 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum Scope {
+  PostsRead = 'posts:read',
+  PostsWrite = 'posts:write',
+  ChatRead = 'chat:read',
+  ChatWrite = 'chat:write',
+  UsersRead = 'users:read',
+  UsersWrite = 'users:write',
+}
+
+export type ApiKeyDocument = ApiKey & Document;
+
+@Schema({ timestamps: true })
+export class ApiKey {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'Owner of the key', type: String })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  user: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Name given by the owner',
+    example: 'backup script',
+  })
+  @Prop({ required: true })
+  name: string;
+
+  @ApiProperty({
+    description: 'Public part of the key, to tell keys apart',
+    example: 'hs_3f9a1c2b',
+  })
+  @Prop({ required: true, unique: true })
+  prefix: string;
+
+  @Prop({ required: true, select: false })
+  keyHash: string;
+
+  @ApiProperty({ enum: Scope, isArray: true, example: [Scope.PostsWrite] })
+  @Prop({ type: [String], enum: Scope, default: [] })
+  scopes: Scope[];
+
+  @ApiProperty({ description: 'When the key stops working' })
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @ApiProperty({ description: 'Last time the key was used', required: false })
+  @Prop()
+  lastUsedAt?: Date;
+
+  @ApiProperty({ description: 'When the key was revoked', required: false })
+  @Prop()
+  revokedAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
+
+const hideKeyHash = (_doc: unknown, ret: Partial<ApiKey>) => {
+  delete ret.keyHash;
+  return ret;
+};
+
+ApiKeySchema.set('toJSON', { transform: hideKeyHash });
+ApiKeySchema.set('toObject', { transform: hideKeyHash });
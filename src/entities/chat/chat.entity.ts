@@ -8,11 +8,15 @@ export type MessageDocument = Message & Document;
 export class Message {
   _id: Types.ObjectId;
 
+  @Prop({ type: Types.ObjectId, ref: 'Conversation' })
+  conversation: Types.ObjectId;
+
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   sender: Types.ObjectId;
 
-  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
-  receiver: Types.ObjectId;
+  // Only set in direct conversations
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  receiver?: Types.ObjectId;
 
   @Prop({ required: true })
   message_text: string;
@@ -22,4 +26,8 @@ export class Message {
 }
 
 export const MessageSchema = SchemaFactory.createForClass(Message);
-  
\ No newline at end of file
+
+MessageSchema.index({ conversation: 1, createdAt: -1, _id: -1 });
+// Latest message per peer, in ChatService.findAllChatsByUser
+MessageSchema.index({ sender: 1, createdAt: -1 });
+MessageSchema.index({ receiver: 1, createdAt: -1 });
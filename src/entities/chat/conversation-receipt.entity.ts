@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ConversationReceiptDocument = ConversationReceipt & Document;
+
+/**
+ * How far one participant got in a conversation. Messages are delivered or
+ * read in order, so two timestamps stand for the state of every message: one
+ * sent at or before deliveredAt has been delivered, and likewise for readAt.
+ */
+@Schema({ timestamps: true })
+export class ConversationReceipt {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Conversation', required: true })
+  conversation: Types.ObjectId;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @ApiProperty({ description: 'Sent time of the last delivered message' })
+  @Prop()
+  deliveredAt?: Date;
+
+  @ApiProperty({ description: 'Sent time of the last read message' })
+  @Prop()
+  readAt?: Date;
+
+  @ApiProperty({ description: 'Messages from others sent after readAt' })
+  @Prop({ default: 0 })
+  unread: number;
+}
+
+export const ConversationReceiptSchema =
+  SchemaFactory.createForClass(ConversationReceipt);
+
+ConversationReceiptSchema.index({ conversation: 1, user: 1 }, { unique: true });
+// Unread counts of a user
+ConversationReceiptSchema.index({ user: 1, unread: 1 });
@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ConversationDocument = Conversation & Document;
+
+export enum ConversationKind {
+  // Two users, created by their first message
+  Direct = 'direct',
+  // Created explicitly, with a title and admins
+  Group = 'group',
+}
+
+@Schema({ timestamps: true })
+export class Conversation {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({ enum: ConversationKind })
+  @Prop({ type: String, enum: ConversationKind, required: true })
+  kind: ConversationKind;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  title?: string;
+
+  @ApiProperty({ type: [String] })
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], default: [] })
+  participants: Types.ObjectId[];
+
+  @ApiProperty({
+    type: [String],
+    description:
+      'Participants who can rename the group and add or remove people',
+  })
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], default: [] })
+  admins: Types.ObjectId[];
+
+  // The two participant ids, sorted; makes direct conversations unique
+  @Prop()
+  directKey?: string;
+
+  @ApiProperty({ type: String, required: false })
+  @Prop({ type: Types.ObjectId, ref: 'Message' })
+  lastMessage?: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'When the last message was sent, or creation time until then',
+  })
+  @Prop({ required: true })
+  lastMessageAt: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export const ConversationSchema = SchemaFactory.createForClass(Conversation);
+
+ConversationSchema.index(
+  { directKey: 1 },
+  { unique: true, partialFilterExpression: { directKey: { $exists: true } } },
+);
+// A user's conversations, most recently active first
+ConversationSchema.index({ participants: 1, lastMessageAt: -1, _id: -1 });
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CommentLikeDocument = CommentLike & Document;
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class CommentLike {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Comment', required: true })
+  comment: Types.ObjectId;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export const CommentLikeSchema = SchemaFactory.createForClass(CommentLike);
+
+CommentLikeSchema.index({ user: 1, comment: 1 }, { unique: true });
+CommentLikeSchema.index({ comment: 1 });
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CommentDocument = Comment & Document;
+
+@Schema({ timestamps: true })
+export class Comment {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Post', required: true })
+  post: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Comment this one replies to',
+    type: String,
+    required: false,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Comment', default: null })
+  parent: Types.ObjectId | null;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  author: Types.ObjectId;
+
+  @ApiProperty({ example: 'This is a comment' })
+  @Prop({ default: '' })
+  text: string;
+
+  @ApiProperty()
+  @Prop({ type: Number, default: 0 })
+  likes: number;
+
+  @ApiProperty({ description: 'Direct replies still shown' })
+  @Prop({ type: Number, default: 0 })
+  replyCount: number;
+
+  @ApiProperty({ required: false })
+  @Prop()
+  editedAt?: Date;
+
+  @ApiProperty({
+    description: 'Set when a comment with replies is deleted; its text is gone',
+    required: false,
+  })
+  @Prop()
+  deletedAt?: Date;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export const CommentSchema = SchemaFactory.createForClass(Comment);
+
+// Top level comments of a post and replies to a comment, newest first
+CommentSchema.index({ post: 1, parent: 1, createdAt: -1, _id: -1 });
@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LoginLockoutDocument = LoginLockout & Document;
+
+@Schema({ timestamps: true })
+export class LoginLockout {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Email address of the locked account',
+    example: 'ale@ale.com',
+  })
+  @Prop({ required: true, index: true })
+  email: string;
+
+  @ApiProperty({
+    description: 'IP address of the attempt that triggered the lockout',
+  })
+  @Prop()
+  ip: string;
+
+  @ApiProperty({ description: 'Failed attempts counted in the window' })
+  @Prop({ required: true })
+  failures: number;
+
+  @ApiProperty({ description: 'When the lockout ends on its own' })
+  @Prop({ required: true })
+  lockedUntil: Date;
+
+  @ApiProperty({
+    description: 'When an admin lifted the lockout',
+    required: false,
+  })
+  @Prop()
+  unlockedAt?: Date;
+
+  @ApiProperty({
+    description: 'Admin who lifted the lockout',
+    required: false,
+    type: String,
+  })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  unlockedBy?: Types.ObjectId;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export const LoginLockoutSchema = SchemaFactory.createForClass(LoginLockout);
@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type MediaDocument = Media & Document;
+
+export enum VariantName {
+  // Re-encoded upload, without metadata
+  Original = 'original',
+  Large = 'large',
+  Medium = 'medium',
+  Thumbnail = 'thumbnail',
+}
+
+@Schema({ _id: false })
+export class MediaVariant {
+  @ApiProperty({ enum: VariantName })
+  @Prop({ type: String, enum: VariantName, required: true })
+  name: VariantName;
+
+  // Storage key; clients use url
+  @Prop({ required: true })
+  key: string;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  url: string;
+
+  @ApiProperty({ example: 'image/jpeg' })
+  @Prop({ required: true })
+  mimeType: string;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  width: number;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  height: number;
+
+  @ApiProperty({ description: 'In bytes' })
+  @Prop({ required: true })
+  size: number;
+}
+
+export const MediaVariantSchema = SchemaFactory.createForClass(MediaVariant);
+
+@Schema({ timestamps: true })
+export class Media {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({ type: String, description: 'User who uploaded the file' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  owner: Types.ObjectId;
+
+  @ApiProperty({
+    example: 'image/jpeg',
+    description: 'Sniffed from the content',
+  })
+  @Prop({ required: true })
+  mimeType: string;
+
+  @ApiProperty({ description: 'Size of the upload in bytes' })
+  @Prop({ required: true })
+  size: number;
+
+  @ApiProperty({ type: [MediaVariant] })
+  @Prop({ type: [MediaVariantSchema], default: [] })
+  variants: MediaVariant[];
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export const MediaSchema = SchemaFactory.createForClass(Media);
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+// GeoJSON point, as 2dsphere indexes expect it
+@Schema({ _id: false })
+export class GeoPoint {
+  @ApiProperty({ enum: ['Point'] })
+  @Prop({ type: String, enum: ['Point'], required: true })
+  type: 'Point';
+
+  @ApiProperty({
+    description: 'Longitude then latitude',
+    example: [12.4964, 41.9028],
+    type: [Number],
+  })
+  @Prop({ type: [Number], required: true })
+  coordinates: [number, number];
+}
+
+export const GeoPointSchema = SchemaFactory.createForClass(GeoPoint);
+
+export function geoPoint(lat: number, lng: number): GeoPoint {
+  return { type: 'Point', coordinates: [lng, lat] };
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PostLikeDocument = PostLike & Document;
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class PostLike {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Post', required: true })
+  post: Types.ObjectId;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export const PostLikeSchema = SchemaFactory.createForClass(PostLike);
+
+// One like per user and post; also serves "did I like these posts"
+PostLikeSchema.index({ user: 1, post: 1 }, { unique: true });
+// Likers of a post, newest first
+PostLikeSchema.index({ post: 1, createdAt: -1, _id: -1 });
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PostRevisionDocument = PostRevision & Document;
+
+/**
+ * One version of the text of a published post. Revisions are only ever
+ * inserted: the first edit also records the text as it was published, so the
+ * latest revision always matches the post.
+ */
+@Schema()
+export class PostRevision {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Post', required: true })
+  post: Types.ObjectId;
+
+  @ApiProperty({ description: 'Starts at 1 for the text as published' })
+  @Prop({ required: true })
+  number: number;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  description: string;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  content: string;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  location: string;
+
+  @ApiProperty()
+  @Prop([{ type: String }])
+  tags: string[];
+
+  @ApiProperty({ type: String, description: 'Who wrote this version' })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  editor: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Set when this version restored an earlier one',
+    required: false,
+  })
+  @Prop()
+  restoredFrom?: number;
+
+  @ApiProperty()
+  @Prop({ required: true })
+  createdAt: Date;
+}
+
+export const PostRevisionSchema = SchemaFactory.createForClass(PostRevision);
+
+// Numbers are taken in order; two edits racing for one fail on this index
+PostRevisionSchema.index({ post: 1, number: 1 }, { unique: true });
+PostRevisionSchema.index({ post: 1, createdAt: -1, _id: -1 });
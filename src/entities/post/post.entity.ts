@@ -1,10 +1,18 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
-import { User } from '../users/users.entity';
+import { GeoPoint, GeoPointSchema } from './geo-point.entity';
 
 export type PostDocument = Post & Document;
 
+export enum PostStatus {
+  // Only visible to the author
+  Draft = 'draft',
+  // Published by PostScheduler at publishAt; until then like a draft
+  Scheduled = 'scheduled',
+  Published = 'published',
+}
+
 @Schema({ timestamps: true })
 export class Post {
   @ApiProperty()
@@ -18,6 +26,14 @@ export class Post {
   @Prop({ required: true })
   location: string;
 
+  @ApiProperty({
+    description: 'Where the post was made, given or looked up from location',
+    required: false,
+    type: GeoPoint,
+  })
+  @Prop({ type: GeoPointSchema })
+  point?: GeoPoint;
+
   @ApiProperty()
   @Prop({ required: true })
   content: string;
@@ -26,17 +42,9 @@ export class Post {
   @Prop({ type: Number, default: 0 })
   likes: number;
 
-  @ApiProperty()
-  @Prop([{
-    text: { type: String, required: true },
-    user: { type: Types.ObjectId, ref: 'User', required: true },
-    createdAt: { type: Date, default: Date.now }
-  }])
-  comments: Array<{
-    text: string;
-    user: Types.ObjectId;
-    createdAt: Date;
-  }>;
+  @ApiProperty({ description: 'Comments and replies still shown' })
+  @Prop({ type: Number, default: 0 })
+  commentCount: number;
 
   @ApiProperty()
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
@@ -46,8 +54,50 @@ export class Post {
   @Prop([{ type: String }])
   tags: string[];
 
+  @ApiProperty({ type: [String], description: 'Attached media, in display order' })
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Media' }], default: [] })
+  media: Types.ObjectId[];
+
+  @ApiProperty({ enum: PostStatus, default: PostStatus.Published })
+  @Prop({ type: String, enum: PostStatus, default: PostStatus.Published })
+  status: PostStatus;
+
+  @ApiProperty({ required: false, description: 'When a scheduled post goes public' })
+  @Prop()
+  publishAt?: Date;
+
+  @ApiProperty({
+    required: false,
+    description: 'When the text was last edited after publishing; see /posts/:id/revisions',
+  })
+  @Prop()
+  editedAt?: Date;
+
+  // For posts published later, the time they went public
   createdAt: Date;
   updatedAt: Date;
 }
 
-export const PostSchema = SchemaFactory.createForClass(Post); 
\ No newline at end of file
+export const PostSchema = SchemaFactory.createForClass(Post);
+
+// Listings sort by recency or likes, optionally within one user's posts
+PostSchema.index({ createdAt: -1, _id: -1 });
+PostSchema.index({ likes: -1, _id: -1 });
+PostSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+PostSchema.index({ tags: 1 });
+// Scheduled posts by due time, for PostScheduler
+PostSchema.index(
+  { publishAt: 1 },
+  { partialFilterExpression: { status: PostStatus.Scheduled } },
+);
+// Posts without a point are left out of the index
+PostSchema.index({ point: '2dsphere' });
+
+// Full-text search; matches in tags and the description count the most
+PostSchema.index(
+  { description: 'text', content: 'text', location: 'text', tags: 'text' },
+  {
+    name: 'post_text',
+    weights: { tags: 5, description: 3, location: 2, content: 1 },
+  },
+);
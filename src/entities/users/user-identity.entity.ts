@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type UserIdentityDocument = UserIdentity & Document;
+
+// An account at an external OpenID Connect provider linked to a user
+@Schema({ timestamps: true })
+export class UserIdentity {
+  @ApiProperty()
+  _id: Types.ObjectId;
+
+  @ApiProperty({ description: 'User the identity belongs to', type: String })
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  user: Types.ObjectId;
+
+  @ApiProperty({
+    description: 'Name of the configured provider',
+    example: 'google',
+  })
+  @Prop({ required: true })
+  provider: string;
+
+  @ApiProperty({ description: 'Subject identifier issued by the provider' })
+  @Prop({ required: true })
+  subject: string;
+
+  @ApiProperty({
+    description: 'Email address reported by the provider',
+    required: false,
+  })
+  @Prop()
+  email?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export const UserIdentitySchema = SchemaFactory.createForClass(UserIdentity);
+
+UserIdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+UserIdentitySchema.index({ user: 1, provider: 1 }, { unique: true });
@@ -56,6 +56,14 @@ export class User {
   @Prop({ required: true, unique: true })
   email: string;
 
+  @ApiProperty({ description: 'Whether the user confirmed their email address' })
+  @Prop({ default: false })
+  emailVerified: boolean;
+
+  @ApiProperty({ description: 'When the email address was confirmed', required: false })
+  @Prop()
+  emailVerifiedAt?: Date;
+
   @ApiProperty({ 
     description: 'User\'s username',
     example: '1234'
@@ -64,10 +72,26 @@ export class User {
   username: string;
 
   @ApiProperty({ 
-    description: 'User\'s password (hashed)'
+    description: 'User\'s password (hashed); missing for accounts created through a social login',
+    required: false
   })
-  @Prop({ required: true })
-  password: string;
+  @Prop({ select: false })
+  password?: string;
+
+  @ApiProperty({ description: 'Whether logins need a TOTP code' })
+  @Prop({ default: false })
+  twoFactorEnabled: boolean;
+
+  @Prop({ select: false })
+  twoFactorSecret?: string;
+
+  // Secret waiting for the first valid code before 2FA gets enabled
+  @Prop({ select: false })
+  twoFactorPendingSecret?: string;
+
+  // SHA-256 hashes of the unused recovery codes
+  @Prop({ type: [String], select: false, default: undefined })
+  twoFactorRecoveryCodes?: string[];
 
   @ApiProperty({ 
     description: 'URL to user\'s profile photo',
@@ -107,3 +131,15 @@ export class User {
 
 export const UserSchema = SchemaFactory.createForClass(User);
 
+// Never let credentials leave the service, even when a query selected them
+const hideSecrets = (_doc: unknown, ret: Partial<User>) => {
+  delete ret.password;
+  delete ret.twoFactorSecret;
+  delete ret.twoFactorPendingSecret;
+  delete ret.twoFactorRecoveryCodes;
+  return ret;
+};
+
+UserSchema.set('toJSON', { transform: hideSecrets });
+UserSchema.set('toObject', { transform: hideSecrets });
+
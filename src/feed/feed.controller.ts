@@ -0,0 +1,28 @@
+import { Controller, Get, Query, ValidationPipe } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+import { Scope } from '../entities/api-keys/api-key.entity';
+import { PaginationQueryDTO } from '../common/pagination/pagination.dto';
+import { PostService } from '../post/post.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../policies/policy';
+
+@Controller('feed')
+@ApiTags('Feed')
+@ApiBearerAuth()
+export class FeedController {
+  constructor(private readonly postService: PostService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Posts of the accounts you follow and your own, newest first',
+  })
+  @Scopes(Scope.PostsRead)
+  findFeed(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PaginationQueryDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.postService.findFeed(user.sub, query);
+  }
+}
@@ -0,0 +1,24 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Post, PostSchema } from '../entities/post/post.entity';
+import { User, UserSchema } from '../entities/users/users.entity';
+import { RedisModule } from '../redis/redis.module';
+import { PostModule } from '../post/post.module';
+import { FeedController } from './feed.controller';
+import { FeedService } from './feed.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Post.name, schema: PostSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    RedisModule,
+    // Posts publish into timelines; the feed is returned as post views
+    forwardRef(() => PostModule),
+  ],
+  controllers: [FeedController],
+  providers: [FeedService],
+  exports: [FeedService],
+})
+export class FeedModule {}
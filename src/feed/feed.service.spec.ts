@@ -0,0 +1,242 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { FeedService } from './feed.service';
+import { Post, PostStatus } from '../entities/post/post.entity';
+import { User } from '../entities/users/users.entity';
+import { toRecencyPage } from '../common/pagination/cursor';
+
+describe('FeedService', () => {
+  let service: FeedService;
+
+  // Sorted sets kept as id -> score, enough for the commands the feed uses
+  let timelines: Map<string, Map<string, number>>;
+  const mockRedis = {
+    exists: jest.fn((key: string) =>
+      Promise.resolve(timelines.has(key) ? 1 : 0),
+    ),
+    expire: jest.fn(),
+    del: jest.fn((key: string) =>
+      Promise.resolve(timelines.delete(key) ? 1 : 0),
+    ),
+    zAdd: jest.fn(
+      (key: string, members: { score: number; value: string }[]) => {
+        const timeline = timelines.get(key) ?? new Map<string, number>();
+        members.forEach(({ score, value }) => timeline.set(value, score));
+        timelines.set(key, timeline);
+        return Promise.resolve(members.length);
+      },
+    ),
+    zCount: jest.fn((key: string, min: number) =>
+      Promise.resolve(
+        [...(timelines.get(key)?.values() ?? [])].filter((s) => s === min)
+          .length,
+      ),
+    ),
+    zRange: jest.fn(
+      (
+        key: string,
+        max: number | string,
+        _min: string,
+        options: { LIMIT: { count: number } },
+      ) =>
+        Promise.resolve(
+          [...(timelines.get(key)?.entries() ?? [])]
+            .filter(([, score]) => max === '+inf' || score <= Number(max))
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, options.LIMIT.count)
+            .map(([id]) => id),
+        ),
+    ),
+    eval: jest.fn(
+      (
+        _script: string,
+        { keys, arguments: args }: { keys: string[]; arguments: string[] },
+      ) => {
+        keys
+          .filter((key) => timelines.has(key))
+          .forEach((key) => timelines.get(key)!.set(args[1], Number(args[0])));
+        return Promise.resolve(1);
+      },
+    ),
+    multi: jest.fn(() => {
+      const batch = {
+        zRem: (key: string, id: string) => {
+          timelines.get(key)?.delete(id);
+          return batch;
+        },
+        exec: () => Promise.resolve([]),
+      };
+      return batch;
+    }),
+  };
+
+  const query = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    populate: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    distinct: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+  const mockPostModel = { find: jest.fn() };
+  const mockUserModel = { findById: jest.fn(), find: jest.fn() };
+
+  const reader = new Types.ObjectId();
+  const author = new Types.ObjectId();
+  const popular = new Types.ObjectId();
+  const timeline = (userId: Types.ObjectId) =>
+    `feed:timeline:${userId.toString()}`;
+  const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute));
+  const post = (userId: Types.ObjectId, minute: number) => ({
+    _id: new Types.ObjectId(),
+    userId,
+    createdAt: at(minute),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    timelines = new Map();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeedService,
+        { provide: getModelToken(Post.name), useValue: mockPostModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: 'REDIS_CLIENT', useValue: mockRedis },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback: unknown) =>
+              key === 'FEED_FAN_OUT_LIMIT' ? 2 : fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FeedService>(FeedService);
+  });
+
+  describe('publish', () => {
+    it('should push to the author and followers with a timeline', async () => {
+      const follower = new Types.ObjectId();
+      const inactive = new Types.ObjectId();
+      timelines.set(timeline(follower), new Map());
+      mockUserModel.findById.mockReturnValue(
+        query({ followers: [follower, inactive] }),
+      );
+      const published = post(author, 1);
+
+      await service.publish(published);
+
+      expect(timelines.get(timeline(follower))).toEqual(
+        new Map([[published._id.toString(), at(1).getTime()]]),
+      );
+      expect(timelines.has(timeline(inactive))).toBe(false);
+      expect(mockRedis.eval).toHaveBeenCalledWith(expect.any(String), {
+        keys: [timeline(author), timeline(follower), timeline(inactive)],
+        arguments: [String(at(1).getTime()), published._id.toString(), '800'],
+      });
+    });
+
+    it('should not fan out posts of popular authors', async () => {
+      mockUserModel.findById.mockReturnValue(
+        query({ followers: [1, 2, 3].map(() => new Types.ObjectId()) }),
+      );
+
+      await service.publish(post(popular, 1));
+
+      expect(mockRedis.eval).toHaveBeenCalledWith(expect.any(String), {
+        keys: [timeline(popular)],
+        arguments: expect.any(Array),
+      });
+    });
+  });
+
+  describe('unpublish', () => {
+    it('should remove the post from the timelines it was pushed to', async () => {
+      const follower = new Types.ObjectId();
+      const removed = post(author, 1);
+      timelines.set(timeline(follower), new Map([[removed._id.toString(), 1]]));
+      mockUserModel.findById.mockReturnValue(query({ followers: [follower] }));
+
+      await service.unpublish(removed);
+
+      expect(timelines.get(timeline(follower))!.size).toBe(0);
+    });
+  });
+
+  describe('findPage', () => {
+    beforeEach(() => {
+      mockUserModel.findById.mockReturnValue(
+        query({ follows: [author, popular] }),
+      );
+      mockUserModel.find.mockReturnValue(query([popular]));
+    });
+
+    it('should rebuild a missing timeline from the pushed authors', async () => {
+      const pushed = [post(author, 2), post(reader, 1)];
+      mockPostModel.find
+        .mockReturnValueOnce(query(pushed))
+        .mockReturnValueOnce(query(pushed));
+
+      const page = await service.findPage(reader.toString(), {});
+
+      expect(mockPostModel.find).toHaveBeenNthCalledWith(1, {
+        userId: { $in: [reader, author] },
+        status: PostStatus.Published,
+      });
+      expect(timelines.get(timeline(reader))!.size).toBe(2);
+      expect(page).toEqual({ items: pushed, nextCursor: null });
+    });
+
+    it('should merge pushed ids with posts pulled from popular authors', async () => {
+      const older = post(author, 1);
+      const newer = post(author, 3);
+      timelines.set(
+        timeline(reader),
+        new Map([
+          [newer._id.toString(), at(3).getTime()],
+          [older._id.toString(), at(1).getTime()],
+        ]),
+      );
+      const { nextCursor } = toRecencyPage([newer, older], 1);
+      mockPostModel.find.mockReturnValue(query([older]));
+
+      await service.findPage(reader.toString(), {
+        limit: 1,
+        cursor: nextCursor!,
+      });
+
+      const [filter] = mockPostModel.find.mock.calls[0] as [
+        { status: PostStatus; $and: unknown[] },
+      ];
+      // Scheduled posts are pushed before they are marked published
+      expect(filter.status).toBe(PostStatus.Published);
+      expect(filter.$and[0]).toEqual({
+        $or: [
+          { _id: { $in: [newer._id, older._id] } },
+          { userId: { $in: [popular] } },
+        ],
+      });
+      expect(filter.$and[1]).toEqual({
+        $or: [
+          { createdAt: { $lt: at(3) } },
+          { createdAt: at(3), _id: { $lt: newer._id } },
+        ],
+      });
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should drop the timeline so the next read rebuilds it', async () => {
+      timelines.set(timeline(reader), new Map());
+
+      await service.invalidate(reader.toString());
+
+      expect(timelines.has(timeline(reader))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { RedisClientType } from 'redis';
+import { Post, PostDocument, PostStatus } from '../entities/post/post.entity';
+import { User, UserDocument } from '../entities/users/users.entity';
+import {
+  DEFAULT_PAGE_SIZE,
+  Page,
+  PaginationQueryDTO,
+} from '../common/pagination/pagination.dto';
+import {
+  decodeKeysetCursor,
+  RECENCY_KEY,
+  RECENCY_SORT,
+  recencyFilter,
+  toRecencyPage,
+} from '../common/pagination/cursor';
+import { POST_POPULATE } from '../post/post-populate';
+
+// What fan-out needs to know about a post
+export type PublishedPost = Pick<Post, '_id' | 'userId' | 'createdAt'>;
+
+// Adds the post only to timelines that exist; missing ones are rebuilt from
+// Mongo on the next read and would otherwise start out incomplete.
+const FAN_OUT_SCRIPT = `
+for _, key in ipairs(KEYS) do
+  if redis.call('EXISTS', key) == 1 then
+    redis.call('ZADD', key, ARGV[1], ARGV[2])
+    redis.call('ZREMRANGEBYRANK', key, 0, -tonumber(ARGV[3]) - 1)
+  end
+end
+return 1
+`;
+
+// Timelines written per script call
+const FAN_OUT_BATCH = 500;
+
+/**
+ * Home timelines. Posts are pushed into a Redis sorted set per reader when
+ * they are published (scored by createdAt), except for authors with more than
+ * FEED_FAN_OUT_LIMIT followers: their posts are pulled from Mongo when the
+ * feed is read. Timelines keep the latest FEED_TIMELINE_SIZE pushed posts and
+ * expire when their reader stops reading.
+ */
+@Injectable()
+export class FeedService {
+  private readonly timelineSize: number;
+  private readonly fanOutLimit: number;
+  private readonly ttlSeconds: number;
+
+  constructor(
+    @InjectModel(Post.name) private readonly postModel: Model<PostDocument>,
+    @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
+    @Inject('REDIS_CLIENT') private readonly redisClient: RedisClientType,
+    private configService: ConfigService,
+  ) {
+    this.timelineSize = Number(
+      this.configService.get('FEED_TIMELINE_SIZE', 800),
+    );
+    this.fanOutLimit = Number(
+      this.configService.get('FEED_FAN_OUT_LIMIT', 10000),
+    );
+    this.ttlSeconds = Number(
+      this.configService.get('FEED_TIMELINE_TTL', 60 * 60 * 24 * 7),
+    );
+  }
+
+  /**
+   * Posts of the accounts the user follows and of the user, newest first.
+   */
+  async findPage(
+    userId: string,
+    query: PaginationQueryDTO,
+  ): Promise<Page<Post>> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('follows')
+      .lean()
+      .exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    const pulled = await this.userModel
+      .find({ _id: { $in: user.follows }, ...this.popularFilter() })
+      .distinct('_id')
+      .exec();
+    const pushed = this.without(user.follows, pulled);
+
+    const key = this.timelineKey(userId);
+    if (!(await this.redisClient.exists(key))) {
+      await this.rebuild(userId, pushed);
+    }
+    await this.redisClient.expire(key, this.ttlSeconds);
+
+    // Posts sharing the cursor's score may sit either side of it
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    let max: number | string = '+inf';
+    let ties = 0;
+    if (query.cursor) {
+      const { value } = decodeKeysetCursor(RECENCY_KEY, query.cursor);
+      max = (value as Date).getTime();
+      ties = await this.redisClient.zCount(key, max, max);
+    }
+    const ids = await this.redisClient.zRange(key, max, '-inf', {
+      BY: 'SCORE',
+      REV: true,
+      LIMIT: { offset: 0, count: limit + 1 + ties },
+    });
+
+    const sources: Record<string, unknown>[] = [
+      { _id: { $in: ids.map((id) => new Types.ObjectId(id)) } },
+    ];
+    if (pulled.length > 0) {
+      sources.push({ userId: { $in: pulled } });
+    }
+    const posts = await this.postModel
+      .find({
+        status: PostStatus.Published,
+        $and: [{ $or: sources }, recencyFilter(query.cursor)],
+      })
+      .sort(RECENCY_SORT)
+      .limit(limit + 1)
+      .populate(POST_POPULATE)
+      .lean<Post[]>()
+      .exec();
+    return toRecencyPage(posts, limit);
+  }
+
+  async publish(post: PublishedPost): Promise<void> {
+    const keys = await this.readerKeys(post.userId);
+    const score = String(post.createdAt.getTime());
+    for (let i = 0; i < keys.length; i += FAN_OUT_BATCH) {
+      await this.redisClient.eval(FAN_OUT_SCRIPT, {
+        keys: keys.slice(i, i + FAN_OUT_BATCH),
+        arguments: [score, post._id.toString(), String(this.timelineSize)],
+      });
+    }
+  }
+
+  async unpublish(post: PublishedPost): Promise<void> {
+    const keys = await this.readerKeys(post.userId);
+    for (let i = 0; i < keys.length; i += FAN_OUT_BATCH) {
+      const batch = this.redisClient.multi();
+      keys
+        .slice(i, i + FAN_OUT_BATCH)
+        .forEach((key) => batch.zRem(key, post._id.toString()));
+      await batch.exec();
+    }
+  }
+
+  /**
+   * Drops the timeline after the user follows or unfollows someone. It is
+   * rebuilt with the new set of accounts on the next read.
+   */
+  async invalidate(userId: string): Promise<void> {
+    await this.redisClient.del(this.timelineKey(userId));
+  }
+
+  private async rebuild(
+    userId: string,
+    pushed: Types.ObjectId[],
+  ): Promise<void> {
+    const posts = await this.postModel
+      .find({
+        userId: { $in: [new Types.ObjectId(userId), ...pushed] },
+        status: PostStatus.Published,
+      })
+      .sort(RECENCY_SORT)
+      .limit(this.timelineSize)
+      .select('_id createdAt')
+      .lean()
+      .exec();
+    if (posts.length === 0) {
+      return;
+    }
+    await this.redisClient.zAdd(
+      this.timelineKey(userId),
+      posts.map((post) => ({
+        score: post.createdAt.getTime(),
+        value: post._id.toString(),
+      })),
+    );
+  }
+
+  // The author always sees their own posts; popular authors reach no one else
+  private async readerKeys(authorId: Types.ObjectId): Promise<string[]> {
+    const author = await this.userModel
+      .findById(authorId)
+      .select({ followers: { $slice: this.fanOutLimit + 1 } })
+      .lean()
+      .exec();
+    const followers =
+      author && author.followers.length <= this.fanOutLimit
+        ? author.followers
+        : [];
+    return [authorId, ...followers].map((id) =>
+      this.timelineKey(id.toString()),
+    );
+  }
+
+  // Matches users with more than fanOutLimit followers
+  private popularFilter(): Record<string, unknown> {
+    return { [`followers.${this.fanOutLimit}`]: { $exists: true } };
+  }
+
+  private without(
+    ids: Types.ObjectId[],
+    excluded: Types.ObjectId[],
+  ): Types.ObjectId[] {
+    const skip = new Set(excluded.map((id) => id.toString()));
+    return ids.filter((id) => !skip.has(id.toString()));
+  }
+
+  private timelineKey(userId: string): string {
+    return `feed:timeline:${userId}`;
+  }
+}
@@ -0,0 +1,30 @@
+import { GazetteerGeocoder } from './gazetteer.geocoder';
+
+describe('GazetteerGeocoder', () => {
+  const geocoder = new GazetteerGeocoder();
+
+  it('should find a city with or without its country', async () => {
+    const rome = { type: 'Point', coordinates: [12.4964, 41.9028] };
+
+    await expect(geocoder.geocode('Rome, Italy')).resolves.toEqual(rome);
+    await expect(geocoder.geocode('  roma ')).resolves.toEqual(rome);
+  });
+
+  it('should ignore case and accents', async () => {
+    await expect(geocoder.geocode('MUNCHEN')).resolves.toEqual({
+      type: 'Point',
+      coordinates: [11.582, 48.1351],
+    });
+  });
+
+  it('should skip parts it does not know', async () => {
+    await expect(
+      geocoder.geocode('Trastevere, Rome, Italy'),
+    ).resolves.not.toBeNull();
+  });
+
+  it('should not answer when the country disagrees or the place is unknown', async () => {
+    await expect(geocoder.geocode('Paris, Canada')).resolves.toBeNull();
+    await expect(geocoder.geocode('Atlantis')).resolves.toBeNull();
+  });
+});
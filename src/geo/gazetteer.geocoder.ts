@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { geoPoint, GeoPoint } from '../entities/post/geo-point.entity';
+import { Geocoder } from './geocoder';
+import { Place, PLACES } from './gazetteer';
+import { foldText } from '../common/text';
+
+/**
+ * Offline geocoder over a fixed list of cities. Understands "City" and
+ * "City, Country" written in any case, with or without accents.
+ */
+@Injectable()
+export class GazetteerGeocoder extends Geocoder {
+  private readonly byName = new Map<string, Place[]>();
+  private readonly countries = new Set<string>();
+
+  constructor() {
+    super();
+    for (const place of PLACES) {
+      this.countries.add(foldText(place.country));
+      for (const name of [place.name, ...(place.aliases ?? [])]) {
+        const key = foldText(name);
+        this.byName.set(key, [...(this.byName.get(key) ?? []), place]);
+      }
+    }
+  }
+
+  geocode(place: string): Promise<GeoPoint | null> {
+    const parts = place.split(',').map(foldText).filter(Boolean);
+    const countries = parts.filter((part) => this.countries.has(part));
+    for (const part of parts) {
+      // A named country must agree: "Paris, Canada" is not in France
+      const match = this.byName
+        .get(part)
+        ?.find(
+          (candidate) =>
+            countries.length === 0 ||
+            countries.includes(foldText(candidate.country)),
+        );
+      if (match) {
+        return Promise.resolve(geoPoint(match.lat, match.lng));
+      }
+    }
+    return Promise.resolve(null);
+  }
+}
@@ -0,0 +1,172 @@
+export interface Place {
+  name: string;
+  country: string;
+  lat: number;
+  lng: number;
+  // Other spellings people use, including the local name
+  aliases?: string[];
+}
+
+// Enough places to try the feature without calling out to a geocoding service
+export const PLACES: Place[] = [
+  {
+    name: 'Rome',
+    country: 'Italy',
+    lat: 41.9028,
+    lng: 12.4964,
+    aliases: ['Roma'],
+  },
+  {
+    name: 'Milan',
+    country: 'Italy',
+    lat: 45.4642,
+    lng: 9.19,
+    aliases: ['Milano'],
+  },
+  {
+    name: 'Naples',
+    country: 'Italy',
+    lat: 40.8518,
+    lng: 14.2681,
+    aliases: ['Napoli'],
+  },
+  {
+    name: 'Turin',
+    country: 'Italy',
+    lat: 45.0703,
+    lng: 7.6869,
+    aliases: ['Torino'],
+  },
+  {
+    name: 'Florence',
+    country: 'Italy',
+    lat: 43.7696,
+    lng: 11.2558,
+    aliases: ['Firenze'],
+  },
+  { name: 'Bologna', country: 'Italy', lat: 44.4949, lng: 11.3426 },
+  {
+    name: 'Venice',
+    country: 'Italy',
+    lat: 45.4408,
+    lng: 12.3155,
+    aliases: ['Venezia'],
+  },
+  {
+    name: 'Genoa',
+    country: 'Italy',
+    lat: 44.4056,
+    lng: 8.9463,
+    aliases: ['Genova'],
+  },
+  { name: 'Palermo', country: 'Italy', lat: 38.1157, lng: 13.3615 },
+  { name: 'Bari', country: 'Italy', lat: 41.1171, lng: 16.8719 },
+  { name: 'Catania', country: 'Italy', lat: 37.5079, lng: 15.083 },
+  { name: 'Verona', country: 'Italy', lat: 45.4384, lng: 10.9916 },
+  { name: 'Pisa', country: 'Italy', lat: 43.7228, lng: 10.4017 },
+  { name: 'Cagliari', country: 'Italy', lat: 39.2238, lng: 9.1217 },
+  { name: 'Paris', country: 'France', lat: 48.8566, lng: 2.3522 },
+  { name: 'Lyon', country: 'France', lat: 45.764, lng: 4.8357 },
+  { name: 'Marseille', country: 'France', lat: 43.2965, lng: 5.3698 },
+  { name: 'London', country: 'United Kingdom', lat: 51.5074, lng: -0.1278 },
+  { name: 'Manchester', country: 'United Kingdom', lat: 53.4808, lng: -2.2426 },
+  { name: 'Dublin', country: 'Ireland', lat: 53.3498, lng: -6.2603 },
+  { name: 'Madrid', country: 'Spain', lat: 40.4168, lng: -3.7038 },
+  { name: 'Barcelona', country: 'Spain', lat: 41.3874, lng: 2.1686 },
+  {
+    name: 'Lisbon',
+    country: 'Portugal',
+    lat: 38.7223,
+    lng: -9.1393,
+    aliases: ['Lisboa'],
+  },
+  { name: 'Berlin', country: 'Germany', lat: 52.52, lng: 13.405 },
+  {
+    name: 'Munich',
+    country: 'Germany',
+    lat: 48.1351,
+    lng: 11.582,
+    aliases: ['München', 'Muenchen'],
+  },
+  { name: 'Hamburg', country: 'Germany', lat: 53.5511, lng: 9.9937 },
+  {
+    name: 'Vienna',
+    country: 'Austria',
+    lat: 48.2082,
+    lng: 16.3738,
+    aliases: ['Wien'],
+  },
+  {
+    name: 'Zurich',
+    country: 'Switzerland',
+    lat: 47.3769,
+    lng: 8.5417,
+    aliases: ['Zürich'],
+  },
+  {
+    name: 'Geneva',
+    country: 'Switzerland',
+    lat: 46.2044,
+    lng: 6.1432,
+    aliases: ['Genève'],
+  },
+  { name: 'Amsterdam', country: 'Netherlands', lat: 52.3676, lng: 4.9041 },
+  {
+    name: 'Brussels',
+    country: 'Belgium',
+    lat: 50.8503,
+    lng: 4.3517,
+    aliases: ['Bruxelles'],
+  },
+  { name: 'Copenhagen', country: 'Denmark', lat: 55.6761, lng: 12.5683 },
+  { name: 'Stockholm', country: 'Sweden', lat: 59.3293, lng: 18.0686 },
+  { name: 'Oslo', country: 'Norway', lat: 59.9139, lng: 10.7522 },
+  { name: 'Helsinki', country: 'Finland', lat: 60.1699, lng: 24.9384 },
+  {
+    name: 'Warsaw',
+    country: 'Poland',
+    lat: 52.2297,
+    lng: 21.0122,
+    aliases: ['Warszawa'],
+  },
+  {
+    name: 'Prague',
+    country: 'Czech Republic',
+    lat: 50.0755,
+    lng: 14.4378,
+    aliases: ['Praha'],
+  },
+  { name: 'Budapest', country: 'Hungary', lat: 47.4979, lng: 19.0402 },
+  { name: 'Athens', country: 'Greece', lat: 37.9838, lng: 23.7275 },
+  { name: 'Istanbul', country: 'Turkey', lat: 41.0082, lng: 28.9784 },
+  {
+    name: 'New York',
+    country: 'United States',
+    lat: 40.7128,
+    lng: -74.006,
+    aliases: ['NYC'],
+  },
+  {
+    name: 'Los Angeles',
+    country: 'United States',
+    lat: 34.0522,
+    lng: -118.2437,
+  },
+  { name: 'Chicago', country: 'United States', lat: 41.8781, lng: -87.6298 },
+  {
+    name: 'San Francisco',
+    country: 'United States',
+    lat: 37.7749,
+    lng: -122.4194,
+  },
+  { name: 'Toronto', country: 'Canada', lat: 43.6532, lng: -79.3832 },
+  { name: 'Mexico City', country: 'Mexico', lat: 19.4326, lng: -99.1332 },
+  { name: 'São Paulo', country: 'Brazil', lat: -23.5505, lng: -46.6333 },
+  { name: 'Buenos Aires', country: 'Argentina', lat: -34.6037, lng: -58.3816 },
+  { name: 'Cairo', country: 'Egypt', lat: 30.0444, lng: 31.2357 },
+  { name: 'Tokyo', country: 'Japan', lat: 35.6762, lng: 139.6503 },
+  { name: 'Seoul', country: 'South Korea', lat: 37.5665, lng: 126.978 },
+  { name: 'Beijing', country: 'China', lat: 39.9042, lng: 116.4074 },
+  { name: 'Singapore', country: 'Singapore', lat: 1.3521, lng: 103.8198 },
+  { name: 'Sydney', country: 'Australia', lat: -33.8688, lng: 151.2093 },
+];
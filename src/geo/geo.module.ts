@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { Geocoder } from './geocoder';
+import { GazetteerGeocoder } from './gazetteer.geocoder';
+
+@Module({
+  // Swap useClass for a geocoding service client in production
+  providers: [{ provide: Geocoder, useClass: GazetteerGeocoder }],
+  exports: [Geocoder],
+})
+export class GeoModule {}
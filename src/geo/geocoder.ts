@@ -0,0 +1,9 @@
+import { GeoPoint } from '../entities/post/geo-point.entity';
+
+/**
+ * Turns a place written by a user, like "Rome, Italy", into a point.
+ * Implementations return null for places they don't know rather than guess.
+ */
+export abstract class Geocoder {
+  abstract geocode(place: string): Promise<GeoPoint | null>;
+}
@@ -0,0 +1,54 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HashingService } from './hashing.service';
+
+describe('HashingService', () => {
+  let service: HashingService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HashingService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(4) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<HashingService>(HashingService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should hash and verify a password', async () => {
+    const hash = await service.hash('password123');
+
+    expect(hash).not.toBe('password123');
+    expect(service.isHash(hash)).toBe(true);
+    await expect(service.verify('password123', hash)).resolves.toBe(true);
+    await expect(service.verify('wrong', hash)).resolves.toBe(false);
+  });
+
+  it('should verify legacy plaintext passwords and flag them for rehash', async () => {
+    await expect(service.verify('password123', 'password123')).resolves.toBe(
+      true,
+    );
+    await expect(service.verify('password124', 'password123')).resolves.toBe(
+      false,
+    );
+    expect(service.needsRehash('password123')).toBe(true);
+  });
+
+  it('should flag hashes made with a different cost', async () => {
+    const hash = await service.hash('password123');
+    expect(service.needsRehash(hash)).toBe(false);
+    expect(service.needsRehash(hash.replace('$04$', '$05$'))).toBe(true);
+  });
+
+  it('should reject empty stored values', async () => {
+    await expect(service.verify('', '')).resolves.toBe(false);
+  });
+});
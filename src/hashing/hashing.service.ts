@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcryptjs';
+import { createHash, timingSafeEqual } from 'crypto';
+
+const BCRYPT_HASH_PATTERN = /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/;
+
+@Injectable()
+export class HashingService {
+  private readonly rounds: number;
+
+  constructor(private configService: ConfigService) {
+    this.rounds = Number(this.configService.get('PASSWORD_HASH_ROUNDS', 12));
+  }
+
+  async hash(plain: string): Promise<string> {
+    return bcrypt.hash(plain, this.rounds);
+  }
+
+  /**
+   * Checks a password against a stored value. Rows written before passwords
+   * were hashed still hold the plaintext, so those are compared in constant
+   * time until they get re-hashed on the next successful login.
+   */
+  async verify(plain: string, stored: string | undefined): Promise<boolean> {
+    if (!stored) {
+      return false;
+    }
+    if (this.isHash(stored)) {
+      return bcrypt.compare(plain, stored);
+    }
+    const a = createHash('sha256').update(plain).digest();
+    const b = createHash('sha256').update(stored).digest();
+    return timingSafeEqual(a, b);
+  }
+
+  isHash(value: string): boolean {
+    return BCRYPT_HASH_PATTERN.test(value);
+  }
+
+  needsRehash(stored: string): boolean {
+    return !this.isHash(stored) || bcrypt.getRounds(stored) !== this.rounds;
+  }
+}
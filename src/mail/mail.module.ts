@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './mail.transport';
+import { ConsoleMailTransport } from './transports/console.transport';
+import { FileMailTransport } from './transports/file.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport = configService.get<string>(
+          'MAIL_TRANSPORT',
+          'console',
+        );
+        switch (transport) {
+          case 'console':
+            return new ConsoleMailTransport();
+          case 'file':
+            return new FileMailTransport(
+              configService.get<string>('MAIL_OUTBOX_DIR', 'outbox'),
+            );
+          default:
+            throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+        }
+      },
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,50 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './mail.transport';
+
+describe('MailService', () => {
+  let service: MailService;
+
+  const mockTransport = { send: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        { provide: MAIL_TRANSPORT, useValue: mockTransport },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback: string) =>
+              key === 'APP_URL' ? 'https://app.example.com' : fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MailService>(MailService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should send a password reset link to the user', async () => {
+    await service.sendPasswordReset(
+      { email: 'john.doe@example.com', name: 'John' },
+      'a.b.c',
+    );
+
+    expect(mockTransport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'john.doe@example.com',
+        text: expect.stringContaining(
+          'https://app.example.com/reset-password?token=a.b.c',
+        ),
+      }),
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailTransport } from './mail.transport';
+
+interface Recipient {
+  email: string;
+  name: string;
+}
+
+@Injectable()
+export class MailService {
+  private readonly from: string;
+  private readonly appUrl: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private configService: ConfigService,
+  ) {
+    this.from = this.configService.get<string>(
+      'MAIL_FROM',
+      'HomeServices <no-reply@localhost>',
+    );
+    this.appUrl = this.configService.get<string>(
+      'APP_URL',
+      'http://localhost:3000',
+    );
+  }
+
+  async sendEmailVerification(to: Recipient, token: string): Promise<void> {
+    const link = `${this.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+    await this.transport.send({
+      from: this.from,
+      to: to.email,
+      subject: 'Confirm your email address',
+      text: [
+        `Hi ${to.name},`,
+        '',
+        'Please confirm your email address by opening this link:',
+        link,
+        '',
+        "If you didn't create an account, you can ignore this message.",
+      ].join('\n'),
+    });
+  }
+
+  async sendPasswordReset(to: Recipient, token: string): Promise<void> {
+    const link = `${this.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    await this.transport.send({
+      from: this.from,
+      to: to.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${to.name},`,
+        '',
+        'Someone asked to reset the password of your account. To choose a new one, open this link:',
+        link,
+        '',
+        "If it wasn't you, you can ignore this message: your password stays the same.",
+      ].join('\n'),
+    });
+  }
+}
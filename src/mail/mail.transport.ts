@@ -0,0 +1,16 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers a rendered message. Production transports (SMTP, a provider API)
+ * implement this and get selected in MailModule.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,31 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from '../mail.transport';
+
+/**
+ * Development stand-in that writes every message as an .eml file into an
+ * outbox directory, so links can be opened from any mail client.
+ */
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger(FileMailTransport.name);
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+    const file = join(this.outboxDir, `${Date.now()}-${randomUUID()}.eml`);
+    const eml = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+    await writeFile(file, eml, 'utf8');
+    this.logger.log(`Mail to ${message.to} written to ${file}`);
+  }
+}
@@ -0,0 +1,23 @@
+import { JPEG, PNG, sniffImageType, WEBP } from './image-type';
+
+describe('sniffImageType', () => {
+  it('should recognize images by their first bytes', () => {
+    expect(sniffImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(JPEG);
+    expect(
+      sniffImageType(
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]),
+      ),
+    ).toBe(PNG);
+    expect(sniffImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'latin1'))).toBe(
+      WEBP,
+    );
+  });
+
+  it('should not trust anything else', () => {
+    expect(
+      sniffImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>')),
+    ).toBeNull();
+    expect(sniffImageType(Buffer.from('GIF89a'))).toBeNull();
+    expect(sniffImageType(Buffer.alloc(0))).toBeNull();
+  });
+});
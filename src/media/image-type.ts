@@ -0,0 +1,39 @@
+export interface ImageType {
+  mimeType: string;
+  extension: string;
+}
+
+export const JPEG: ImageType = { mimeType: 'image/jpeg', extension: 'jpg' };
+export const PNG: ImageType = { mimeType: 'image/png', extension: 'png' };
+export const WEBP: ImageType = { mimeType: 'image/webp', extension: 'webp' };
+
+/**
+ * The type of an image from its first bytes. The name and Content-Type sent
+ * with an upload are chosen by the client, so they are never trusted.
+ */
+export function sniffImageType(data: Buffer): ImageType | null {
+  if (
+    data.length >= 3 &&
+    data[0] === 0xff &&
+    data[1] === 0xd8 &&
+    data[2] === 0xff
+  ) {
+    return JPEG;
+  }
+  if (
+    data.length >= 8 &&
+    data
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return PNG;
+  }
+  if (
+    data.length >= 12 &&
+    data.toString('latin1', 0, 4) === 'RIFF' &&
+    data.toString('latin1', 8, 12) === 'WEBP'
+  ) {
+    return WEBP;
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+import * as sharp from 'sharp';
+import { VariantName } from '../entities/media/media.entity';
+import { ImageType, JPEG, PNG, WEBP } from './image-type';
+
+export interface RenderedVariant {
+  name: VariantName;
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Longest side in pixels; the thumbnail is cropped to a square
+const SIZES: Record<VariantName, number> = {
+  [VariantName.Original]: 2048,
+  [VariantName.Large]: 1280,
+  [VariantName.Medium]: 640,
+  [VariantName.Thumbnail]: 200,
+};
+
+// Stops images that are small on disk but huge once decoded
+const MAX_INPUT_PIXELS = 50_000_000;
+
+/**
+ * Decodes the upload once and renders every variant in its original format.
+ * sharp drops EXIF and other metadata unless asked to keep it; rotate() first
+ * applies the EXIF orientation so photos stay upright without it.
+ */
+export async function renderVariants(
+  data: Buffer,
+  type: ImageType,
+): Promise<RenderedVariant[]> {
+  const image = sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+  return Promise.all(
+    Object.values(VariantName).map(async (name) => {
+      const size = SIZES[name];
+      const resized =
+        name === VariantName.Thumbnail
+          ? image.clone().resize(size, size, { fit: 'cover' })
+          : image.clone().resize(size, size, {
+              fit: 'inside',
+              withoutEnlargement: true,
+            });
+      const { data: output, info } = await encode(resized, type).toBuffer({
+        resolveWithObject: true,
+      });
+      return { name, data: output, width: info.width, height: info.height };
+    }),
+  );
+}
+
+function encode(image: sharp.Sharp, type: ImageType): sharp.Sharp {
+  switch (type) {
+    case PNG:
+      return image.png();
+    case WEBP:
+      return image.webp({ quality: 82 });
+    case JPEG:
+    default:
+      return image.jpeg({ quality: 82, mozjpeg: true });
+  }
+}
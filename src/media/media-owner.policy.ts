@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AccessDeniedReason } from '../policies/access-denied.exception';
+import {
+  allow,
+  AuthenticatedUser,
+  deny,
+  isAdmin,
+  PolicyDecision,
+  PolicyHandler,
+} from '../policies/policy';
+import { MediaService } from './media.service';
+
+// For routes about the media given as :id
+@Injectable()
+export class MediaOwnerPolicy implements PolicyHandler {
+  constructor(private readonly mediaService: MediaService) {}
+
+  async handle(
+    user: AuthenticatedUser,
+    request: Request,
+  ): Promise<PolicyDecision> {
+    if (isAdmin(user)) {
+      return allow();
+    }
+    const ownerId = await this.mediaService.findOwnerId(request.params.id);
+    if (ownerId === user.sub) {
+      return allow();
+    }
+    return deny(
+      AccessDeniedReason.NotOwner,
+      'Only the uploader or an admin can delete this media',
+    );
+  }
+}
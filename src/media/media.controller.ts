@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Public } from '../auth/decorators/public.decorators';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+import { Scope } from '../entities/api-keys/api-key.entity';
+import { CheckPolicies } from '../policies/check-policies.decorator';
+import { JPEG, PNG, WEBP } from './image-type';
+import { MediaOwnerPolicy } from './media-owner.policy';
+import { MediaService } from './media.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../policies/policy';
+
+const CONTENT_TYPES: Record<string, string> = {
+  [JPEG.extension]: JPEG.mimeType,
+  [PNG.extension]: PNG.mimeType,
+  [WEBP.extension]: WEBP.mimeType,
+};
+
+// Multipart body with one image in the "file" field
+export const IMAGE_UPLOAD_BODY = {
+  schema: {
+    type: 'object',
+    properties: { file: { type: 'string', format: 'binary' } },
+  },
+};
+
+@Controller('media')
+@ApiTags('Media')
+@ApiBearerAuth()
+export class MediaController {
+  constructor(private readonly mediaService: MediaService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Upload an image to attach to posts' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(IMAGE_UPLOAD_BODY)
+  @ApiResponse({ status: 413, description: 'File too large.' })
+  @ApiResponse({ status: 415, description: 'Not a JPEG, PNG or WebP image.' })
+  @Scopes(Scope.PostsWrite)
+  @UseInterceptors(FileInterceptor('file'))
+  upload(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.mediaService.upload(user.sub, file);
+  }
+
+  @Get(':id')
+  @Public()
+  @ApiOperation({ summary: 'Get an uploaded image and its variants' })
+  findOne(@Param('id') id: string) {
+    return this.mediaService.findOne(id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an image and detach it from posts' })
+  @ApiResponse({ status: 403, description: 'Not the uploader or an admin.' })
+  @Scopes(Scope.PostsWrite)
+  @CheckPolicies(MediaOwnerPolicy)
+  remove(@Param('id') id: string) {
+    return this.mediaService.delete(id);
+  }
+
+  // Only used by the local storage driver; other drivers serve their own URLs
+  @Get('files/:key')
+  @Public()
+  @ApiOperation({ summary: 'Download a stored file' })
+  async download(@Param('key') key: string) {
+    const file = await this.mediaService.openFile(key);
+    const extension = key.slice(key.lastIndexOf('.') + 1);
+    return new StreamableFile(file, {
+      type: CONTENT_TYPES[extension] ?? 'application/octet-stream',
+    });
+  }
+}
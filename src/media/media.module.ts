@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MulterModule } from '@nestjs/platform-express';
+import { Media, MediaSchema } from '../entities/media/media.entity';
+import { Post, PostSchema } from '../entities/post/post.entity';
+import { StorageModule } from '../storage/storage.module';
+import { MediaController } from './media.controller';
+import { MediaOwnerPolicy } from './media-owner.policy';
+import { MediaService } from './media.service';
+
+// Shared by every module with an upload endpoint; files stay in memory
+const UploadLimits = MulterModule.registerAsync({
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService) => ({
+    limits: {
+      fileSize: Number(configService.get('MEDIA_MAX_BYTES', 10 * 1024 * 1024)),
+      files: 1,
+    },
+  }),
+});
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Media.name, schema: MediaSchema },
+      { name: Post.name, schema: PostSchema },
+    ]),
+    StorageModule,
+    UploadLimits,
+  ],
+  controllers: [MediaController],
+  providers: [MediaService, MediaOwnerPolicy],
+  exports: [MediaService, UploadLimits],
+})
+export class MediaModule {}
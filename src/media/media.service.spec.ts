@@ -0,0 +1,138 @@
+import {
+  BadRequestException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import * as sharp from 'sharp';
+import { Media, VariantName } from '../entities/media/media.entity';
+import { Post } from '../entities/post/post.entity';
+import { StorageDriver } from '../storage/storage.driver';
+import { MediaService } from './media.service';
+
+describe('MediaService', () => {
+  let service: MediaService;
+  const ownerId = new Types.ObjectId().toString();
+
+  const mockMediaModel = {
+    create: jest.fn(),
+    findById: jest.fn(),
+    countDocuments: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+
+  const mockPostModel = {
+    updateMany: jest.fn(),
+  };
+
+  const mockStorage = {
+    put: jest.fn(),
+    open: jest.fn(),
+    delete: jest.fn(),
+    url: jest.fn((key: string) => `http://localhost/media/files/${key}`),
+  };
+
+  // A 1200x800 photo carrying EXIF data
+  const photo = () =>
+    sharp({
+      create: { width: 1200, height: 800, channels: 3, background: '#4a7' },
+    })
+      .jpeg()
+      .withMetadata({ exif: { IFD0: { Artist: 'Someone' } } })
+      .toBuffer();
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockMediaModel.create.mockImplementation((fields: Media) =>
+      Promise.resolve({ toObject: () => fields }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MediaService,
+        { provide: getModelToken(Media.name), useValue: mockMediaModel },
+        { provide: getModelToken(Post.name), useValue: mockPostModel },
+        { provide: StorageDriver, useValue: mockStorage },
+      ],
+    }).compile();
+
+    service = module.get<MediaService>(MediaService);
+  });
+
+  describe('upload', () => {
+    it('should store every variant without metadata', async () => {
+      const data = await photo();
+
+      const media = await service.upload(ownerId, {
+        buffer: data,
+        size: data.length,
+      });
+
+      expect(media.mimeType).toBe('image/jpeg');
+      expect(
+        media.variants.map((variant) => [
+          variant.name,
+          variant.width,
+          variant.height,
+        ]),
+      ).toEqual([
+        [VariantName.Original, 1200, 800],
+        [VariantName.Large, 1200, 800],
+        [VariantName.Medium, 640, 427],
+        [VariantName.Thumbnail, 200, 200],
+      ]);
+      expect(mockStorage.put).toHaveBeenCalledTimes(4);
+      const [, stored] = mockStorage.put.mock.calls[0] as [string, Buffer];
+      expect((await sharp(stored).metadata()).exif).toBeUndefined();
+    });
+
+    it('should reject files that are not images whatever they claim to be', async () => {
+      const data = Buffer.from('<html><script>alert(1)</script></html>');
+
+      await expect(
+        service.upload(ownerId, { buffer: data, size: data.length }),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject images that cannot be decoded', async () => {
+      const data = Buffer.from([0xff, 0xd8, 0xff, 0x00, 0x01, 0x02]);
+
+      await expect(
+        service.upload(ownerId, { buffer: data, size: data.length }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should remove stored files when saving fails', async () => {
+      const data = await photo();
+      mockMediaModel.create.mockRejectedValue(new Error('write failed'));
+
+      await expect(
+        service.upload(ownerId, { buffer: data, size: data.length }),
+      ).rejects.toThrow('write failed');
+      expect(mockStorage.delete).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('assertOwned', () => {
+    it('should keep the order of the ids', async () => {
+      const ids = [new Types.ObjectId(), new Types.ObjectId()].map((id) =>
+        id.toString(),
+      );
+      mockMediaModel.countDocuments.mockResolvedValue(2);
+
+      const owned = await service.assertOwned([ids[1], ids[0]], ownerId);
+
+      expect(owned.map((id) => id.toString())).toEqual([ids[1], ids[0]]);
+    });
+
+    it('should reject media uploaded by someone else', async () => {
+      mockMediaModel.countDocuments.mockResolvedValue(0);
+
+      await expect(
+        service.assertOwned([new Types.ObjectId().toString()], ownerId),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Readable } from 'stream';
+import {
+  Media,
+  MediaDocument,
+  MediaVariant,
+  VariantName,
+} from '../entities/media/media.entity';
+import { Post, PostDocument } from '../entities/post/post.entity';
+import { StorageDriver } from '../storage/storage.driver';
+import { sniffImageType } from './image-type';
+import { renderVariants } from './image-variants';
+
+// What an upload endpoint needs from the multipart file
+export type UploadedImage = Pick<Express.Multer.File, 'buffer' | 'size'>;
+
+@Injectable()
+export class MediaService {
+  constructor(
+    @InjectModel(Media.name) private readonly mediaModel: Model<MediaDocument>,
+    @InjectModel(Post.name) private readonly postModel: Model<PostDocument>,
+    private readonly storage: StorageDriver,
+  ) {}
+
+  /**
+   * Stores an image and its resized variants. Nothing is kept when any step
+   * fails, so a failed upload can simply be retried.
+   */
+  async upload(ownerId: string, file?: UploadedImage): Promise<Media> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('No file was uploaded');
+    }
+    const type = sniffImageType(file.buffer);
+    if (!type) {
+      throw new UnsupportedMediaTypeException(
+        'Only JPEG, PNG and WebP images are accepted',
+      );
+    }
+
+    let rendered: Awaited<ReturnType<typeof renderVariants>>;
+    try {
+      rendered = await renderVariants(file.buffer, type);
+    } catch {
+      throw new BadRequestException('The image could not be read');
+    }
+
+    const id = new Types.ObjectId();
+    const variants: MediaVariant[] = [];
+    try {
+      for (const variant of rendered) {
+        const key = `${id.toString()}-${variant.name}.${type.extension}`;
+        await this.storage.put(key, variant.data, type.mimeType);
+        variants.push({
+          name: variant.name,
+          key,
+          url: this.storage.url(key),
+          mimeType: type.mimeType,
+          width: variant.width,
+          height: variant.height,
+          size: variant.data.length,
+        });
+      }
+      const media = await this.mediaModel.create({
+        _id: id,
+        owner: new Types.ObjectId(ownerId),
+        mimeType: type.mimeType,
+        size: file.size,
+        variants,
+      });
+      return media.toObject<Media>();
+    } catch (error) {
+      await this.deleteFiles(variants);
+      throw error;
+    }
+  }
+
+  async findOne(id: string): Promise<Media> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid media ID');
+    }
+    const media = await this.mediaModel.findById(id).lean<Media>().exec();
+    if (!media) {
+      throw new NotFoundException('Media not found');
+    }
+    return media;
+  }
+
+  async findOwnerId(id: string): Promise<string> {
+    return (await this.findOne(id)).owner.toString();
+  }
+
+  // Rejects ids that don't exist or belong to someone else
+  async assertOwned(ids: string[], ownerId: string): Promise<Types.ObjectId[]> {
+    const unique = [...new Set(ids)];
+    if (unique.some((id) => !Types.ObjectId.isValid(id))) {
+      throw new BadRequestException('Invalid media ID');
+    }
+    const owned = await this.mediaModel.countDocuments({
+      _id: { $in: unique },
+      owner: ownerId,
+    });
+    if (owned !== unique.length) {
+      throw new BadRequestException(
+        'Media must exist and be uploaded by the author of the post',
+      );
+    }
+    return ids.map((id) => new Types.ObjectId(id));
+  }
+
+  // The URL of one variant, for fields that hold a single image URL
+  variantUrl(media: Media, name: VariantName): string {
+    const variant =
+      media.variants.find((candidate) => candidate.name === name) ??
+      media.variants[0];
+    return variant.url;
+  }
+
+  async delete(id: string): Promise<void> {
+    const media = await this.findOne(id);
+    await this.postModel
+      .updateMany({ media: media._id }, { $pull: { media: media._id } })
+      .exec();
+    await this.mediaModel.deleteOne({ _id: media._id }).exec();
+    await this.deleteFiles(media.variants);
+  }
+
+  async openFile(key: string): Promise<Readable> {
+    const file = await this.storage.open(key);
+    if (!file) {
+      throw new NotFoundException('File not found');
+    }
+    return file;
+  }
+
+  private async deleteFiles(variants: MediaVariant[]): Promise<void> {
+    await Promise.all(
+      variants.map((variant) => this.storage.delete(variant.key)),
+    );
+  }
+}
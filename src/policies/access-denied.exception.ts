@@ -0,0 +1,18 @@
+import { ForbiddenException } from '@nestjs/common';
+
+export enum AccessDeniedReason {
+  MissingRole = 'missing_role',
+  MissingScope = 'missing_scope',
+  NotOwner = 'not_owner',
+  ForbiddenField = 'forbidden_field',
+}
+
+// 403 whose body says why, so clients can tell denials apart
+export class AccessDeniedException extends ForbiddenException {
+  constructor(
+    readonly reason: AccessDeniedReason,
+    message: string,
+  ) {
+    super({ statusCode: 403, error: 'Forbidden', message, reason });
+  }
+}
@@ -0,0 +1,7 @@
+import { SetMetadata, Type } from '@nestjs/common';
+import { PolicyHandler } from './policy';
+
+export const CHECK_POLICIES_KEY = 'checkPolicies';
+// All the policies must allow the request
+export const CheckPolicies = (...handlers: Type<PolicyHandler>[]) =>
+  SetMetadata(CHECK_POLICIES_KEY, handlers);
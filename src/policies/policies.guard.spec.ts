@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PoliciesGuard } from './policies.guard';
+import { SelfOrAdminPolicy } from './self-or-admin.policy';
+import { AccessDeniedException } from './access-denied.exception';
+import { RoleChangePolicy } from '../users/role-change.policy';
+import { MessageSenderPolicy } from '../chat/message-sender.policy';
+import { Role } from '../entities/users/users.entity';
+import { AuthenticatedUser } from './policy';
+
+describe('PoliciesGuard', () => {
+  let guard: PoliciesGuard;
+  let reflector: Reflector;
+
+  const alice: AuthenticatedUser = {
+    sub: 'alice',
+    email: 'alice@example.com',
+    role: Role.User,
+  };
+  const admin: AuthenticatedUser = {
+    sub: 'admin',
+    email: 'admin@example.com',
+    role: Role.Admin,
+  };
+
+  const contextFor = (request: object) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  const withPolicies = (...policies: unknown[]) =>
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(policies);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoliciesGuard,
+        SelfOrAdminPolicy,
+        RoleChangePolicy,
+        MessageSenderPolicy,
+      ],
+    }).compile();
+
+    guard = module.get<PoliciesGuard>(PoliciesGuard);
+    reflector = module.get<Reflector>(Reflector);
+  });
+
+  it('should allow routes without policies', async () => {
+    withPolicies();
+    await expect(guard.canActivate(contextFor({}))).resolves.toBe(true);
+  });
+
+  it('should require an authenticated user', async () => {
+    withPolicies(SelfOrAdminPolicy);
+    await expect(
+      guard.canActivate(contextFor({ params: { id: 'alice' } })),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  describe('SelfOrAdminPolicy', () => {
+    beforeEach(() => withPolicies(SelfOrAdminPolicy));
+
+    it('should allow the user and admins', async () => {
+      await expect(
+        guard.canActivate(contextFor({ user: alice, params: { id: 'alice' } })),
+      ).resolves.toBe(true);
+      await expect(
+        guard.canActivate(contextFor({ user: admin, params: { id: 'alice' } })),
+      ).resolves.toBe(true);
+    });
+
+    it('should deny other users with a reason', async () => {
+      const attempt = guard.canActivate(
+        contextFor({ user: alice, params: { userId: 'bob' } }),
+      );
+
+      await expect(attempt).rejects.toThrow(AccessDeniedException);
+      await expect(attempt).rejects.toMatchObject({
+        response: { statusCode: 403, reason: 'not_owner' },
+      });
+    });
+  });
+
+  describe('RoleChangePolicy', () => {
+    beforeEach(() => withPolicies(SelfOrAdminPolicy, RoleChangePolicy));
+
+    it('should let users update their profile', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor({
+            user: alice,
+            params: { id: 'alice' },
+            body: { bio: 'hi' },
+          }),
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it('should stop users from changing their own role', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor({
+            user: alice,
+            params: { id: 'alice' },
+            body: { role: Role.Admin },
+          }),
+        ),
+      ).rejects.toMatchObject({ reason: 'forbidden_field' });
+    });
+
+    it('should let admins change roles', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor({
+            user: admin,
+            params: { id: 'alice' },
+            body: { role: Role.Customer },
+          }),
+        ),
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('MessageSenderPolicy', () => {
+    beforeEach(() => withPolicies(MessageSenderPolicy));
+
+    it('should only allow sending as yourself', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor({ user: alice, body: { sender: 'alice' } }),
+        ),
+      ).resolves.toBe(true);
+      await expect(
+        guard.canActivate(
+          contextFor({ user: admin, body: { sender: 'alice' } }),
+        ),
+      ).rejects.toMatchObject({ reason: 'not_owner' });
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Type,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { CHECK_POLICIES_KEY } from './check-policies.decorator';
+import { AuthenticatedUser, PolicyHandler } from './policy';
+import { AccessDeniedException } from './access-denied.exception';
+
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private moduleRef: ModuleRef,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+    const handlers = this.reflector.getAllAndOverride<Type<PolicyHandler>[]>(
+      CHECK_POLICIES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!handlers?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = request['user'] as AuthenticatedUser | undefined;
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    for (const handlerType of handlers) {
+      const handler = this.moduleRef.get(handlerType, { strict: false });
+      const decision = await handler.handle(user, request);
+      if (!decision.allowed) {
+        throw new AccessDeniedException(decision.reason, decision.message);
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+import { SelfOrAdminPolicy } from './self-or-admin.policy';
+
+// Policies shared by several modules; feature specific ones live with their module
+@Global()
+@Module({
+  providers: [SelfOrAdminPolicy],
+  exports: [SelfOrAdminPolicy],
+})
+export class PoliciesModule {}
@@ -0,0 +1,35 @@
+import { Request } from 'express';
+import { Role } from '../entities/users/users.entity';
+import { AccessDeniedReason } from './access-denied.exception';
+
+// The part of request.user that JWTs and API keys have in common
+export interface AuthenticatedUser {
+  sub: string;
+  email: string;
+  role: Role;
+}
+
+export type PolicyDecision =
+  | { allowed: true }
+  | { allowed: false; reason: AccessDeniedReason; message: string };
+
+/**
+ * A rule deciding whether the user may run the route. Handlers are providers,
+ * so they can inject services to load the resource they protect.
+ */
+export interface PolicyHandler {
+  handle(
+    user: AuthenticatedUser,
+    request: Request,
+  ): PolicyDecision | Promise<PolicyDecision>;
+}
+
+export const allow = (): PolicyDecision => ({ allowed: true });
+
+export const deny = (
+  reason: AccessDeniedReason,
+  message: string,
+): PolicyDecision => ({ allowed: false, reason, message });
+
+export const isAdmin = (user: AuthenticatedUser): boolean =>
+  user.role === Role.Admin;
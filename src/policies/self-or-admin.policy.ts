@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AccessDeniedReason } from './access-denied.exception';
+import {
+  allow,
+  AuthenticatedUser,
+  deny,
+  isAdmin,
+  PolicyDecision,
+  PolicyHandler,
+} from './policy';
+
+// For routes about a user given as :id or :userId
+@Injectable()
+export class SelfOrAdminPolicy implements PolicyHandler {
+  handle(user: AuthenticatedUser, request: Request): PolicyDecision {
+    const userId = request.params.userId ?? request.params.id;
+    if (userId === user.sub || isAdmin(user)) {
+      return allow();
+    }
+    return deny(
+      AccessDeniedReason.NotOwner,
+      'Only the user or an admin can do this',
+    );
+  }
+}
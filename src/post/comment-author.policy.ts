@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AccessDeniedReason } from '../policies/access-denied.exception';
+import {
+  allow,
+  AuthenticatedUser,
+  deny,
+  PolicyDecision,
+  PolicyHandler,
+} from '../policies/policy';
+import { CommentService } from './comment.service';
+
+// The author and the author of the post can edit a comment; admins can't
+@Injectable()
+export class CommentAuthorPolicy implements PolicyHandler {
+  constructor(private readonly commentService: CommentService) {}
+
+  async handle(
+    user: AuthenticatedUser,
+    request: Request,
+  ): Promise<PolicyDecision> {
+    const { authorId, postOwnerId } = await this.commentService.findOwners(
+      request.params.id,
+    );
+    if (authorId === user.sub || postOwnerId === user.sub) {
+      return allow();
+    }
+    return deny(
+      AccessDeniedReason.NotOwner,
+      'Only the author or the author of the post can edit this comment',
+    );
+  }
+}
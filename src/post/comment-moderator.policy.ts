@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AccessDeniedReason } from '../policies/access-denied.exception';
+import {
+  allow,
+  AuthenticatedUser,
+  deny,
+  isAdmin,
+  PolicyDecision,
+  PolicyHandler,
+} from '../policies/policy';
+import { CommentService } from './comment.service';
+
+// The author, the author of the post and admins can remove a comment
+@Injectable()
+export class CommentModeratorPolicy implements PolicyHandler {
+  constructor(private readonly commentService: CommentService) {}
+
+  async handle(
+    user: AuthenticatedUser,
+    request: Request,
+  ): Promise<PolicyDecision> {
+    if (isAdmin(user)) {
+      return allow();
+    }
+    const { authorId, postOwnerId } = await this.commentService.findOwners(
+      request.params.id,
+    );
+    if (authorId === user.sub || postOwnerId === user.sub) {
+      return allow();
+    }
+    return deny(
+      AccessDeniedReason.NotOwner,
+      'Only the author, the author of the post or an admin can delete this comment',
+    );
+  }
+}
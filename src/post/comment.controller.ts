@@ -0,0 +1,92 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Public } from 'src/auth/decorators/public.decorators';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+import { Scope } from '../entities/api-keys/api-key.entity';
+import { CheckPolicies } from '../policies/check-policies.decorator';
+import { PaginationQueryDTO } from '../common/pagination/pagination.dto';
+import { UpdateCommentDTO } from '../DTO/comment-dto';
+import { CommentService } from './comment.service';
+import { CommentAuthorPolicy } from './comment-author.policy';
+import { CommentModeratorPolicy } from './comment-moderator.policy';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../policies/policy';
+
+@Controller('comments')
+@ApiTags('Posts')
+@ApiBearerAuth()
+export class CommentController {
+  constructor(private readonly commentService: CommentService) {}
+
+  @Get(':id/replies')
+  @Public()
+  @ApiOperation({ summary: 'List the replies to a comment, newest first' })
+  findReplies(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PaginationQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.commentService.listReplies(id, query, user?.sub);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edit a comment' })
+  @ApiResponse({
+    status: 403,
+    description: 'Neither the author nor the author of the post.',
+  })
+  @Scopes(Scope.PostsWrite)
+  @CheckPolicies(CommentAuthorPolicy)
+  update(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true })) updateDto: UpdateCommentDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.commentService.update(id, updateDto.text, user.sub);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a comment' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not the author, the author of the post or an admin.',
+  })
+  @Scopes(Scope.PostsWrite)
+  @CheckPolicies(CommentModeratorPolicy)
+  remove(@Param('id') id: string) {
+    return this.commentService.delete(id);
+  }
+
+  @Post(':id/like')
+  @ApiOperation({ summary: 'Like a comment; liking it again changes nothing' })
+  @Scopes(Scope.PostsWrite)
+  addLike(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.commentService.addLike(id, user.sub);
+  }
+
+  @Delete(':id/like')
+  @ApiOperation({ summary: 'Remove your like from a comment' })
+  @Scopes(Scope.PostsWrite)
+  removeLike(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.commentService.removeLike(id, user.sub);
+  }
+}
@@ -0,0 +1,232 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { CommentService } from './comment.service';
+import { Comment } from '../entities/comment/comment.entity';
+import { CommentLike } from '../entities/comment/comment-like.entity';
+import { Post, PostStatus } from '../entities/post/post.entity';
+
+describe('CommentService', () => {
+  let service: CommentService;
+
+  // Chain returned by find/findById: populate/select/lean then exec
+  const queryResolving = (value: unknown) => ({
+    populate: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+  const done = (value: unknown = {}) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockCommentModel = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    deleteOne: jest.fn(),
+    countDocuments: jest.fn(),
+    collection: { name: 'comments', insertMany: jest.fn() },
+  };
+  const mockCommentLikeModel = {
+    find: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+  const mockPostModel = {
+    exists: jest.fn(),
+    updateOne: jest.fn(),
+    collection: { find: jest.fn(), updateOne: jest.fn() },
+  };
+
+  const postId = new Types.ObjectId();
+  const authorId = new Types.ObjectId();
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPostModel.exists.mockResolvedValue({ _id: postId });
+    mockPostModel.updateOne.mockReturnValue(done());
+    mockCommentModel.updateOne.mockReturnValue(done());
+    mockCommentModel.deleteOne.mockReturnValue(done());
+    mockCommentLikeModel.deleteMany.mockReturnValue(done());
+    mockCommentLikeModel.find.mockReturnValue(queryResolving([]));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentService,
+        { provide: getModelToken(Comment.name), useValue: mockCommentModel },
+        {
+          provide: getModelToken(CommentLike.name),
+          useValue: mockCommentLikeModel,
+        },
+        { provide: getModelToken(Post.name), useValue: mockPostModel },
+      ],
+    }).compile();
+
+    service = module.get<CommentService>(CommentService);
+  });
+
+  describe('create', () => {
+    it('should count a reply on the post and on its parent', async () => {
+      const parentId = new Types.ObjectId();
+      const commentId = new Types.ObjectId();
+      mockCommentModel.findOne.mockReturnValue(
+        queryResolving({ _id: parentId }),
+      );
+      mockCommentModel.create.mockResolvedValue({ _id: commentId });
+      mockCommentModel.findById.mockReturnValue(
+        queryResolving({ _id: commentId, parent: parentId, text: 'hi' }),
+      );
+
+      const result = await service.create(
+        postId.toString(),
+        authorId.toString(),
+        { text: 'hi', parentId: parentId.toString() },
+      );
+
+      expect(mockCommentModel.create).toHaveBeenCalledWith({
+        post: postId,
+        parent: parentId,
+        author: authorId,
+        text: 'hi',
+      });
+      expect(mockPostModel.updateOne).toHaveBeenCalledWith(
+        { _id: postId.toString() },
+        { $inc: { commentCount: 1 } },
+      );
+      expect(mockCommentModel.updateOne).toHaveBeenCalledWith(
+        { _id: parentId },
+        { $inc: { replyCount: 1 } },
+      );
+      expect(result.likedByMe).toBe(false);
+    });
+
+    it('should reject a parent from another post', async () => {
+      mockCommentModel.findOne.mockReturnValue(queryResolving(null));
+
+      await expect(
+        service.create(postId.toString(), authorId.toString(), {
+          text: 'hi',
+          parentId: new Types.ObjectId().toString(),
+        }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockCommentModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should hide drafts and scheduled posts of other authors', async () => {
+      mockPostModel.exists.mockResolvedValue(null);
+
+      await expect(
+        service.create(postId.toString(), authorId.toString(), { text: 'hi' }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPostModel.exists).toHaveBeenCalledWith({
+        _id: postId.toString(),
+        $or: [{ status: PostStatus.Published }, { userId: authorId }],
+      });
+      expect(mockCommentModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('should hide the comments of posts that are not published', async () => {
+      mockPostModel.exists.mockResolvedValue(null);
+
+      await expect(service.list(postId.toString(), null, {})).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPostModel.exists).toHaveBeenCalledWith({
+        _id: postId.toString(),
+        status: PostStatus.Published,
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should keep a comment with replies as a placeholder', async () => {
+      const id = new Types.ObjectId();
+      mockCommentModel.findById.mockReturnValue(
+        queryResolving({ _id: id, post: postId, parent: null, replyCount: 2 }),
+      );
+
+      await service.delete(id.toString());
+
+      expect(mockCommentModel.updateOne).toHaveBeenCalledWith(
+        { _id: id },
+        { text: '', deletedAt: expect.any(Date) },
+      );
+      expect(mockCommentModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should remove placeholders left without replies', async () => {
+      const parentId = new Types.ObjectId();
+      const id = new Types.ObjectId();
+      mockCommentModel.findById.mockReturnValue(
+        queryResolving({
+          _id: id,
+          post: postId,
+          parent: parentId,
+          replyCount: 0,
+        }),
+      );
+      mockCommentModel.findOneAndUpdate.mockReturnValue(
+        queryResolving({
+          _id: parentId,
+          parent: null,
+          replyCount: 0,
+          deletedAt: new Date(),
+        }),
+      );
+
+      await service.delete(id.toString());
+
+      expect(mockCommentModel.deleteOne).toHaveBeenCalledWith({ _id: id });
+      expect(mockCommentModel.deleteOne).toHaveBeenCalledWith({
+        _id: parentId,
+      });
+      expect(mockPostModel.updateOne).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('migrateEmbeddedComments', () => {
+    it('should move embedded comments and keep their ids', async () => {
+      const embeddedId = new Types.ObjectId();
+      // for await also walks a plain array, standing in for the cursor
+      mockPostModel.collection.find.mockReturnValue([
+        {
+          _id: postId,
+          comments: [
+            {
+              _id: embeddedId,
+              text: 'old',
+              user: authorId,
+              createdAt: new Date(0),
+            },
+          ],
+        },
+      ]);
+      mockCommentModel.collection.insertMany.mockRejectedValue({
+        code: 11000,
+      });
+      mockCommentModel.countDocuments.mockResolvedValue(1);
+
+      await expect(service.migrateEmbeddedComments()).resolves.toBe(1);
+
+      expect(mockCommentModel.collection.insertMany).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            _id: embeddedId,
+            post: postId,
+            author: authorId,
+          }),
+        ],
+        { ordered: false },
+      );
+      expect(mockPostModel.collection.updateOne).toHaveBeenCalledWith(
+        { _id: postId },
+        { $set: { commentCount: 1 }, $unset: { comments: '' } },
+      );
+    });
+  });
+});
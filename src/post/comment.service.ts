@@ -0,0 +1,436 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Comment, CommentDocument } from 'src/entities/comment/comment.entity';
+import {
+  CommentLike,
+  CommentLikeDocument,
+} from 'src/entities/comment/comment-like.entity';
+import { Post, PostDocument } from 'src/entities/post/post.entity';
+import { User } from 'src/entities/users/users.entity';
+import { CreateCommentDTO } from 'src/DTO/comment-dto';
+import {
+  DEFAULT_PAGE_SIZE,
+  Page,
+  PaginationQueryDTO,
+} from 'src/common/pagination/pagination.dto';
+import {
+  RECENCY_SORT,
+  recencyFilter,
+  toRecencyPage,
+} from 'src/common/pagination/cursor';
+import { visibleTo } from 'src/post/post-visibility';
+
+export type CommentAuthor = Pick<
+  User,
+  '_id' | 'username' | 'name' | 'surname' | 'profilePhoto'
+>;
+
+// A comment as seen by one viewer
+export type CommentView = Omit<Comment, 'author'> & {
+  author: CommentAuthor | null;
+  likedByMe: boolean;
+};
+
+export const COMMENT_PREVIEW_SIZE = 3;
+const AUTHOR_FIELDS = 'username name surname profilePhoto';
+const DUPLICATE_KEY = 11000;
+
+interface EmbeddedComment {
+  _id?: Types.ObjectId;
+  text: string;
+  user: Types.ObjectId;
+  createdAt?: Date;
+}
+
+@Injectable()
+export class CommentService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(CommentService.name);
+
+  constructor(
+    @InjectModel(Comment.name)
+    private readonly commentModel: Model<CommentDocument>,
+    @InjectModel(CommentLike.name)
+    private readonly commentLikeModel: Model<CommentLikeDocument>,
+    @InjectModel(Post.name)
+    private readonly postModel: Model<PostDocument>,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const migrated = await this.migrateEmbeddedComments();
+    if (migrated > 0) {
+      this.logger.log(
+        `Moved the comments of ${migrated} posts to their own collection`,
+      );
+    }
+  }
+
+  async create(
+    postId: string,
+    authorId: string,
+    createDto: CreateCommentDTO,
+  ): Promise<CommentView> {
+    if (!Types.ObjectId.isValid(postId)) {
+      throw new BadRequestException('Invalid post ID');
+    }
+    if (
+      !(await this.postModel.exists({ _id: postId, ...visibleTo(authorId) }))
+    ) {
+      throw new NotFoundException('Post not found');
+    }
+
+    let parent: Types.ObjectId | null = null;
+    if (createDto.parentId) {
+      const parentComment = await this.commentModel
+        .findOne({
+          _id: createDto.parentId,
+          post: postId,
+          deletedAt: { $exists: false },
+        })
+        .select('_id')
+        .exec();
+      if (!parentComment) {
+        throw new NotFoundException('Parent comment not found');
+      }
+      parent = parentComment._id;
+    }
+
+    const comment = await this.commentModel.create({
+      post: new Types.ObjectId(postId),
+      parent,
+      author: new Types.ObjectId(authorId),
+      text: createDto.text,
+    });
+    await this.postModel
+      .updateOne({ _id: postId }, { $inc: { commentCount: 1 } })
+      .exec();
+    if (parent) {
+      await this.commentModel
+        .updateOne({ _id: parent }, { $inc: { replyCount: 1 } })
+        .exec();
+    }
+
+    return this.findOne(comment._id.toString(), authorId);
+  }
+
+  async findOne(id: string, viewerId?: string): Promise<CommentView> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid comment ID');
+    }
+    const comment = await this.commentModel
+      .findById(id)
+      .populate('author', AUTHOR_FIELDS)
+      .lean<Comment>()
+      .exec();
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+    const [view] = await this.withLikedByMe([comment], viewerId);
+    return view;
+  }
+
+  /**
+   * Top level comments of a post, or the replies to parentId. Deleted comments
+   * that still have replies are listed without their text.
+   */
+  async list(
+    postId: string,
+    parentId: string | null,
+    query: PaginationQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<CommentView>> {
+    if (!Types.ObjectId.isValid(postId)) {
+      throw new BadRequestException('Invalid post ID');
+    }
+    if (
+      !(await this.postModel.exists({ _id: postId, ...visibleTo(viewerId) }))
+    ) {
+      throw new NotFoundException('Post not found');
+    }
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const comments = await this.commentModel
+      .find({
+        post: postId,
+        parent: parentId ? new Types.ObjectId(parentId) : null,
+        ...recencyFilter(query.cursor),
+      })
+      .sort(RECENCY_SORT)
+      .limit(limit + 1)
+      .populate('author', AUTHOR_FIELDS)
+      .lean<Comment[]>()
+      .exec();
+
+    const page = toRecencyPage(comments, limit);
+    return {
+      ...page,
+      items: await this.withLikedByMe(page.items, viewerId),
+    };
+  }
+
+  async listReplies(
+    id: string,
+    query: PaginationQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<CommentView>> {
+    const comment = await this.findRaw(id);
+    return this.list(comment.post.toString(), id, query, viewerId);
+  }
+
+  // The latest top level comments of each post, in one round trip
+  async previews(
+    postIds: Types.ObjectId[],
+    viewerId?: string,
+  ): Promise<Map<string, CommentView[]>> {
+    const previews = new Map<string, CommentView[]>();
+    if (postIds.length === 0) {
+      return previews;
+    }
+
+    const rows = await this.postModel
+      .aggregate<{ _id: Types.ObjectId; comments: Comment[] }>([
+        { $match: { _id: { $in: postIds } } },
+        {
+          $lookup: {
+            from: this.commentModel.collection.name,
+            let: { postId: '$_id' },
+            pipeline: [
+              {
+                $match: {
+                  $expr: { $eq: ['$post', '$$postId'] },
+                  parent: null,
+                  deletedAt: { $exists: false },
+                },
+              },
+              { $sort: RECENCY_SORT },
+              { $limit: COMMENT_PREVIEW_SIZE },
+            ],
+            as: 'comments',
+          },
+        },
+        { $project: { comments: 1 } },
+      ])
+      .exec();
+
+    const comments = await this.commentModel.populate(
+      rows.flatMap((row) => row.comments),
+      { path: 'author', select: AUTHOR_FIELDS },
+    );
+    const views = await this.withLikedByMe(comments, viewerId);
+    for (const view of views) {
+      const key = view.post.toString();
+      previews.set(key, [...(previews.get(key) ?? []), view]);
+    }
+    return previews;
+  }
+
+  async update(
+    id: string,
+    text: string,
+    viewerId: string,
+  ): Promise<CommentView> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid comment ID');
+    }
+    const result = await this.commentModel
+      .updateOne(
+        { _id: id, deletedAt: { $exists: false } },
+        { text, editedAt: new Date() },
+      )
+      .exec();
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('Comment not found');
+    }
+    return this.findOne(id, viewerId);
+  }
+
+  /**
+   * Comments with replies become placeholders so the thread stays readable;
+   * others are removed, along with placeholders left without replies.
+   */
+  async delete(id: string): Promise<void> {
+    const comment = await this.findRaw(id);
+    if (comment.deletedAt) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    await this.postModel
+      .updateOne(
+        { _id: comment.post, commentCount: { $gt: 0 } },
+        { $inc: { commentCount: -1 } },
+      )
+      .exec();
+
+    if (comment.replyCount > 0) {
+      await this.commentModel
+        .updateOne({ _id: comment._id }, { text: '', deletedAt: new Date() })
+        .exec();
+      await this.commentLikeModel.deleteMany({ comment: comment._id }).exec();
+      return;
+    }
+
+    let current: Comment | null = comment;
+    while (current) {
+      await this.commentModel.deleteOne({ _id: current._id }).exec();
+      await this.commentLikeModel.deleteMany({ comment: current._id }).exec();
+      if (!current.parent) {
+        break;
+      }
+      // Returns the parent as it is after losing this reply
+      const parent: Comment | null = await this.commentModel
+        .findOneAndUpdate(
+          { _id: current.parent },
+          { $inc: { replyCount: -1 } },
+          { new: true },
+        )
+        .lean<Comment>()
+        .exec();
+      current = parent?.deletedAt && parent.replyCount <= 0 ? parent : null;
+    }
+  }
+
+  async deleteForPost(postId: Types.ObjectId): Promise<void> {
+    const ids = await this.commentModel.find({ post: postId }).distinct('_id');
+    await this.commentLikeModel.deleteMany({ comment: { $in: ids } }).exec();
+    await this.commentModel.deleteMany({ post: postId }).exec();
+  }
+
+  async addLike(id: string, userId: string): Promise<CommentView> {
+    const comment = await this.findRaw(id);
+    if (comment.deletedAt) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    try {
+      await this.commentLikeModel.create({
+        comment: comment._id,
+        user: new Types.ObjectId(userId),
+      });
+      await this.commentModel
+        .updateOne({ _id: comment._id }, { $inc: { likes: 1 } })
+        .exec();
+    } catch (error) {
+      if (error?.code !== DUPLICATE_KEY) {
+        throw error;
+      }
+    }
+    return this.findOne(id, userId);
+  }
+
+  async removeLike(id: string, userId: string): Promise<CommentView> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid comment ID');
+    }
+    const result = await this.commentLikeModel
+      .deleteOne({ comment: id, user: userId })
+      .exec();
+    if (result.deletedCount === 1) {
+      await this.commentModel
+        .updateOne({ _id: id, likes: { $gt: 0 } }, { $inc: { likes: -1 } })
+        .exec();
+    }
+    return this.findOne(id, userId);
+  }
+
+  // Who may moderate the comment: its author and the author of the post
+  async findOwners(
+    id: string,
+  ): Promise<{ authorId: string; postOwnerId: string }> {
+    const comment = await this.findRaw(id);
+    const post = await this.postModel
+      .findById(comment.post)
+      .select('userId')
+      .lean()
+      .exec();
+    return {
+      authorId: comment.author.toString(),
+      postOwnerId: post?.userId.toString() ?? '',
+    };
+  }
+
+  /**
+   * Moves comments that older versions embedded in posts into the comments
+   * collection. Embedded ids are kept, so an interrupted run can be repeated.
+   */
+  async migrateEmbeddedComments(): Promise<number> {
+    const posts = this.postModel.collection.find<{
+      _id: Types.ObjectId;
+      createdAt?: Date;
+      comments: EmbeddedComment[];
+    }>({ 'comments.0': { $exists: true } });
+
+    let migrated = 0;
+    for await (const post of posts) {
+      const comments = post.comments.map((embedded) => ({
+        _id: embedded._id ?? new Types.ObjectId(),
+        post: post._id,
+        parent: null,
+        author: embedded.user,
+        text: embedded.text,
+        likes: 0,
+        replyCount: 0,
+        createdAt: embedded.createdAt ?? post.createdAt ?? new Date(),
+        updatedAt: embedded.createdAt ?? post.createdAt ?? new Date(),
+      }));
+      try {
+        await this.commentModel.collection.insertMany(comments, {
+          ordered: false,
+        });
+      } catch (error) {
+        if (error?.code !== DUPLICATE_KEY) {
+          throw error;
+        }
+      }
+
+      const commentCount = await this.commentModel.countDocuments({
+        post: post._id,
+        deletedAt: { $exists: false },
+      });
+      await this.postModel.collection.updateOne(
+        { _id: post._id },
+        { $set: { commentCount }, $unset: { comments: '' } },
+      );
+      migrated++;
+    }
+    return migrated;
+  }
+
+  private async findRaw(id: string): Promise<Comment> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid comment ID');
+    }
+    const comment = await this.commentModel.findById(id).lean<Comment>().exec();
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+    return comment;
+  }
+
+  private async withLikedByMe(
+    comments: Comment[],
+    viewerId?: string,
+  ): Promise<CommentView[]> {
+    const liked = new Set<string>();
+    if (viewerId && Types.ObjectId.isValid(viewerId) && comments.length > 0) {
+      const likes = await this.commentLikeModel
+        .find({
+          user: viewerId,
+          comment: { $in: comments.map((comment) => comment._id) },
+        })
+        .select('comment')
+        .lean()
+        .exec();
+      likes.forEach((like) => liked.add(like.comment.toString()));
+    }
+    return comments.map((comment) => ({
+      ...comment,
+      author: comment.author as unknown as CommentAuthor | null,
+      likedByMe: liked.has(comment._id.toString()),
+    }));
+  }
+}
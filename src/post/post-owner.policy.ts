@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AccessDeniedReason } from '../policies/access-denied.exception';
+import {
+  allow,
+  AuthenticatedUser,
+  deny,
+  isAdmin,
+  PolicyDecision,
+  PolicyHandler,
+} from '../policies/policy';
+import { PostService } from './post.service';
+
+// For routes about the post given as :id; a missing post is still a 404
+@Injectable()
+export class PostOwnerPolicy implements PolicyHandler {
+  constructor(private readonly postService: PostService) {}
+
+  async handle(
+    user: AuthenticatedUser,
+    request: Request,
+  ): Promise<PolicyDecision> {
+    if (isAdmin(user)) {
+      return allow();
+    }
+    const ownerId = await this.postService.findOwnerId(request.params.id);
+    if (ownerId === user.sub) {
+      return allow();
+    }
+    return deny(
+      AccessDeniedReason.NotOwner,
+      'Only the author or an admin can change this post',
+    );
+  }
+}
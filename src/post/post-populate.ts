@@ -0,0 +1,7 @@
+import { PopulateOptions } from 'mongoose';
+
+// What every post read fills in: the author and the attached media, in order
+export const POST_POPULATE: PopulateOptions[] = [
+  { path: 'userId', select: 'username email' },
+  { path: 'media', select: 'mimeType variants' },
+];
@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PostRevisionService, revisedChanges } from './post-revision.service';
+import { PostRevision } from '../entities/post/post-revision.entity';
+import { Post, PostStatus } from '../entities/post/post.entity';
+
+describe('PostRevisionService', () => {
+  let service: PostRevisionService;
+
+  // Chain returned by findOne: sort/select/lean then exec
+  const queryResolving = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockRevisionModel = {
+    findOne: jest.fn(),
+    insertMany: jest.fn(),
+  };
+
+  const authorId = new Types.ObjectId();
+  const editorId = new Types.ObjectId();
+  const post = {
+    _id: new Types.ObjectId(),
+    userId: authorId,
+    status: PostStatus.Published,
+    description: 'Test post',
+    content: 'Test content',
+    location: 'Test location',
+    tags: ['test'],
+    createdAt: new Date('2024-01-01'),
+  } as Post;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostRevisionService,
+        {
+          provide: getModelToken(PostRevision.name),
+          useValue: mockRevisionModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PostRevisionService>(PostRevisionService);
+  });
+
+  describe('record', () => {
+    it('should also keep the published text on the first edit', async () => {
+      mockRevisionModel.findOne.mockReturnValue(queryResolving(null));
+
+      await service.record(post, { content: 'Edited' }, editorId.toString());
+
+      const [revisions] = mockRevisionModel.insertMany.mock.calls[0] as [
+        PostRevision[],
+      ];
+      expect(revisions).toMatchObject([
+        {
+          number: 1,
+          content: 'Test content',
+          editor: authorId,
+          createdAt: post.createdAt,
+        },
+        {
+          number: 2,
+          content: 'Edited',
+          description: 'Test post',
+          editor: editorId,
+        },
+      ]);
+    });
+
+    it('should number later edits after the latest revision', async () => {
+      mockRevisionModel.findOne.mockReturnValue(queryResolving({ number: 4 }));
+
+      await service.record(post, { tags: [] }, editorId.toString(), 2);
+
+      expect(mockRevisionModel.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({ number: 5, tags: [], restoredFrom: 2 }),
+      ]);
+    });
+
+    it('should turn a lost race for a number into a conflict', async () => {
+      mockRevisionModel.findOne.mockReturnValue(queryResolving({ number: 1 }));
+      mockRevisionModel.insertMany.mockRejectedValue({ code: 11000 });
+
+      await expect(
+        service.record(post, { content: 'Edited' }, editorId.toString()),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('revisedChanges', () => {
+    it('should keep only the fields that differ', () => {
+      expect(
+        revisedChanges(post, {
+          description: 'Test post',
+          content: 'Edited',
+          tags: ['test'],
+        }),
+      ).toEqual({ content: 'Edited' });
+      expect(revisedChanges(post, { tags: ['test', 'more'] })).toEqual({
+        tags: ['test', 'more'],
+      });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  PostRevision,
+  PostRevisionDocument,
+} from 'src/entities/post/post-revision.entity';
+import { Post } from 'src/entities/post/post.entity';
+import { User } from 'src/entities/users/users.entity';
+import {
+  DEFAULT_PAGE_SIZE,
+  Page,
+  PaginationQueryDTO,
+} from 'src/common/pagination/pagination.dto';
+import {
+  RECENCY_SORT,
+  recencyFilter,
+  toRecencyPage,
+} from 'src/common/pagination/cursor';
+
+// The part of a post that revisions keep
+export type RevisedFields = Pick<
+  Post,
+  'description' | 'content' | 'location' | 'tags'
+>;
+
+export type PostRevisionView = Omit<PostRevision, 'editor'> & {
+  editor: Pick<
+    User,
+    '_id' | 'username' | 'name' | 'surname' | 'profilePhoto'
+  > | null;
+};
+
+const REVISED_FIELDS = ['description', 'content', 'location', 'tags'] as const;
+const EDITOR_FIELDS = 'username name surname profilePhoto';
+const DUPLICATE_KEY = 11000;
+
+export function revisedFields(source: RevisedFields): RevisedFields {
+  return {
+    description: source.description,
+    content: source.content,
+    location: source.location,
+    tags: source.tags ?? [],
+  };
+}
+
+// The revised fields of input that differ from the post
+export function revisedChanges(
+  post: RevisedFields,
+  input: Partial<RevisedFields>,
+): Partial<RevisedFields> {
+  const changes: Partial<Record<keyof RevisedFields, unknown>> = {};
+  for (const field of REVISED_FIELDS) {
+    const value = input[field];
+    if (
+      value !== undefined &&
+      JSON.stringify(value) !== JSON.stringify(post[field] ?? [])
+    ) {
+      changes[field] = value;
+    }
+  }
+  return changes as Partial<RevisedFields>;
+}
+
+@Injectable()
+export class PostRevisionService {
+  constructor(
+    @InjectModel(PostRevision.name)
+    private readonly revisionModel: Model<PostRevisionDocument>,
+  ) {}
+
+  /**
+   * Records the post with changes applied as its next revision, once the post
+   * itself has been updated. The update only matches the post as it was read,
+   * so racing edits are turned away before reaching here.
+   */
+  async record(
+    post: Post,
+    changes: Partial<RevisedFields>,
+    editorId: string,
+    restoredFrom?: number,
+  ): Promise<void> {
+    const latest = await this.revisionModel
+      .findOne({ post: post._id })
+      .sort({ number: -1 })
+      .select('number')
+      .lean()
+      .exec();
+
+    const revisions: PostRevision[] = [];
+    let number = latest?.number ?? 0;
+    if (!latest) {
+      revisions.push({
+        _id: new Types.ObjectId(),
+        post: post._id,
+        number: ++number,
+        ...revisedFields(post),
+        editor: post.userId,
+        createdAt: post.createdAt,
+      });
+    }
+    revisions.push({
+      _id: new Types.ObjectId(),
+      post: post._id,
+      number: ++number,
+      ...revisedFields({ ...post, ...changes }),
+      editor: new Types.ObjectId(editorId),
+      createdAt: new Date(),
+      ...(restoredFrom !== undefined && { restoredFrom }),
+    });
+
+    try {
+      await this.revisionModel.insertMany(revisions);
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY) {
+        throw new ConflictException(
+          'The post was edited at the same time; reload it and try again',
+        );
+      }
+      throw error;
+    }
+  }
+
+  async list(
+    postId: Types.ObjectId,
+    query: PaginationQueryDTO,
+  ): Promise<Page<PostRevisionView>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const revisions = await this.revisionModel
+      .find({ post: postId, ...recencyFilter(query.cursor) })
+      .sort(RECENCY_SORT)
+      .limit(limit + 1)
+      .populate('editor', EDITOR_FIELDS)
+      .lean<PostRevisionView[]>()
+      .exec();
+    return toRecencyPage(revisions, limit);
+  }
+
+  async findOne(postId: string, number: number): Promise<PostRevision> {
+    const revision = await this.revisionModel
+      .findOne({ post: postId, number })
+      .lean<PostRevision>()
+      .exec();
+    if (!revision) {
+      throw new NotFoundException('Revision not found');
+    }
+    return revision;
+  }
+
+  async deleteForPost(postId: Types.ObjectId): Promise<void> {
+    await this.revisionModel.deleteMany({ post: postId }).exec();
+  }
+}
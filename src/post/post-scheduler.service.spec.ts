@@ -0,0 +1,71 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PostScheduler } from './post-scheduler.service';
+import { PostService } from './post.service';
+
+describe('PostScheduler', () => {
+  let scheduler: PostScheduler;
+
+  const mockRedis = {
+    set: jest.fn(),
+    eval: jest.fn(),
+  };
+
+  const mockPostService = {
+    publishDue: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedis.set.mockResolvedValue('OK');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostScheduler,
+        { provide: PostService, useValue: mockPostService },
+        { provide: 'REDIS_CLIENT', useValue: mockRedis },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+      ],
+    }).compile();
+
+    scheduler = module.get<PostScheduler>(PostScheduler);
+  });
+
+  it('should leave the work to the instance holding the lock', async () => {
+    mockRedis.set.mockResolvedValue(null);
+
+    await expect(scheduler.run()).resolves.toBeNull();
+    expect(mockPostService.publishDue).not.toHaveBeenCalled();
+    expect(mockRedis.eval).not.toHaveBeenCalled();
+  });
+
+  it('should publish batches until one comes back short, then release its lock', async () => {
+    mockPostService.publishDue
+      .mockResolvedValueOnce(100)
+      .mockResolvedValueOnce(7);
+
+    await expect(scheduler.run()).resolves.toBe(107);
+
+    expect(mockPostService.publishDue).toHaveBeenCalledTimes(2);
+    const [key, token, options] = mockRedis.set.mock.calls[0] as [
+      string,
+      string,
+      object,
+    ];
+    expect(options).toEqual({ NX: true, PX: 60000 });
+    expect(mockRedis.eval).toHaveBeenCalledWith(expect.any(String), {
+      keys: [key],
+      arguments: [token],
+    });
+  });
+
+  it('should release the lock when publishing fails', async () => {
+    mockPostService.publishDue.mockRejectedValue(new Error('Mongo is down'));
+
+    await expect(scheduler.run()).rejects.toThrow('Mongo is down');
+    expect(mockRedis.eval).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { RedisClientType } from 'redis';
+import { PostService } from './post.service';
+
+const LOCK_KEY = 'posts:scheduler:lock';
+
+// Deletes the lock only while it is still ours
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Posts published per call to PostService.publishDue
+const BATCH_SIZE = 100;
+
+/**
+ * Publishes scheduled posts once they are due. Every app instance runs the
+ * timer and a Redis lock lets one of them work at a time; the lock expires by
+ * itself when its holder dies. Publishing a post twice does no harm (see
+ * PostService.publishDue), so a run outliving its lock only wastes work.
+ */
+@Injectable()
+export class PostScheduler implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(PostScheduler.name);
+  private readonly intervalMs: number;
+  private readonly lockMs: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly postService: PostService,
+    @Inject('REDIS_CLIENT') private readonly redisClient: RedisClientType,
+    private configService: ConfigService,
+  ) {
+    this.intervalMs = Number(
+      this.configService.get('POST_SCHEDULER_INTERVAL_MS', 15000),
+    );
+    this.lockMs = Number(
+      this.configService.get('POST_SCHEDULER_LOCK_MS', 60000),
+    );
+  }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(() => void this.tick(), this.intervalMs);
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Publishes due posts in batches until none are left or half the lock time
+   * has passed. Returns how many were published, or null when another
+   * instance holds the lock.
+   */
+  async run(): Promise<number | null> {
+    const token = randomBytes(16).toString('hex');
+    const locked = await this.redisClient.set(LOCK_KEY, token, {
+      NX: true,
+      PX: this.lockMs,
+    });
+    if (locked === null) {
+      return null;
+    }
+
+    const deadline = Date.now() + this.lockMs / 2;
+    let published = 0;
+    try {
+      let batch: number;
+      do {
+        batch = await this.postService.publishDue(new Date(), BATCH_SIZE);
+        published += batch;
+      } while (batch === BATCH_SIZE && Date.now() < deadline);
+    } finally {
+      await this.redisClient.eval(RELEASE_SCRIPT, {
+        keys: [LOCK_KEY],
+        arguments: [token],
+      });
+    }
+    return published;
+  }
+
+  // Runs never overlap within one instance
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const published = await this.run();
+      if (published) {
+        this.logger.log(`Published ${published} scheduled posts`);
+      }
+    } catch (error) {
+      this.logger.error(`Publishing scheduled posts failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Types } from 'mongoose';
+import { PostStatus } from 'src/entities/post/post.entity';
+
+// Post filter for what viewerId may see: drafts and scheduled posts are only shown to their author
+export function visibleTo(viewerId?: string): Record<string, unknown> {
+  if (!viewerId || !Types.ObjectId.isValid(viewerId)) {
+    return { status: PostStatus.Published };
+  }
+  return {
+    $or: [
+      { status: PostStatus.Published },
+      { userId: new Types.ObjectId(viewerId) },
+    ],
+  };
+}
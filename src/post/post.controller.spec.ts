@@ -1,13 +1,22 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PostController } from './post.controller';
 import { PostService } from './post.service';
+import { CommentService } from './comment.service';
 import { Post } from 'src/entities/post/post.entity';
 import { Types } from 'mongoose';
+import { Role } from 'src/entities/users/users.entity';
+import { AuthenticatedUser } from 'src/policies/policy';
 
 describe('PostController', () => {
   let controller: PostController;
   let service: PostService;
 
+  const caller = (sub: string): AuthenticatedUser => ({
+    sub,
+    email: 'ale@ale.com',
+    role: Role.User,
+  });
+
   const mockPostService = {
     create: jest.fn(),
     findAll: jest.fn(),
@@ -28,6 +37,10 @@ describe('PostController', () => {
           provide: PostService,
           useValue: mockPostService,
         },
+        {
+          provide: CommentService,
+          useValue: {},
+        },
       ],
     }).compile();
 
@@ -48,20 +61,16 @@ describe('PostController', () => {
         content: 'Test content',
         tags: ['test'],
       };
-      const req = {
-        user: {
-          sub: userId
-        }
-      };
+      const user = caller(userId);
       const expectedResult = { ...postDto, userId, _id: new Types.ObjectId() };
 
       mockPostService.create.mockResolvedValue(expectedResult);
 
-      const result = await controller.create(postDto, req);
+      const result = await controller.create(postDto, user);
       expect(result).toEqual(expectedResult);
       expect(mockPostService.create).toHaveBeenCalledWith({
         ...postDto,
-        userId
+        userId: new Types.ObjectId(userId),
       });
     });
   });
@@ -82,9 +91,10 @@ describe('PostController', () => {
 
       mockPostService.findAll.mockResolvedValue(expectedResult);
 
-      const result = await controller.findAll();
+      const query = { limit: 10 };
+      const result = await controller.findAll(query, undefined);
       expect(result).toEqual(expectedResult);
-      expect(mockPostService.findAll).toHaveBeenCalled();
+      expect(mockPostService.findAll).toHaveBeenCalledWith(query, undefined);
     });
   });
 
@@ -102,9 +112,15 @@ describe('PostController', () => {
 
       mockPostService.findOne.mockResolvedValue(expectedResult);
 
-      const result = await controller.findOne(expectedResult._id.toString());
+      const result = await controller.findOne(
+        expectedResult._id.toString(),
+        caller(userId),
+      );
       expect(result).toEqual(expectedResult);
-      expect(mockPostService.findOne).toHaveBeenCalledWith(expectedResult._id.toString());
+      expect(mockPostService.findOne).toHaveBeenCalledWith(
+        expectedResult._id.toString(),
+        userId,
+      );
     });
   });
 
@@ -125,9 +141,17 @@ describe('PostController', () => {
 
       mockPostService.update.mockResolvedValue(expectedResult);
 
-      const result = await controller.update(postId, updateDto);
+      const result = await controller.update(
+        postId,
+        updateDto,
+        caller(expectedResult.userId),
+      );
       expect(result).toEqual(expectedResult);
-      expect(mockPostService.update).toHaveBeenCalledWith(postId, updateDto);
+      expect(mockPostService.update).toHaveBeenCalledWith(
+        postId,
+        updateDto,
+        expectedResult.userId,
+      );
     });
   });
 
@@ -154,16 +178,24 @@ describe('PostController', () => {
   describe('addLike', () => {
     it('should add a like to a post', async () => {
       const postId = new Types.ObjectId();
+      const userId = new Types.ObjectId().toString();
       const expectedResult = {
         _id: postId,
         likes: 1,
+        likedByMe: true,
       };
 
       mockPostService.addLike.mockResolvedValue(expectedResult);
 
-      const result = await controller.addLike(postId.toString());
+      const result = await controller.addLike(
+        postId.toString(),
+        caller(userId),
+      );
       expect(result).toEqual(expectedResult);
-      expect(mockPostService.addLike).toHaveBeenCalledWith(postId.toString());
+      expect(mockPostService.addLike).toHaveBeenCalledWith(
+        postId.toString(),
+        userId,
+      );
     });
   });
 
@@ -174,23 +206,25 @@ describe('PostController', () => {
       const commentData = {
         text: 'Test comment',
       };
-      const req = {
-        user: {
-          sub: userId
-        }
-      };
+      const user = caller(userId);
       const expectedResult = {
         _id: postId,
-        comments: [{
-          text: commentData.text,
-          user: userId,
-          createdAt: expect.any(Date)
-        }],
+        comments: [
+          {
+            text: commentData.text,
+            user: userId,
+            createdAt: expect.any(Date),
+          },
+        ],
       };
 
       mockPostService.addComment.mockResolvedValue(expectedResult);
 
-      const result = await controller.addComment(postId.toString(), commentData, req);
+      const result = await controller.addComment(
+        postId.toString(),
+        commentData,
+        user,
+      );
       expect(result).toEqual(expectedResult);
       expect(mockPostService.addComment).toHaveBeenCalledWith(
         postId.toString(),
@@ -202,7 +236,7 @@ describe('PostController', () => {
 
   describe('findByTags', () => {
     it('should return posts by tags', async () => {
-      const tags = 'test,photo';
+      const query = { tags: ['test', 'photo'] };
       const expectedResult = [
         {
           _id: new Types.ObjectId(),
@@ -216,9 +250,9 @@ describe('PostController', () => {
 
       mockPostService.findByTags.mockResolvedValue(expectedResult);
 
-      const result = await controller.findByTags(tags);
+      const result = await controller.findByTags(query, undefined);
       expect(result).toEqual(expectedResult);
-      expect(mockPostService.findByTags).toHaveBeenCalledWith(['test', 'photo']);
+      expect(mockPostService.findByTags).toHaveBeenCalledWith(query, undefined);
     });
   });
 
@@ -238,9 +272,13 @@ describe('PostController', () => {
 
       mockPostService.findByUser.mockResolvedValue(expectedResult);
 
-      const result = await controller.findByUser(userId);
+      const result = await controller.findByUser(userId, {}, undefined);
       expect(result).toEqual(expectedResult);
-      expect(mockPostService.findByUser).toHaveBeenCalledWith(userId);
+      expect(mockPostService.findByUser).toHaveBeenCalledWith(
+        userId,
+        {},
+        undefined,
+      );
     });
   });
-}); 
\ No newline at end of file
+});
@@ -1,94 +1,286 @@
-import { Controller, Get, Post, Body, Param, Put, Delete, Query, UseGuards, Request } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Put,
+  Delete,
+  Query,
+  ValidationPipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
 import { PostService } from './post.service';
-import { Post as PostEntity } from 'src/entities/post/post.entity';
-import { ApiBearerAuth, ApiOperation, ApiTags, ApiBody } from '@nestjs/swagger';
-import { AuthGuard } from 'src/auth/auth.guard';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiTags,
+  ApiBody,
+  ApiResponse,
+} from '@nestjs/swagger';
 import { Public } from 'src/auth/decorators/public.decorators';
 import { CreatePostDto } from '../DTO/create-post.dto';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+import { Scope } from '../entities/api-keys/api-key.entity';
+import { CheckPolicies } from '../policies/check-policies.decorator';
+import { PostOwnerPolicy } from './post-owner.policy';
+import { UpdatePostDto } from '../DTO/update-post.dto';
+import { PaginationQueryDTO } from '../common/pagination/pagination.dto';
+import {
+  NearPostsQueryDTO,
+  PostListQueryDTO,
+  SearchPostsQueryDTO,
+  WithinPostsQueryDTO,
+} from '../DTO/post-query.dto';
+import { CreateCommentDTO } from '../DTO/comment-dto';
+import { CommentService } from './comment.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../policies/policy';
 
 @Controller('posts')
 @ApiTags('Posts')
 @ApiBearerAuth()
-@UseGuards(AuthGuard)
 export class PostController {
-  constructor(private readonly postService: PostService) {}
+  constructor(
+    private readonly postService: PostService,
+    private readonly commentService: CommentService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new post' })
+  @Scopes(Scope.PostsWrite)
   @ApiBody({ type: CreatePostDto })
-  create(@Body() createPostDto: CreatePostDto, @Request() req) {
-    console.log('User from request:', req.user);
+  create(
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    createPostDto: CreatePostDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    console.log('User from request:', user);
     return this.postService.create({
       ...createPostDto,
-      userId: req.user.sub
+      userId: new Types.ObjectId(user.sub),
     });
   }
 
   @Get()
   @Public()
-  @ApiOperation({ summary: 'Get all posts' })
-  findAll() {
-    return this.postService.findAll();
+  @ApiOperation({ summary: 'List posts, a page at a time' })
+  findAll(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PostListQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.postService.findAll(query, user?.sub);
+  }
+
+  // Declared before :id, which would otherwise match them
+  @Get('near')
+  @Public()
+  @ApiOperation({ summary: 'Posts within a radius of a point, nearest first' })
+  findNear(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: NearPostsQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.postService.findNear(query, user?.sub);
+  }
+
+  @Get('within')
+  @Public()
+  @ApiOperation({
+    summary: 'Posts inside a bounding box, nearest to its center first',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid box or cursor.' })
+  findWithin(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: WithinPostsQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.postService.findWithin(query, user?.sub);
+  }
+
+  @Get('search')
+  @Public()
+  @ApiOperation({ summary: 'Search posts by text, most relevant first' })
+  @ApiResponse({ status: 400, description: 'Empty query or invalid cursor.' })
+  search(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: SearchPostsQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.postService.search(query, user?.sub);
   }
 
   @Get(':id')
   @Public()
   @ApiOperation({ summary: 'Get a post by id' })
-  findOne(@Param('id') id: string) {
-    return this.postService.findOne(id);
+  findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.postService.findOne(id, user?.sub);
   }
 
   @Put(':id')
   @ApiOperation({ summary: 'Update a post' })
-  update(@Param('id') id: string, @Body() updatePostDto: Partial<PostEntity>) {
-    return this.postService.update(id, updatePostDto);
+  @ApiBody({ type: UpdatePostDto })
+  @ApiResponse({ status: 403, description: 'Not the author or an admin.' })
+  @ApiResponse({
+    status: 409,
+    description: 'The post was edited at the same time.',
+  })
+  @Scopes(Scope.PostsWrite)
+  @CheckPolicies(PostOwnerPolicy)
+  update(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    updatePostDto: UpdatePostDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.postService.update(id, updatePostDto, user.sub);
+  }
+
+  @Get(':id/revisions')
+  @Public()
+  @ApiOperation({
+    summary: 'List the versions of an edited post, newest first',
+  })
+  findRevisions(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PaginationQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.postService.findRevisions(id, query, user?.sub);
+  }
+
+  @Post(':id/revisions/:number/restore')
+  @ApiOperation({
+    summary: 'Make the text of an earlier version current again',
+  })
+  @ApiResponse({ status: 403, description: 'Not the author or an admin.' })
+  @ApiResponse({ status: 404, description: 'Post or revision not found.' })
+  @ApiResponse({
+    status: 409,
+    description: 'The post was edited at the same time.',
+  })
+  @Scopes(Scope.PostsWrite)
+  @CheckPolicies(PostOwnerPolicy)
+  restoreRevision(
+    @Param('id') id: string,
+    @Param('number', ParseIntPipe) number: number,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.postService.restoreRevision(id, number, user.sub);
   }
 
   @Delete(':id')
   @ApiOperation({ summary: 'Delete a post' })
+  @ApiResponse({ status: 403, description: 'Not the author or an admin.' })
+  @Scopes(Scope.PostsWrite)
+  @CheckPolicies(PostOwnerPolicy)
   remove(@Param('id') id: string) {
     return this.postService.delete(id);
   }
 
   @Post(':id/like')
-  @ApiOperation({ summary: 'Add a like to a post' })
-  addLike(@Param('id') id: string) {
-    return this.postService.addLike(id);
+  @ApiOperation({ summary: 'Like a post; liking it again changes nothing' })
+  @Scopes(Scope.PostsWrite)
+  addLike(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.postService.addLike(id, user.sub);
+  }
+
+  @Delete(':id/like')
+  @ApiOperation({ summary: 'Remove your like from a post' })
+  @Scopes(Scope.PostsWrite)
+  removeLike(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.postService.removeLike(id, user.sub);
+  }
+
+  @Get(':id/likes')
+  @Public()
+  @ApiOperation({ summary: 'List who liked a post, newest first' })
+  findLikers(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PaginationQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.postService.findLikers(id, query, user?.sub);
+  }
+
+  @Get(':id/comments')
+  @Public()
+  @ApiOperation({
+    summary: 'List the top level comments of a post, newest first',
+  })
+  findComments(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PaginationQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.commentService.list(id, null, query, user?.sub);
+  }
+
+  @Post(':id/comments')
+  @ApiOperation({
+    summary: 'Comment on a post, or reply to one of its comments',
+  })
+  @Scopes(Scope.PostsWrite)
+  @ApiBody({ type: CreateCommentDTO })
+  createComment(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true }))
+    createCommentDto: CreateCommentDTO,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.commentService.create(id, user.sub, createCommentDto);
   }
 
   @Post(':id/comment')
-  @ApiOperation({ summary: 'Add a comment to a post' })
+  @ApiOperation({ summary: 'Add a comment to a post and return the post' })
+  @Scopes(Scope.PostsWrite)
   @ApiBody({
     schema: {
       type: 'object',
       properties: {
         text: {
           type: 'string',
-          example: 'This is a comment'
-        }
-      }
-    }
+          example: 'This is a comment',
+        },
+      },
+    },
   })
   addComment(
     @Param('id') id: string,
     @Body() commentData: { text: string },
-    @Request() req
+    @CurrentUser() user: AuthenticatedUser,
   ) {
-    return this.postService.addComment(id, req.user.sub, commentData.text);
+    return this.postService.addComment(id, user.sub, commentData.text);
   }
 
   @Get('tags/search')
   @Public()
   @ApiOperation({ summary: 'Search posts by tags' })
-  findByTags(@Query('tags') tags: string) {
-    const tagArray = tags.split(',').map(tag => tag.trim());
-    return this.postService.findByTags(tagArray);
+  findByTags(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PostListQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.postService.findByTags(query, user?.sub);
   }
 
   @Get('user/:userId')
   @Public()
-  @ApiOperation({ summary: 'Get all posts by a user' })
-  findByUser(@Param('userId') userId: string) {
-    return this.postService.findByUser(userId);
+  @ApiOperation({ summary: 'List the posts of a user' })
+  findByUser(
+    @Param('userId') userId: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: PostListQueryDTO,
+    @CurrentUser() user: AuthenticatedUser | undefined,
+  ) {
+    return this.postService.findByUser(userId, query, user?.sub);
   }
-} 
\ No newline at end of file
+}
@@ -1,15 +1,52 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Post, PostSchema } from 'src/entities/post/post.entity';
+import { PostLike, PostLikeSchema } from 'src/entities/post/post-like.entity';
+import { PostRevision, PostRevisionSchema } from 'src/entities/post/post-revision.entity';
 import { PostController } from 'src/post/post.controller';
 import { PostService } from 'src/post/post.service';
+import { PostOwnerPolicy } from 'src/post/post-owner.policy';
+import { Comment, CommentSchema } from 'src/entities/comment/comment.entity';
+import { CommentLike, CommentLikeSchema } from 'src/entities/comment/comment-like.entity';
+import { CommentController } from 'src/post/comment.controller';
+import { CommentService } from 'src/post/comment.service';
+import { CommentAuthorPolicy } from 'src/post/comment-author.policy';
+import { CommentModeratorPolicy } from 'src/post/comment-moderator.policy';
+import { FeedModule } from 'src/feed/feed.module';
+import { SearchModule } from 'src/search/search.module';
+import { GeoModule } from 'src/geo/geo.module';
+import { MediaModule } from 'src/media/media.module';
+import { TagsModule } from 'src/tags/tags.module';
+import { RedisModule } from 'src/redis/redis.module';
+import { PostScheduler } from 'src/post/post-scheduler.service';
+import { PostRevisionService } from 'src/post/post-revision.service';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Post.name, schema: PostSchema }])
+    MongooseModule.forFeature([
+      { name: Post.name, schema: PostSchema },
+      { name: PostLike.name, schema: PostLikeSchema },
+      { name: PostRevision.name, schema: PostRevisionSchema },
+      { name: Comment.name, schema: CommentSchema },
+      { name: CommentLike.name, schema: CommentLikeSchema },
+    ]),
+    forwardRef(() => FeedModule),
+    SearchModule,
+    GeoModule,
+    MediaModule,
+    TagsModule,
+    RedisModule,
+  ],
+  controllers: [PostController, CommentController],
+  providers: [
+    PostService,
+    PostScheduler,
+    PostRevisionService,
+    PostOwnerPolicy,
+    CommentService,
+    CommentAuthorPolicy,
+    CommentModeratorPolicy,
   ],
-  controllers: [PostController],
-  providers: [PostService],
   exports: [PostService]
 })
 export class PostModule {} 
\ No newline at end of file
@@ -2,24 +2,101 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { PostService } from './post.service';
-import { Post } from 'src/entities/post/post.entity';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Post, PostStatus } from 'src/entities/post/post.entity';
+import { PostLike } from 'src/entities/post/post-like.entity';
+import { CommentService } from './comment.service';
+import { PostSort, TagMatch } from 'src/DTO/post-query.dto';
+import { FeedService } from 'src/feed/feed.service';
+import { PostSearchBackend } from 'src/search/post-search.backend';
+import { Geocoder } from 'src/geo/geocoder';
+import { MediaService } from 'src/media/media.service';
+import { PostRevisionService } from './post-revision.service';
+import { TrendingTagsService } from 'src/tags/trending-tags.service';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 
 describe('PostService', () => {
   let service: PostService;
   let model: Model<Post>;
 
-  const mockPostModel = {
-    new: jest.fn(),
-    constructor: jest.fn(),
+  // new this.postModel(fields) builds whatever document newPost returns
+  const newPost = jest.fn();
+  const mockPostModel = Object.assign(
+    jest.fn((fields: unknown) => newPost(fields) as unknown),
+    {
+      find: jest.fn(),
+      findOne: jest.fn(),
+      findById: jest.fn(),
+      findOneAndUpdate: jest.fn(),
+      findByIdAndDelete: jest.fn(),
+      exists: jest.fn(),
+      updateOne: jest.fn(),
+      aggregate: jest.fn(),
+      populate: jest.fn((docs: unknown) => Promise.resolve(docs)),
+      exec: jest.fn(),
+    },
+  );
+
+  const mockPostLikeModel = {
+    create: jest.fn(),
+    deleteOne: jest.fn(),
+    deleteMany: jest.fn(),
     find: jest.fn(),
-    findById: jest.fn(),
-    findByIdAndUpdate: jest.fn(),
-    findByIdAndDelete: jest.fn(),
-    exec: jest.fn(),
   };
 
+  const mockCommentService = {
+    create: jest.fn(),
+    previews: jest.fn(),
+    deleteForPost: jest.fn(),
+  };
+
+  const mockFeedService = {
+    publish: jest.fn(),
+    unpublish: jest.fn(),
+    findPage: jest.fn(),
+  };
+
+  const mockSearchBackend = {
+    search: jest.fn(),
+    index: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockGeocoder = {
+    geocode: jest.fn(),
+  };
+
+  const mockMediaService = {
+    assertOwned: jest.fn(),
+  };
+
+  const mockTrendingTags = {
+    recordPost: jest.fn(),
+    recordLike: jest.fn(),
+  };
+
+  const mockRevisionService = {
+    record: jest.fn(),
+    findOne: jest.fn(),
+    deleteForPost: jest.fn(),
+  };
+
+  // Chain returned by find/findById: sort/limit/populate/select/lean then exec
+  const queryResolving = (value: unknown) => ({
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    populate: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
   beforeEach(async () => {
+    mockCommentService.previews.mockResolvedValue(new Map());
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PostService,
@@ -27,6 +104,38 @@ describe('PostService', () => {
           provide: getModelToken(Post.name),
           useValue: mockPostModel,
         },
+        {
+          provide: getModelToken(PostLike.name),
+          useValue: mockPostLikeModel,
+        },
+        {
+          provide: CommentService,
+          useValue: mockCommentService,
+        },
+        {
+          provide: FeedService,
+          useValue: mockFeedService,
+        },
+        {
+          provide: PostSearchBackend,
+          useValue: mockSearchBackend,
+        },
+        {
+          provide: Geocoder,
+          useValue: mockGeocoder,
+        },
+        {
+          provide: MediaService,
+          useValue: mockMediaService,
+        },
+        {
+          provide: PostRevisionService,
+          useValue: mockRevisionService,
+        },
+        {
+          provide: TrendingTagsService,
+          useValue: mockTrendingTags,
+        },
       ],
     }).compile();
 
@@ -50,37 +159,131 @@ describe('PostService', () => {
 
       const mockPost = {
         ...postDto,
-        save: jest.fn().mockResolvedValue({ ...postDto, _id: new Types.ObjectId() }),
+        save: jest
+          .fn()
+          .mockResolvedValue({ ...postDto, _id: new Types.ObjectId() }),
       };
 
-      mockPostModel.new.mockReturnValue(mockPost);
+      newPost.mockReturnValue(mockPost);
 
       const result = await service.create(postDto);
       expect(result).toBeDefined();
       expect(mockPost.save).toHaveBeenCalled();
     });
+
+    it('should only schedule posts for the future', async () => {
+      const postDto = {
+        description: 'Test post',
+        location: 'Test location',
+        content: 'Test content',
+        userId: new Types.ObjectId(),
+        status: PostStatus.Scheduled,
+      };
+
+      await expect(service.create(postDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.create({ ...postDto, publishAt: new Date(Date.now() - 1000) }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.create({
+          ...postDto,
+          status: PostStatus.Draft,
+          publishAt: new Date(Date.now() + 60000),
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
   });
 
   describe('findAll', () => {
-    it('should return an array of posts', async () => {
-      const mockPosts = [
-        {
-          _id: new Types.ObjectId(),
-          description: 'Test post',
-          location: 'Test location',
-          content: 'Test content',
-          userId: new Types.ObjectId(),
-          tags: ['test'],
-        },
-      ];
+    const mockPosts = [5, 3, 1].map((likes) => ({
+      _id: new Types.ObjectId(),
+      description: 'Test post',
+      location: 'Test location',
+      content: 'Test content',
+      userId: new Types.ObjectId(),
+      tags: ['test'],
+      likes,
+      createdAt: new Date(),
+    }));
+
+    it('should return a page of posts', async () => {
+      mockPostModel.find.mockReturnValue(queryResolving(mockPosts));
+
+      const result = await service.findAll({});
+      expect(result).toEqual({
+        items: mockPosts.map((post) => ({
+          ...post,
+          likedByMe: false,
+          commentPreview: [],
+        })),
+        nextCursor: null,
+      });
+    });
 
-      mockPostModel.find.mockReturnValue({
-        populate: jest.fn().mockReturnThis(),
-        exec: jest.fn().mockResolvedValue(mockPosts),
+    it('should sort by likes and continue from the cursor', async () => {
+      const query = queryResolving(mockPosts);
+      mockPostModel.find.mockReturnValue(query);
+
+      const first = await service.findAll({ sort: PostSort.Likes, limit: 2 });
+      expect(first.items).toHaveLength(2);
+      expect(query.sort).toHaveBeenCalledWith({ likes: -1, _id: -1 });
+      expect(query.limit).toHaveBeenCalledWith(3);
+
+      await service.findAll({
+        sort: PostSort.Likes,
+        cursor: first.nextCursor!,
+      });
+      expect(mockPostModel.find).toHaveBeenLastCalledWith({
+        $and: [
+          { status: PostStatus.Published },
+          {
+            $or: [
+              { likes: { $lt: 3 } },
+              { likes: 3, _id: { $lt: mockPosts[1]._id } },
+            ],
+          },
+        ],
       });
+    });
+
+    it('should filter by date range, location and tags', async () => {
+      mockPostModel.find.mockReturnValue(queryResolving([]));
+      const from = new Date('2024-01-01');
 
-      const result = await service.findAll();
-      expect(result).toEqual(mockPosts);
+      await service.findAll({
+        from,
+        location: 'Rome (IT)',
+        tags: ['Travel', ' #photo'],
+        tagMode: TagMatch.All,
+      });
+      expect(mockPostModel.find).toHaveBeenLastCalledWith({
+        createdAt: { $gte: from },
+        location: { $regex: 'Rome \\(IT\\)', $options: 'i' },
+        tags: { $all: ['travel', 'photo'] },
+        $and: [{ status: PostStatus.Published }, {}],
+      });
+    });
+
+    it('should show drafts and scheduled posts to their author only', async () => {
+      mockPostModel.find.mockReturnValue(queryResolving([]));
+      const viewerId = new Types.ObjectId();
+
+      await service.findAll({ status: PostStatus.Draft }, viewerId.toString());
+      expect(mockPostModel.find).toHaveBeenLastCalledWith({
+        status: PostStatus.Draft,
+        $and: [
+          { $or: [{ status: PostStatus.Published }, { userId: viewerId }] },
+          {},
+        ],
+      });
+    });
+  });
+
+  describe('findByTags', () => {
+    it('should require a tag', async () => {
+      await expect(service.findByTags({})).rejects.toThrow(BadRequestException);
     });
   });
 
@@ -95,74 +298,662 @@ describe('PostService', () => {
         tags: ['test'],
       };
 
-      mockPostModel.findById.mockReturnValue({
-        populate: jest.fn().mockReturnThis(),
-        exec: jest.fn().mockResolvedValue(mockPost),
-      });
+      mockPostModel.findOne.mockReturnValue(queryResolving(mockPost));
 
       const result = await service.findOne(mockPost._id.toString());
-      expect(result).toEqual(mockPost);
+      expect(result).toEqual({
+        ...mockPost,
+        likedByMe: false,
+        commentPreview: [],
+      });
     });
 
     it('should throw BadRequestException for invalid id', async () => {
-      await expect(service.findOne('invalid-id')).rejects.toThrow(BadRequestException);
+      await expect(service.findOne('invalid-id')).rejects.toThrow(
+        BadRequestException,
+      );
     });
 
     it('should throw NotFoundException if post not found', async () => {
-      mockPostModel.findById.mockReturnValue({
-        populate: jest.fn().mockReturnThis(),
-        exec: jest.fn().mockResolvedValue(null),
-      });
+      mockPostModel.findOne.mockReturnValue(queryResolving(null));
 
-      await expect(service.findOne(new Types.ObjectId().toString())).rejects.toThrow(NotFoundException);
+      await expect(
+        service.findOne(new Types.ObjectId().toString()),
+      ).rejects.toThrow(NotFoundException);
     });
   });
 
   describe('addLike', () => {
-    it('should increment likes count', async () => {
-      const mockPost = {
-        _id: new Types.ObjectId(),
-        likes: 0,
-      };
+    const postId = new Types.ObjectId();
+    const userId = new Types.ObjectId();
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockPostModel.exists.mockResolvedValue({ _id: postId });
+      mockPostModel.updateOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({}),
+      });
+      mockPostModel.findOne.mockReturnValue(queryResolving(post));
+      mockPostLikeModel.find.mockReturnValue(
+        queryResolving([{ post: postId }]),
+      );
+    });
+
+    const post = {
+      _id: postId,
+      likes: 1,
+      status: PostStatus.Published,
+      tags: ['travel'],
+    };
 
-      mockPostModel.findByIdAndUpdate.mockReturnValue({
-        populate: jest.fn().mockReturnThis(),
-        exec: jest.fn().mockResolvedValue({ ...mockPost, likes: 1 }),
+    it('should record the like and increment the count once', async () => {
+      mockPostLikeModel.create.mockResolvedValue({});
+
+      const result = await service.addLike(
+        postId.toString(),
+        userId.toString(),
+      );
+
+      expect(mockPostLikeModel.create).toHaveBeenCalledWith({
+        post: postId,
+        user: userId,
       });
+      expect(mockPostModel.updateOne).toHaveBeenCalledWith(
+        { _id: postId.toString() },
+        { $inc: { likes: 1 } },
+      );
+      expect(result).toEqual({ ...post, likedByMe: true, commentPreview: [] });
+      expect(mockTrendingTags.recordLike).toHaveBeenCalledWith(['travel']);
+    });
 
-      const result = await service.addLike(mockPost._id.toString());
-      expect(result.likes).toBe(1);
+    it('should not increment the count when already liked', async () => {
+      mockPostLikeModel.create.mockRejectedValue({ code: 11000 });
+
+      await service.addLike(postId.toString(), userId.toString());
+
+      expect(mockPostModel.updateOne).not.toHaveBeenCalled();
+      expect(mockTrendingTags.recordLike).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if post not found', async () => {
+      mockPostModel.exists.mockResolvedValue(null);
+
+      await expect(
+        service.addLike(postId.toString(), userId.toString()),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPostLikeModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findLikers', () => {
+    it('should hide the likers of posts that are not published', async () => {
+      const postId = new Types.ObjectId();
+      mockPostModel.exists.mockResolvedValue(null);
+
+      await expect(service.findLikers(postId.toString(), {})).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPostModel.exists).toHaveBeenCalledWith({
+        _id: postId.toString(),
+        status: PostStatus.Published,
+      });
+      expect(mockPostLikeModel.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeLike', () => {
+    const postId = new Types.ObjectId();
+    const userId = new Types.ObjectId();
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockPostModel.exists.mockResolvedValue({ _id: postId });
+      mockPostModel.updateOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({}),
+      });
+      mockPostModel.findOne.mockReturnValue(
+        queryResolving({ _id: postId, likes: 0 }),
+      );
+      mockPostLikeModel.find.mockReturnValue(queryResolving([]));
+    });
+
+    it('should decrement the count when a like was removed', async () => {
+      mockPostLikeModel.deleteOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+      });
+
+      const result = await service.removeLike(
+        postId.toString(),
+        userId.toString(),
+      );
+
+      expect(mockPostModel.updateOne).toHaveBeenCalledWith(
+        { _id: postId.toString(), likes: { $gt: 0 } },
+        { $inc: { likes: -1 } },
+      );
+      expect(result.likedByMe).toBe(false);
+    });
+
+    it('should leave the count alone when there was no like', async () => {
+      mockPostLikeModel.deleteOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ deletedCount: 0 }),
+      });
+
+      await service.removeLike(postId.toString(), userId.toString());
+
+      expect(mockPostModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should not touch likes of a post the user cannot see', async () => {
+      mockPostModel.exists.mockResolvedValue(null);
+
+      await expect(
+        service.removeLike(postId.toString(), userId.toString()),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPostLikeModel.deleteOne).not.toHaveBeenCalled();
     });
   });
 
   describe('addComment', () => {
-    it('should add a comment to post', async () => {
-      const mockPost = {
+    it('should store the comment and return the post with its preview', async () => {
+      const postId = new Types.ObjectId();
+      const userId = new Types.ObjectId();
+      const comment = {
         _id: new Types.ObjectId(),
-        comments: [],
+        post: postId,
+        text: 'Test comment',
       };
 
-      const commentData = {
-        text: 'Test comment',
-        user: new Types.ObjectId(),
-        createdAt: new Date(),
+      mockCommentService.create.mockResolvedValue(comment);
+      mockCommentService.previews.mockResolvedValue(
+        new Map([[postId.toString(), [comment]]]),
+      );
+      mockPostModel.findOne.mockReturnValue(
+        queryResolving({ _id: postId, commentCount: 1 }),
+      );
+
+      const result = await service.addComment(
+        postId.toString(),
+        userId.toString(),
+        comment.text,
+      );
+
+      expect(mockCommentService.create).toHaveBeenCalledWith(
+        postId.toString(),
+        userId.toString(),
+        {
+          text: comment.text,
+        },
+      );
+      expect(result.commentCount).toBe(1);
+      expect(result.commentPreview).toEqual([comment]);
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the likes and comments of the post', async () => {
+      const postId = new Types.ObjectId();
+      mockPostModel.findByIdAndDelete.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ _id: postId }),
+      });
+      mockPostLikeModel.deleteMany.mockReturnValue({ exec: jest.fn() });
+
+      await service.delete(postId.toString());
+
+      expect(mockPostLikeModel.deleteMany).toHaveBeenCalledWith({
+        post: postId,
+      });
+      expect(mockCommentService.deleteForPost).toHaveBeenCalledWith(postId);
+      expect(mockRevisionService.deleteForPost).toHaveBeenCalledWith(postId);
+      expect(mockFeedService.unpublish).toHaveBeenCalledWith({ _id: postId });
+      expect(mockSearchBackend.remove).toHaveBeenCalledWith(postId.toString());
+    });
+  });
+
+  describe('findFeed', () => {
+    it('should return the timeline page as post views', async () => {
+      const viewerId = new Types.ObjectId().toString();
+      const post = { _id: new Types.ObjectId(), likes: 0 };
+      mockFeedService.findPage.mockResolvedValue({
+        items: [post],
+        nextCursor: 'next',
+      });
+      mockPostLikeModel.find.mockReturnValue(queryResolving([]));
+
+      const result = await service.findFeed(viewerId, { limit: 1 });
+
+      expect(mockFeedService.findPage).toHaveBeenCalledWith(viewerId, {
+        limit: 1,
+      });
+      expect(result).toEqual({
+        items: [{ ...post, likedByMe: false, commentPreview: [] }],
+        nextCursor: 'next',
+      });
+    });
+  });
+
+  describe('search', () => {
+    const first = {
+      _id: new Types.ObjectId(),
+      description: 'Olive harvest',
+      content: 'Picking olives in the garden',
+      location: 'Rome',
+      tags: ['olive'],
+    };
+    const second = {
+      ...first,
+      _id: new Types.ObjectId(),
+      description: 'Garden',
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockPostLikeModel.find.mockReturnValue(queryResolving([]));
+    });
+
+    it('should keep the backend ranking and highlight the matches', async () => {
+      mockSearchBackend.search.mockResolvedValue([
+        { id: second._id.toString(), score: 2 },
+        { id: first._id.toString(), score: 1 },
+        { id: new Types.ObjectId().toString(), score: 0.5 },
+      ]);
+      // Loaded in storage order, not ranking order
+      mockPostModel.find.mockReturnValue(queryResolving([first, second]));
+
+      const result = await service.search({ q: 'garden', limit: 2 });
+
+      expect(mockSearchBackend.search).toHaveBeenCalledWith(
+        { terms: ['garden'], phrases: [], prefixes: [] },
+        0,
+        3,
+      );
+      expect(result.items.map((item) => item._id)).toEqual([
+        second._id,
+        first._id,
+      ]);
+      expect(result.items[0].highlights).toEqual([
+        { field: 'description', snippet: '<mark>Garden</mark>' },
+        {
+          field: 'content',
+          snippet: 'Picking olives in the <mark>garden</mark>',
+        },
+      ]);
+      expect(result.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should not highlight a location the post does not have', async () => {
+      const unlocated = { ...first, location: undefined };
+      mockSearchBackend.search.mockResolvedValue([
+        { id: first._id.toString(), score: 1 },
+      ]);
+      mockPostModel.find.mockReturnValue(queryResolving([unlocated]));
+
+      const result = await service.search({ q: 'undefined' });
+
+      expect(result.items[0].highlights).toEqual([]);
+    });
+
+    it('should reject a query with nothing to search for', async () => {
+      await expect(service.search({ q: '""' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockSearchBackend.search).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    const postId = new Types.ObjectId();
+    const authorId = new Types.ObjectId();
+    const draft = {
+      _id: postId,
+      userId: authorId,
+      status: PostStatus.Draft,
+      description: 'Test post',
+      content: 'Test content',
+      location: 'Test location',
+      tags: ['test'],
+      createdAt: new Date('2024-01-01'),
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockPostModel.findById.mockReturnValue(queryResolving(draft));
+      mockPostModel.findOneAndUpdate.mockReturnValue(
+        queryResolving({ _id: postId }),
+      );
+    });
+
+    it('should look up the point of a new location', async () => {
+      const rome = { type: 'Point', coordinates: [12.4964, 41.9028] };
+      mockGeocoder.geocode.mockResolvedValue(rome);
+
+      await service.update(
+        postId.toString(),
+        { location: 'Rome, Italy' },
+        authorId.toString(),
+      );
+
+      expect(mockPostModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: postId.toString(), editedAt: null },
+        { location: 'Rome, Italy', point: rome },
+        { new: true },
+      );
+    });
+
+    it('should prefer the coordinates that were sent', async () => {
+      await service.update(
+        postId.toString(),
+        { location: 'Home', coordinates: { lat: 45, lng: 9 } },
+        authorId.toString(),
+      );
+
+      expect(mockGeocoder.geocode).not.toHaveBeenCalled();
+      expect(mockPostModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: postId.toString(), editedAt: null },
+        { location: 'Home', point: { type: 'Point', coordinates: [9, 45] } },
+        { new: true },
+      );
+    });
+
+    it('should drop the point when the new location is unknown', async () => {
+      mockGeocoder.geocode.mockResolvedValue(null);
+
+      await service.update(
+        postId.toString(),
+        { location: 'Somewhere' },
+        authorId.toString(),
+      );
+
+      expect(mockPostModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: postId.toString(), editedAt: null },
+        { location: 'Somewhere', $unset: { point: 1 } },
+        { new: true },
+      );
+    });
+
+    it("should attach the author's media in the order sent", async () => {
+      const media = [new Types.ObjectId(), new Types.ObjectId()];
+      mockMediaService.assertOwned.mockResolvedValue(media);
+
+      // Admins edit on behalf of the author
+      await service.update(
+        postId.toString(),
+        { media: media.map((id) => id.toString()) },
+        new Types.ObjectId().toString(),
+      );
+
+      expect(mockMediaService.assertOwned).toHaveBeenCalledWith(
+        media.map((id) => id.toString()),
+        authorId.toString(),
+      );
+      expect(mockPostModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: postId.toString(), editedAt: null },
+        { media },
+        { new: true },
+      );
+    });
+
+    it('should publish a draft as a new post', async () => {
+      const published = { _id: postId, status: PostStatus.Published };
+      mockPostModel.findOneAndUpdate.mockReturnValue(queryResolving(published));
+
+      await service.update(
+        postId.toString(),
+        { status: PostStatus.Published },
+        authorId.toString(),
+      );
+
+      expect(mockPostModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: postId.toString(), editedAt: null },
+        {
+          status: PostStatus.Published,
+          createdAt: expect.any(Date),
+          $unset: { publishAt: 1 },
+        },
+        { new: true, overwriteImmutable: true },
+      );
+      expect(mockFeedService.publish).toHaveBeenCalledWith(published);
+      expect(mockSearchBackend.index).toHaveBeenCalledWith(published);
+    });
+
+    it('should not take a published post back', async () => {
+      mockPostModel.findById.mockReturnValue(
+        queryResolving({ ...draft, status: PostStatus.Published }),
+      );
+
+      await expect(
+        service.update(
+          postId.toString(),
+          { status: PostStatus.Draft },
+          authorId.toString(),
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPostModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should keep a revision when the text of a published post changes', async () => {
+      const published = { ...draft, status: PostStatus.Published };
+      mockPostModel.findById.mockReturnValue(queryResolving(published));
+
+      await service.update(
+        postId.toString(),
+        { description: 'Test post', content: 'Better content' },
+        authorId.toString(),
+      );
+
+      expect(mockRevisionService.record).toHaveBeenCalledWith(
+        published,
+        { content: 'Better content' },
+        authorId.toString(),
+        undefined,
+      );
+      expect(mockPostModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: postId.toString(), editedAt: null },
+        {
+          description: 'Test post',
+          content: 'Better content',
+          editedAt: expect.any(Date),
+        },
+        { new: true },
+      );
+    });
+
+    it('should not keep revisions of drafts or unchanged text', async () => {
+      await service.update(
+        postId.toString(),
+        { content: 'Draft content' },
+        authorId.toString(),
+      );
+      mockPostModel.findById.mockReturnValue(
+        queryResolving({ ...draft, status: PostStatus.Published }),
+      );
+      await service.update(
+        postId.toString(),
+        { tags: ['test'] },
+        authorId.toString(),
+      );
+
+      expect(mockRevisionService.record).not.toHaveBeenCalled();
+    });
+
+    it('should turn away an edit that lost the race to another one', async () => {
+      mockPostModel.findById.mockReturnValue(
+        queryResolving({ ...draft, status: PostStatus.Published }),
+      );
+      mockPostModel.findOneAndUpdate.mockReturnValue(queryResolving(null));
+      mockPostModel.exists.mockResolvedValue({ _id: postId });
+
+      await expect(
+        service.update(
+          postId.toString(),
+          { content: 'Better content' },
+          authorId.toString(),
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(mockRevisionService.record).not.toHaveBeenCalled();
+    });
+
+    it('should not keep a revision of a post deleted while editing', async () => {
+      mockPostModel.findById.mockReturnValue(
+        queryResolving({ ...draft, status: PostStatus.Published }),
+      );
+      mockPostModel.findOneAndUpdate.mockReturnValue(queryResolving(null));
+      mockPostModel.exists.mockResolvedValue(null);
+
+      await expect(
+        service.update(
+          postId.toString(),
+          { content: 'Better content' },
+          authorId.toString(),
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockRevisionService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreRevision', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should put back the text of the revision as a new edit', async () => {
+      const postId = new Types.ObjectId();
+      const editorId = new Types.ObjectId().toString();
+      const post = {
+        _id: postId,
+        userId: new Types.ObjectId(),
+        status: PostStatus.Published,
+        description: 'Edited',
+        content: 'Test content',
+        location: 'Test location',
+        tags: ['test'],
       };
+      mockPostModel.findById.mockReturnValue(queryResolving(post));
+      mockPostModel.findOneAndUpdate.mockReturnValue(queryResolving(post));
+      mockRevisionService.findOne.mockResolvedValue({
+        ...post,
+        number: 1,
+        description: 'Original',
+      });
 
-      mockPostModel.findByIdAndUpdate.mockReturnValue({
-        populate: jest.fn().mockReturnThis(),
-        exec: jest.fn().mockResolvedValue({
-          ...mockPost,
-          comments: [commentData],
-        }),
+      await service.restoreRevision(postId.toString(), 1, editorId);
+
+      expect(mockRevisionService.findOne).toHaveBeenCalledWith(
+        postId.toString(),
+        1,
+      );
+      expect(mockRevisionService.record).toHaveBeenCalledWith(
+        post,
+        { description: 'Original' },
+        editorId,
+        1,
+      );
+      // The location is unchanged, so the point is left alone
+      expect(mockGeocoder.geocode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publishDue', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should mark the post published at its scheduled time before fanning out', async () => {
+      const now = new Date();
+      const publishAt = new Date(now.getTime() - 1000);
+      const post = {
+        _id: new Types.ObjectId(),
+        userId: new Types.ObjectId(),
+        status: PostStatus.Scheduled,
+        publishAt,
+      };
+      mockPostModel.find.mockReturnValue(queryResolving([post]));
+      mockPostModel.updateOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
       });
 
-      const result = await service.addComment(
-        mockPost._id.toString(),
-        commentData.user.toString(),
-        commentData.text,
+      await expect(service.publishDue(now, 100)).resolves.toBe(1);
+
+      expect(mockPostModel.find).toHaveBeenCalledWith({
+        status: PostStatus.Scheduled,
+        publishAt: { $lte: now },
+      });
+      expect(mockFeedService.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: post._id, createdAt: publishAt }),
+      );
+      expect(mockPostModel.updateOne).toHaveBeenCalledWith(
+        { _id: post._id, status: PostStatus.Scheduled, publishAt },
+        {
+          $set: { status: PostStatus.Published, createdAt: publishAt },
+          $unset: { publishAt: 1 },
+        },
+        { overwriteImmutable: true },
       );
-      expect(result.comments).toHaveLength(1);
-      expect(result.comments[0].text).toBe(commentData.text);
+      expect(mockPostModel.updateOne.mock.invocationCallOrder[0]).toBeLessThan(
+        mockFeedService.publish.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should not count or fan out posts changed in the meantime', async () => {
+      const post = {
+        _id: new Types.ObjectId(),
+        status: PostStatus.Scheduled,
+        publishAt: new Date(),
+      };
+      mockPostModel.find.mockReturnValue(queryResolving([post]));
+      mockPostModel.updateOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ modifiedCount: 0 }),
+      });
+
+      await expect(service.publishDue(new Date(), 100)).resolves.toBe(0);
+      expect(mockFeedService.publish).not.toHaveBeenCalled();
+      expect(mockSearchBackend.index).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findNear', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockPostLikeModel.find.mockReturnValue(queryResolving([]));
+    });
+
+    it('should return the nearest posts with their distance', async () => {
+      const posts = [12.4, 30.6].map((distance) => ({
+        _id: new Types.ObjectId(),
+        distance,
+      }));
+      mockPostModel.aggregate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(posts),
+      });
+
+      const result = await service.findNear({ lat: 41.9, lng: 12.5, limit: 1 });
+
+      expect(mockPostModel.aggregate).toHaveBeenCalledWith([
+        {
+          $geoNear: {
+            key: 'point',
+            distanceField: 'distance',
+            spherical: true,
+            near: { type: 'Point', coordinates: [12.5, 41.9] },
+            maxDistance: 5000,
+            query: { status: PostStatus.Published },
+          },
+        },
+        { $skip: 0 },
+        { $limit: 2 },
+      ]);
+      expect(result.items).toEqual([
+        { ...posts[0], distance: 12, likedByMe: false, commentPreview: [] },
+      ]);
+      expect(result.nextCursor).toEqual(expect.any(String));
+    });
+  });
+
+  describe('findWithin', () => {
+    it('should reject a box with min above max', async () => {
+      await expect(
+        service.findWithin({ minLat: 42, minLng: 12, maxLat: 41, maxLng: 13 }),
+      ).rejects.toThrow(BadRequestException);
     });
   });
-}); 
\ No newline at end of file
+});
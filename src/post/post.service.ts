@@ -1,58 +1,278 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
-import { Post, PostDocument } from 'src/entities/post/post.entity';
+import { Model, PipelineStage, Types } from 'mongoose';
+import { Post, PostDocument, PostStatus } from 'src/entities/post/post.entity';
+import { PostLike, PostLikeDocument } from 'src/entities/post/post-like.entity';
+import { User } from 'src/entities/users/users.entity';
+import {
+  DEFAULT_PAGE_SIZE,
+  Page,
+  PaginationQueryDTO,
+} from 'src/common/pagination/pagination.dto';
+import {
+  decodeOffsetCursor,
+  encodeOffsetCursor,
+  keysetFilter,
+  keysetSort,
+  RECENCY_SORT,
+  recencyFilter,
+  SortKey,
+  toKeysetPage,
+  toRecencyPage,
+} from 'src/common/pagination/cursor';
+import {
+  DEFAULT_RADIUS_METERS,
+  NearPostsQueryDTO,
+  PostListQueryDTO,
+  PostSort,
+  SearchPostsQueryDTO,
+  TagMatch,
+  WithinPostsQueryDTO,
+} from 'src/DTO/post-query.dto';
+import { CoordinatesDto } from 'src/DTO/create-post.dto';
+import { geoPoint, GeoPoint } from 'src/entities/post/geo-point.entity';
+import { Geocoder } from 'src/geo/geocoder';
+import { MediaService } from 'src/media/media.service';
+import { POST_POPULATE } from 'src/post/post-populate';
+import { visibleTo } from 'src/post/post-visibility';
+import { CreateCommentDTO } from 'src/DTO/comment-dto';
+import { CommentService, CommentView } from 'src/post/comment.service';
+import {
+  PostRevisionService,
+  PostRevisionView,
+  revisedChanges,
+  revisedFields,
+} from 'src/post/post-revision.service';
+import { FeedService } from 'src/feed/feed.service';
+import { escapeRegExp } from 'src/common/regex';
+import { PostSearchBackend } from 'src/search/post-search.backend';
+import { isEmptySearch, parseSearchQuery } from 'src/search/search-query';
+import { Highlight, highlight } from 'src/search/highlight';
+import { normalizeTags } from 'src/tags/normalize-tag';
+import { TrendingTagsService } from 'src/tags/trending-tags.service';
+
+// A post as seen by one viewer, with its latest comments
+export type PostView = Post & {
+  likedByMe: boolean;
+  commentPreview: CommentView[];
+};
+
+export type PostSearchResult = PostView & {
+  score: number;
+  highlights: Highlight[];
+};
+
+// Meters from the point or box center the posts were searched around
+export type PostNearby = PostView & { distance: number };
+
+// Posts as written by clients; coordinates become Post.point and media ids are checked
+export type PostInput = Omit<Partial<Post>, 'media'> & {
+  coordinates?: CoordinatesDto;
+  media?: string[];
+};
+
+export interface PostLiker {
+  _id: Types.ObjectId;
+  user: Pick<User, '_id' | 'username' | 'name' | 'surname' | 'profilePhoto'>;
+  createdAt: Date;
+}
+
+const DUPLICATE_KEY = 11000;
+
+const SORT_KEYS: Record<PostSort, SortKey<Post>> = {
+  [PostSort.Recent]: { field: 'createdAt', type: 'date' },
+  [PostSort.Likes]: { field: 'likes', type: 'number' },
+};
 
 @Injectable()
-export class PostService {
+export class PostService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PostService.name);
+
   constructor(
     @InjectModel(Post.name)
     private readonly postModel: Model<PostDocument>,
+    @InjectModel(PostLike.name)
+    private readonly postLikeModel: Model<PostLikeDocument>,
+    private readonly commentService: CommentService,
+    private readonly revisionService: PostRevisionService,
+    private readonly feedService: FeedService,
+    private readonly searchBackend: PostSearchBackend,
+    private readonly geocoder: Geocoder,
+    private readonly mediaService: MediaService,
+    private readonly trendingTags: TrendingTagsService,
   ) {}
 
-  async create(createPostDto: Partial<Post>): Promise<PostDocument> {
-    const newPost = new this.postModel(createPostDto);
-    return newPost.save();
+  // Posts from before drafts existed were all published
+  async onApplicationBootstrap(): Promise<void> {
+    const result = await this.postModel
+      .updateMany(
+        { status: { $exists: false } },
+        { $set: { status: PostStatus.Published } },
+      )
+      .exec();
+    if (result.modifiedCount > 0) {
+      this.logger.log(
+        `Marked ${result.modifiedCount} existing posts as published`,
+      );
+    }
+    const retagged = await this.normalizeStoredTags();
+    if (retagged > 0) {
+      this.logger.log(`Normalised the tags of ${retagged} existing posts`);
+    }
+  }
+
+  async create(createPostDto: PostInput): Promise<PostDocument> {
+    const { coordinates, media, ...fields } = createPostDto;
+    if (fields.tags) {
+      fields.tags = normalizeTags(fields.tags);
+    }
+    const status = fields.status ?? PostStatus.Published;
+    this.checkSchedule(status, fields.publishAt);
+    const point = await this.locate(fields.location, coordinates);
+    const newPost = new this.postModel({
+      ...fields,
+      status,
+      ...(point && { point }),
+      ...(media && {
+        media: await this.mediaService.assertOwned(
+          media,
+          String(fields.userId),
+        ),
+      }),
+    });
+    const post = await newPost.save();
+    if (post.status === PostStatus.Published) {
+      await this.feedService.publish(post);
+      await this.searchBackend.index(post);
+      await this.trendingTags.recordPost(post.tags);
+    }
+    return post;
+  }
+
+  async findAll(
+    query: PostListQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostView>> {
+    return this.findPage({}, query, viewerId);
   }
 
-  async findAll(): Promise<PostDocument[]> {
-    return this.postModel
-      .find()
-      .populate('userId', 'username email')
-      .populate('comments.user', 'username email')
+  async findOne(id: string, viewerId?: string): Promise<PostView> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid post ID');
+    }
+    const post = await this.postModel
+      .findOne({ _id: id, ...visibleTo(viewerId) })
+      .populate(POST_POPULATE)
+      .lean<Post>()
       .exec();
+
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+    const [view] = await this.toViews([post], viewerId);
+    return view;
   }
 
-  async findOne(id: string): Promise<PostDocument> {
+  async findOwnerId(id: string): Promise<string> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid post ID');
     }
     const post = await this.postModel
       .findById(id)
-      .populate('userId', 'username email')
-      .populate('comments.user', 'username email')
+      .select('userId')
+      .lean()
       .exec();
-    
     if (!post) {
       throw new NotFoundException('Post not found');
     }
-    return post;
+    return post.userId.toString();
+  }
+
+  async update(
+    id: string,
+    updatePostDto: PostInput,
+    editorId: string,
+  ): Promise<PostDocument> {
+    return this.edit(id, updatePostDto, editorId);
   }
 
-  async update(id: string, updatePostDto: Partial<Post>): Promise<PostDocument> {
+  // Puts back the text of a revision; the history itself is kept and grows by one
+  async restoreRevision(
+    id: string,
+    number: number,
+    editorId: string,
+  ): Promise<PostDocument> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid post ID');
     }
-    const updatedPost = await this.postModel
-      .findByIdAndUpdate(id, updatePostDto, { new: true })
-      .populate('userId', 'username email')
-      .populate('comments.user', 'username email')
-      .exec();
-    
-    if (!updatedPost) {
+    const revision = await this.revisionService.findOne(id, number);
+    return this.edit(id, revisedFields(revision), editorId, number);
+  }
+
+  async findRevisions(
+    id: string,
+    query: PaginationQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostRevisionView>> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid post ID');
+    }
+    if (!(await this.postModel.exists({ _id: id, ...visibleTo(viewerId) }))) {
       throw new NotFoundException('Post not found');
     }
-    return updatedPost;
+    return this.revisionService.list(new Types.ObjectId(id), query);
+  }
+
+  /**
+   * Publishes up to limit scheduled posts that are due, oldest first, and
+   * returns how many it published. Timelines and the search index are only
+   * updated once this run has marked a post published, so a post another run
+   * published, or its author unscheduled meanwhile, is never fanned out.
+   */
+  async publishDue(now: Date, limit: number): Promise<number> {
+    const due = await this.postModel
+      .find({ status: PostStatus.Scheduled, publishAt: { $lte: now } })
+      .sort({ publishAt: 1 })
+      .limit(limit)
+      .lean<Post[]>()
+      .exec();
+
+    let published = 0;
+    for (const post of due) {
+      // The post goes public at its scheduled time, however late the run is
+      const publishAt = post.publishAt as Date;
+      // Skipped when the author changed the post in the meantime
+      const result = await this.postModel
+        .updateOne(
+          { _id: post._id, status: PostStatus.Scheduled, publishAt },
+          {
+            $set: { status: PostStatus.Published, createdAt: publishAt },
+            $unset: { publishAt: 1 },
+          },
+          { overwriteImmutable: true },
+        )
+        .exec();
+      if (result.modifiedCount === 0) {
+        continue;
+      }
+      const publishedPost = {
+        ...post,
+        status: PostStatus.Published,
+        createdAt: publishAt,
+      };
+      await this.feedService.publish(publishedPost);
+      await this.searchBackend.index(publishedPost);
+      await this.trendingTags.recordPost(post.tags ?? [], publishAt);
+      published++;
+    }
+    return published;
   }
 
   async delete(id: string): Promise<void> {
@@ -63,72 +283,498 @@ export class PostService {
     if (!result) {
       throw new NotFoundException('Post not found');
     }
+    await this.postLikeModel.deleteMany({ post: result._id }).exec();
+    await this.commentService.deleteForPost(result._id);
+    await this.revisionService.deleteForPost(result._id);
+    await this.feedService.unpublish(result);
+    await this.searchBackend.remove(result._id.toString());
   }
 
-  async addLike(id: string): Promise<PostDocument> {
+  /**
+   * Likes are stored once per user; the counter moves only when a like is
+   * actually inserted or removed, so repeated or concurrent calls can't skew it.
+   */
+  async addLike(id: string, userId: string): Promise<PostView> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid post ID');
     }
-    const post = await this.postModel
-      .findByIdAndUpdate(id, { $inc: { likes: 1 } }, { new: true })
-      .populate('userId', 'username email')
-      .populate('comments.user', 'username email')
-      .exec();
-    
-    if (!post) {
+    if (!(await this.postModel.exists({ _id: id, ...visibleTo(userId) }))) {
       throw new NotFoundException('Post not found');
     }
-    return post;
+
+    let liked = false;
+    try {
+      await this.postLikeModel.create({
+        post: new Types.ObjectId(id),
+        user: new Types.ObjectId(userId),
+      });
+      await this.postModel
+        .updateOne({ _id: id }, { $inc: { likes: 1 } })
+        .exec();
+      liked = true;
+    } catch (error) {
+      if (error?.code !== DUPLICATE_KEY) {
+        throw error;
+      }
+    }
+    const view = await this.findOne(id, userId);
+    if (liked && view.status === PostStatus.Published) {
+      await this.trendingTags.recordLike(view.tags ?? []);
+    }
+    return view;
   }
 
-  async addComment(id: string, userId: string, text: string): Promise<PostDocument> {
+  async removeLike(id: string, userId: string): Promise<PostView> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid post ID');
     }
+    if (!(await this.postModel.exists({ _id: id, ...visibleTo(userId) }))) {
+      throw new NotFoundException('Post not found');
+    }
+
+    const result = await this.postLikeModel
+      .deleteOne({ post: id, user: userId })
+      .exec();
+    if (result.deletedCount === 1) {
+      // Posts liked before likes were stored per user may have fewer rows than likes
+      await this.postModel
+        .updateOne({ _id: id, likes: { $gt: 0 } }, { $inc: { likes: -1 } })
+        .exec();
+    }
+    return this.findOne(id, userId);
+  }
+
+  async findLikers(
+    id: string,
+    query: PaginationQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostLiker>> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid post ID');
+    }
+    if (!(await this.postModel.exists({ _id: id, ...visibleTo(viewerId) }))) {
+      throw new NotFoundException('Post not found');
+    }
+
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const likes = await this.postLikeModel
+      .find({ post: id, ...recencyFilter(query.cursor) })
+      .sort(RECENCY_SORT)
+      .limit(limit + 1)
+      .select('user createdAt')
+      .populate('user', 'username name surname profilePhoto')
+      .lean<PostLiker[]>()
+      .exec();
+    return toRecencyPage(likes, limit);
+  }
+
+  // Kept for clients of the single comment endpoint; see CommentService.create
+  async addComment(
+    id: string,
+    userId: string,
+    text: string,
+  ): Promise<PostView> {
+    const createDto: CreateCommentDTO = { text };
+    await this.commentService.create(id, userId, createDto);
+    return this.findOne(id, userId);
+  }
+
+  async findByTags(
+    query: PostListQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostView>> {
+    if (!query.tags?.length) {
+      throw new BadRequestException('At least one tag is required');
+    }
+    return this.findPage({}, query, viewerId);
+  }
+
+  async search(
+    query: SearchPostsQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostSearchResult>> {
+    const parsed = parseSearchQuery(query.q);
+    if (isEmptySearch(parsed)) {
+      throw new BadRequestException('Nothing to search for');
+    }
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = decodeOffsetCursor(query.cursor);
+    const hits = await this.searchBackend.search(parsed, offset, limit + 1);
+    const page = hits.slice(0, limit);
+
+    // The backend ranks; posts are loaded here so results look like other listings
+    const posts = await this.postModel
+      .find({ _id: { $in: page.map((hit) => new Types.ObjectId(hit.id)) } })
+      .populate(POST_POPULATE)
+      .lean<Post[]>()
+      .exec();
+    const byId = new Map(posts.map((post) => [post._id.toString(), post]));
+    const ranked = page.flatMap((hit) => {
+      const post = byId.get(hit.id);
+      return post ? [{ post, score: hit.score }] : [];
+    });
+    const views = await this.toViews(
+      ranked.map(({ post }) => post),
+      viewerId,
+    );
+
+    return {
+      items: views.map((view, i) => ({
+        ...view,
+        score: ranked[i].score,
+        highlights: highlight(
+          {
+            description: view.description,
+            content: view.content,
+            ...(view.location && { location: view.location }),
+            tags: (view.tags ?? []).join(', '),
+          },
+          parsed,
+        ),
+      })),
+      nextCursor:
+        hits.length > limit ? encodeOffsetCursor(offset + limit) : null,
+    };
+  }
+
+  async findNear(
+    query: NearPostsQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostNearby>> {
+    return this.findByDistance(
+      {
+        near: geoPoint(query.lat, query.lng),
+        maxDistance: query.radius ?? DEFAULT_RADIUS_METERS,
+      },
+      query,
+      viewerId,
+    );
+  }
+
+  async findWithin(
+    query: WithinPostsQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostNearby>> {
+    const { minLat, minLng, maxLat, maxLng } = query;
+    if (minLat >= maxLat || minLng >= maxLng) {
+      throw new BadRequestException(
+        'The box must have min below max on both axes',
+      );
+    }
+    const box = {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [minLng, minLat],
+          [maxLng, minLat],
+          [maxLng, maxLat],
+          [minLng, maxLat],
+          [minLng, minLat],
+        ],
+      ],
+    };
+    return this.findByDistance(
+      {
+        near: geoPoint((minLat + maxLat) / 2, (minLng + maxLng) / 2),
+        query: { point: { $geoWithin: { $geometry: box } } },
+      },
+      query,
+      viewerId,
+    );
+  }
+
+  async findFeed(
+    userId: string,
+    query: PaginationQueryDTO,
+  ): Promise<Page<PostView>> {
+    const page = await this.feedService.findPage(userId, query);
+    return { ...page, items: await this.toViews(page.items, userId) };
+  }
+
+  async findByUser(
+    userId: string,
+    query: PostListQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostView>> {
     if (!Types.ObjectId.isValid(userId)) {
       throw new BadRequestException('Invalid user ID');
     }
+    return this.findPage(
+      { userId: new Types.ObjectId(userId) },
+      query,
+      viewerId,
+    );
+  }
 
-    const post = await this.postModel
-      .findByIdAndUpdate(
-        id,
+  private async findPage(
+    filter: Record<string, unknown>,
+    query: PostListQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostView>> {
+    const key = SORT_KEYS[query.sort ?? PostSort.Recent];
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const posts = await this.postModel
+      .find({
+        ...filter,
+        ...this.listFilter(query),
+        $and: [visibleTo(viewerId), keysetFilter(key, query.cursor)],
+      })
+      .sort(keysetSort(key))
+      .limit(limit + 1)
+      .populate(POST_POPULATE)
+      .lean<Post[]>()
+      .exec();
+
+    const page = toKeysetPage(posts, key, limit);
+    return { ...page, items: await this.toViews(page.items, viewerId) };
+  }
+
+  // Nearest first; $geoNear can't resume from a position, so pages are offsets
+  private async findByDistance(
+    geoNear: Omit<PipelineStage.GeoNear['$geoNear'], 'distanceField'>,
+    query: PaginationQueryDTO,
+    viewerId?: string,
+  ): Promise<Page<PostNearby>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = decodeOffsetCursor(query.cursor);
+    const posts = await this.postModel
+      .aggregate<Post & { distance: number }>([
+        {
+          $geoNear: {
+            key: 'point',
+            distanceField: 'distance',
+            spherical: true,
+            ...geoNear,
+            query: { ...visibleTo(viewerId), ...geoNear.query },
+          },
+        },
+        { $skip: offset },
+        { $limit: limit + 1 },
+      ])
+      .exec();
+
+    const page: Post[] = await this.postModel.populate(
+      posts.slice(0, limit),
+      POST_POPULATE,
+    );
+    const views = await this.toViews(page, viewerId);
+    return {
+      items: views.map((view, i) => ({
+        ...view,
+        distance: Math.round(posts[i].distance),
+      })),
+      nextCursor:
+        posts.length > limit ? encodeOffsetCursor(offset + limit) : null,
+    };
+  }
+
+  // Coordinates given by the client win over the geocoder
+  private async locate(
+    location?: string,
+    coordinates?: CoordinatesDto,
+  ): Promise<GeoPoint | null> {
+    if (coordinates) {
+      return geoPoint(coordinates.lat, coordinates.lng);
+    }
+    return location ? this.geocoder.geocode(location) : null;
+  }
+
+  private async edit(
+    id: string,
+    input: PostInput,
+    editorId: string,
+    restoredFrom?: number,
+  ): Promise<PostDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid post ID');
+    }
+    const current = await this.postModel.findById(id).lean<Post>().exec();
+    if (!current) {
+      throw new NotFoundException('Post not found');
+    }
+    const { coordinates, media, ...fields } = input;
+    if (fields.tags) {
+      fields.tags = normalizeTags(fields.tags);
+    }
+    const changes: Record<string, unknown> = { ...fields };
+    const unset: Record<string, 1> = {};
+    let publishing = false;
+    if (fields.status !== undefined || fields.publishAt !== undefined) {
+      const status = fields.status ?? current.status;
+      if (
+        current.status === PostStatus.Published &&
+        status !== PostStatus.Published
+      ) {
+        throw new BadRequestException(
+          'A published post cannot go back to draft or be scheduled',
+        );
+      }
+      this.checkSchedule(
+        status,
+        fields.publishAt ??
+          (status === PostStatus.Scheduled ? current.publishAt : undefined),
+      );
+      if (status !== PostStatus.Scheduled) {
+        unset.publishAt = 1;
+      }
+      // Published now, so it goes to the top of listings and feeds
+      publishing =
+        current.status !== PostStatus.Published &&
+        status === PostStatus.Published;
+      if (publishing) {
+        changes.createdAt = new Date();
+      }
+    }
+    // Only the author's own uploads can be attached
+    if (media) {
+      changes.media = await this.mediaService.assertOwned(
+        media,
+        current.userId.toString(),
+      );
+    }
+    // A new location without coordinates replaces the point, or drops it when unknown
+    if (
+      coordinates ||
+      (fields.location !== undefined && fields.location !== current.location)
+    ) {
+      const point = await this.locate(fields.location, coordinates);
+      if (point) {
+        changes.point = point;
+      } else {
+        unset.point = 1;
+      }
+    }
+    if (Object.keys(unset).length > 0) {
+      changes.$unset = unset;
+    }
+    // Readers have seen the text of published posts, so changes to it are kept
+    const revised = revisedChanges(current, fields);
+    const revising =
+      current.status === PostStatus.Published &&
+      Object.keys(revised).length > 0;
+    if (revising) {
+      changes.editedAt = new Date();
+    }
+
+    // Only applies to the post as it was read, so of two racing edits the second matches nothing
+    const updatedPost = await this.postModel
+      .findOneAndUpdate(
+        { _id: id, editedAt: current.editedAt ?? null },
+        changes,
         {
-          $push: {
-            comments: {
-              text,
-              user: new Types.ObjectId(userId),
-              createdAt: new Date()
-            }
-          }
+          new: true,
+          ...(publishing && { overwriteImmutable: true }),
         },
-        { new: true }
       )
-      .populate('userId', 'username email')
-      .populate('comments.user', 'username email')
+      .populate(POST_POPULATE)
       .exec();
 
-    if (!post) {
+    if (!updatedPost) {
+      if (await this.postModel.exists({ _id: id })) {
+        throw new ConflictException(
+          'The post was edited at the same time; reload it and try again',
+        );
+      }
       throw new NotFoundException('Post not found');
     }
-    return post;
+    if (revising) {
+      await this.revisionService.record(
+        current,
+        revised,
+        editorId,
+        restoredFrom,
+      );
+    }
+    if (publishing) {
+      await this.feedService.publish(updatedPost);
+      await this.trendingTags.recordPost(updatedPost.tags);
+    }
+    if (updatedPost.status === PostStatus.Published) {
+      await this.searchBackend.index(updatedPost);
+    }
+    return updatedPost;
   }
 
-  async findByTags(tags: string[]): Promise<PostDocument[]> {
-    return this.postModel
-      .find({ tags: { $in: tags } })
-      .populate('userId', 'username email')
-      .populate('comments.user', 'username email')
-      .exec();
+  // Tags stored before they were normalised; posts whose tags are all normal are skipped
+  private async normalizeStoredTags(): Promise<number> {
+    // [^ -~] is anything but printable ASCII: accents, tabs, other spaces
+    const posts = this.postModel
+      .find({ tags: { $regex: /[A-Z]|^#|^\s|\s$|\s\s|[^ -~]/ } })
+      .select('tags')
+      .lean<Pick<Post, '_id' | 'tags'>[]>()
+      .cursor();
+
+    let retagged = 0;
+    for await (const post of posts) {
+      const tags = normalizeTags(post.tags);
+      if (tags.join('\n') !== post.tags.join('\n')) {
+        await this.postModel
+          .updateOne({ _id: post._id }, { $set: { tags } })
+          .exec();
+        retagged++;
+      }
+    }
+    return retagged;
   }
 
-  async findByUser(userId: string): Promise<PostDocument[]> {
-    if (!Types.ObjectId.isValid(userId)) {
-      throw new BadRequestException('Invalid user ID');
+  // Only scheduled posts have a publish time, and it has to be ahead
+  private checkSchedule(status: PostStatus, publishAt?: Date): void {
+    if (status !== PostStatus.Scheduled) {
+      if (publishAt) {
+        throw new BadRequestException(
+          'publishAt is only used by scheduled posts',
+        );
+      }
+      return;
     }
-    return this.postModel
-      .find({ userId: new Types.ObjectId(userId) })
-      .populate('userId', 'username email')
-      .populate('comments.user', 'username email')
-      .exec();
+    if (!publishAt || publishAt.getTime() <= Date.now()) {
+      throw new BadRequestException(
+        'Scheduled posts need a publishAt in the future',
+      );
+    }
+  }
+
+  private listFilter(query: PostListQueryDTO): Record<string, unknown> {
+    const filter: Record<string, unknown> = {};
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lt: query.to }),
+      };
+    }
+    if (query.location) {
+      filter.location = { $regex: escapeRegExp(query.location), $options: 'i' };
+    }
+    if (query.tags?.length) {
+      const tags = normalizeTags(query.tags);
+      filter.tags =
+        query.tagMode === TagMatch.All ? { $all: tags } : { $in: tags };
+    }
+    if (query.status) {
+      filter.status = query.status;
+    }
+    return filter;
+  }
+
+  // One query each for likes and previews; anonymous viewers have liked nothing
+  private async toViews(posts: Post[], viewerId?: string): Promise<PostView[]> {
+    const liked = new Set<string>();
+    if (viewerId && Types.ObjectId.isValid(viewerId) && posts.length > 0) {
+      const likes = await this.postLikeModel
+        .find({ user: viewerId, post: { $in: posts.map((post) => post._id) } })
+        .select('post')
+        .lean()
+        .exec();
+      likes.forEach((like) => liked.add(like.post.toString()));
+    }
+    const previews = await this.commentService.previews(
+      posts.map((post) => post._id),
+      viewerId,
+    );
+    return posts.map((post) => ({
+      ...post,
+      likedByMe: liked.has(post._id.toString()),
+      commentPreview: previews.get(post._id.toString()) ?? [],
+    }));
   }
-} 
\ No newline at end of file
+}
@@ -2,12 +2,16 @@ import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { ROLES_KEY } from 'src/auth/decorators/role.decorator';
 import { Role } from 'src/entities/users/users.entity';
+import { AccessDeniedException, AccessDeniedReason } from 'src/policies/access-denied.exception';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
   constructor(private reflector: Reflector) {}
 
   canActivate(context: ExecutionContext): boolean {
+    if (context.getType() !== 'http') {
+      return true;
+    }
     const requiredRoles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
       context.getHandler(),
       context.getClass(),
@@ -18,7 +22,12 @@ export class RolesGuard implements CanActivate {
     }
 
     const { user } = context.switchToHttp().getRequest();
-    console.log('User roles:', user.role); 
-    return requiredRoles.some((role) => user.role?.includes(role)); 
+    if (!requiredRoles.some((role) => user?.role === role)) {
+      throw new AccessDeniedException(
+        AccessDeniedReason.MissingRole,
+        `Requires one of the roles: ${requiredRoles.join(', ')}`,
+      );
+    }
+    return true;
   }
 }
@@ -0,0 +1,42 @@
+import { highlight, highlighter, snippet } from './highlight';
+import { parseSearchQuery } from './search-query';
+
+describe('highlight', () => {
+  it('should mark words, prefixes and phrases', () => {
+    const query = parseSearchQuery('garden tom* "olive oil"');
+
+    expect(
+      highlight(
+        {
+          description: 'Gardening with tomatoes',
+          content: 'Extra virgin olive  oil',
+          location: 'Rome',
+        },
+        query,
+      ),
+    ).toEqual([
+      {
+        field: 'description',
+        snippet: '<mark>Gardening</mark> with <mark>tomatoes</mark>',
+      },
+      { field: 'content', snippet: 'Extra virgin <mark>olive  oil</mark>' },
+    ]);
+  });
+
+  it('should not match inside words', () => {
+    const matcher = highlighter(parseSearchQuery('oil'))!;
+
+    expect(snippet('boiling water', matcher)).toBeNull();
+  });
+
+  it('should trim long text around the first match and escape it', () => {
+    const matcher = highlighter(parseSearchQuery('basil'))!;
+    const text = `${'word '.repeat(30)}<b>basil</b> ${'more '.repeat(30)}`;
+
+    const result = snippet(text, matcher)!;
+
+    expect(result.startsWith('…word')).toBe(true);
+    expect(result.endsWith('more…')).toBe(true);
+    expect(result).toContain('&lt;b&gt;<mark>basil</mark>&lt;/b&gt;');
+  });
+});
@@ -0,0 +1,90 @@
+import { escapeRegExp } from '../common/regex';
+import { SearchQuery } from './search-query';
+
+export interface Highlight {
+  field: string;
+  // HTML escaped, with the matches wrapped in <mark>
+  snippet: string;
+}
+
+// Characters of context kept on each side of the first match
+const CONTEXT = 60;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Matches what the query asked for, loosely: words also match the longer
+ * words they start, which covers most of what a stemming index matches too.
+ */
+export function highlighter(query: SearchQuery): RegExp | null {
+  const alternatives = [
+    ...query.phrases.map((phrase) =>
+      phrase.split(' ').map(escapeRegExp).join('\\s+'),
+    ),
+    ...[...query.terms, ...query.prefixes].map(
+      (word) => `${escapeRegExp(word)}\\w*`,
+    ),
+  ];
+  if (alternatives.length === 0) {
+    return null;
+  }
+  return new RegExp(`\\b(?:${alternatives.join('|')})`, 'gi');
+}
+
+/**
+ * A window of text around the first match, or null when nothing matches.
+ */
+export function snippet(text: string, matcher: RegExp): string | null {
+  const first = new RegExp(matcher.source, 'i').exec(text);
+  if (!first) {
+    return null;
+  }
+
+  let start = Math.max(0, first.index - CONTEXT);
+  let end = Math.min(text.length, first.index + first[0].length + CONTEXT);
+  // Don't cut words in half
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < first.index ? space + 1 : start;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > first.index + first[0].length ? space : end;
+  }
+
+  const window = text.slice(start, end);
+  let marked = '';
+  let last = 0;
+  for (const match of window.matchAll(new RegExp(matcher.source, 'gi'))) {
+    marked += escapeHtml(window.slice(last, match.index));
+    marked += `<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index + match[0].length;
+  }
+  marked += escapeHtml(window.slice(last));
+
+  return `${start > 0 ? '…' : ''}${marked}${end < text.length ? '…' : ''}`;
+}
+
+export function highlight(
+  fields: Record<string, string>,
+  query: SearchQuery,
+): Highlight[] {
+  const matcher = highlighter(query);
+  if (!matcher) {
+    return [];
+  }
+  return Object.entries(fields).flatMap(([field, text]) => {
+    const marked = snippet(text, matcher);
+    return marked === null ? [] : [{ field, snippet: marked }];
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Post, PostDocument, PostStatus } from '../entities/post/post.entity';
+import { escapeRegExp } from '../common/regex';
+import { PostSearchBackend, SearchHit } from './post-search.backend';
+import { SearchQuery } from './search-query';
+
+const TEXT_FIELDS = ['description', 'content', 'location', 'tags'] as const;
+
+// Bounds the regex scan that turns a prefix into the words it stands for
+const PREFIX_SCAN_LIMIT = 200;
+const MAX_EXPANSIONS = 20;
+
+/**
+ * Searches the text index on posts (see PostSchema). The index has no prefix
+ * matching, so prefixes are first expanded into the indexed words that start
+ * with them, and those words are searched like the others.
+ */
+@Injectable()
+export class MongoTextSearchBackend extends PostSearchBackend {
+  constructor(
+    @InjectModel(Post.name) private readonly postModel: Model<PostDocument>,
+  ) {
+    super();
+  }
+
+  async search(
+    query: SearchQuery,
+    offset: number,
+    limit: number,
+  ): Promise<SearchHit[]> {
+    const words = [
+      ...query.terms,
+      ...(await this.expandPrefixes(query.prefixes)),
+    ];
+    // Quoted phrases are required by $text; the words only add to the score
+    const search = [
+      ...query.phrases.map((phrase) => `"${phrase}"`),
+      ...words,
+    ].join(' ');
+    if (search.length === 0) {
+      return [];
+    }
+
+    const posts = await this.postModel
+      .find({ $text: { $search: search }, status: PostStatus.Published })
+      .select({ _id: 1, score: { $meta: 'textScore' } })
+      .sort({ score: { $meta: 'textScore' }, _id: -1 })
+      .skip(offset)
+      .limit(limit)
+      .lean<{ _id: Post['_id']; score: number }[]>()
+      .exec();
+    return posts.map((post) => ({
+      id: post._id.toString(),
+      score: post.score,
+    }));
+  }
+
+  // The text index is maintained by Mongo
+  async index(): Promise<void> {}
+
+  async remove(): Promise<void> {}
+
+  private async expandPrefixes(prefixes: string[]): Promise<string[]> {
+    const words = new Set<string>();
+    for (const prefix of prefixes) {
+      const pattern = `\\b${escapeRegExp(prefix)}`;
+      const posts = await this.postModel
+        .find({
+          // Words only drafts and scheduled posts use must not leak into results
+          status: PostStatus.Published,
+          $or: TEXT_FIELDS.map((field) => ({
+            [field]: { $regex: pattern, $options: 'i' },
+          })),
+        })
+        .select(TEXT_FIELDS.join(' '))
+        .limit(PREFIX_SCAN_LIMIT)
+        .lean<Post[]>()
+        .exec();
+
+      const matcher = new RegExp(`${pattern}\\w*`, 'gi');
+      const found = new Set<string>();
+      for (const post of posts) {
+        const text = [post.description, post.content, post.location]
+          .concat(post.tags ?? [])
+          .join(' ');
+        for (const [word] of text.matchAll(matcher)) {
+          found.add(word.toLowerCase());
+          if (found.size >= MAX_EXPANSIONS) {
+            break;
+          }
+        }
+        if (found.size >= MAX_EXPANSIONS) {
+          break;
+        }
+      }
+      found.forEach((word) => words.add(word));
+    }
+    return [...words];
+  }
+}
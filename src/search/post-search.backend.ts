@@ -0,0 +1,25 @@
+import { Post } from '../entities/post/post.entity';
+import { SearchQuery } from './search-query';
+
+export interface SearchHit {
+  id: string;
+  // Higher is more relevant; only comparable within one search
+  score: number;
+}
+
+/**
+ * Where post search runs. Implementations rank the posts matching the query;
+ * loading and presenting them is left to PostService. The index and remove
+ * hooks let engines that keep their own copy of the posts stay in sync.
+ */
+export abstract class PostSearchBackend {
+  abstract search(
+    query: SearchQuery,
+    offset: number,
+    limit: number,
+  ): Promise<SearchHit[]>;
+
+  abstract index(post: Post): Promise<void>;
+
+  abstract remove(postId: string): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import { isEmptySearch, parseSearchQuery } from './search-query';
+
+describe('parseSearchQuery', () => {
+  it('should split phrases, prefixes and terms', () => {
+    expect(parseSearchQuery('garden  "olive  oil" Tomat* garden')).toEqual({
+      terms: ['garden'],
+      phrases: ['olive oil'],
+      prefixes: ['tomat'],
+    });
+  });
+
+  it('should ignore unbalanced quotes and one letter prefixes', () => {
+    expect(parseSearchQuery('"rome t*')).toEqual({
+      terms: ['rome'],
+      phrases: [],
+      prefixes: [],
+    });
+  });
+
+  it('should find nothing to search in blank input', () => {
+    expect(isEmptySearch(parseSearchQuery(' "" * '))).toBe(true);
+  });
+});
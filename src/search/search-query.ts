@@ -0,0 +1,50 @@
+// A search box query split into what backends match on
+export interface SearchQuery {
+  // Words any of which may match
+  terms: string[];
+  // Quoted phrases that must all appear
+  phrases: string[];
+  // Words written as `prefix*`, lower case and without the star
+  prefixes: string[];
+}
+
+const PHRASE = /"([^"]*)"/g;
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const phrases = [...input.matchAll(PHRASE)]
+    .map((match) => match[1].trim().replace(/\s+/g, ' '))
+    .filter((phrase) => phrase.length > 0);
+
+  const terms: string[] = [];
+  const prefixes: string[] = [];
+  input
+    .replace(PHRASE, ' ')
+    .replace(/"/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .forEach((word) => {
+      if (word.endsWith('*')) {
+        const prefix = word.replace(/\*+$/, '').toLowerCase();
+        // A lone letter would match most of the collection
+        if (prefix.length >= 2) {
+          prefixes.push(prefix);
+        }
+      } else {
+        terms.push(word);
+      }
+    });
+
+  return {
+    terms: [...new Set(terms)],
+    phrases: [...new Set(phrases)],
+    prefixes: [...new Set(prefixes)],
+  };
+}
+
+export function isEmptySearch(query: SearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    query.phrases.length === 0 &&
+    query.prefixes.length === 0
+  );
+}
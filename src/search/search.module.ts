@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Post, PostSchema } from '../entities/post/post.entity';
+import { PostSearchBackend } from './post-search.backend';
+import { MongoTextSearchBackend } from './mongo-text-search.backend';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Post.name, schema: PostSchema }]),
+  ],
+  // Swap useClass to move search to another engine
+  providers: [{ provide: PostSearchBackend, useClass: MongoTextSearchBackend }],
+  exports: [PostSearchBackend],
+})
+export class SearchModule {}
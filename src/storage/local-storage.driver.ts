@@ -0,0 +1,69 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage.driver';
+
+const KEY_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Keeps files in MEDIA_ROOT and serves them through MediaController. Fine for
+ * one instance; several instances need a shared driver such as S3.
+ */
+@Injectable()
+export class LocalStorageDriver extends StorageDriver {
+  private readonly root: string;
+  private readonly publicUrl: string;
+
+  constructor(private configService: ConfigService) {
+    super();
+    this.root = resolve(this.configService.get('MEDIA_ROOT', 'uploads'));
+    // Where this API is reached; APP_URL is the frontend, which has no files
+    const apiUrl = this.configService.get<string>(
+      'API_URL',
+      `http://localhost:${this.configService.get('PORT', 3001)}`,
+    );
+    this.publicUrl = this.configService.get(
+      'MEDIA_PUBLIC_URL',
+      `${apiUrl}/media/files`,
+    );
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await mkdir(this.root, { recursive: true });
+    await writeFile(this.path(key), data);
+  }
+
+  async open(key: string): Promise<Readable | null> {
+    const path = this.path(key);
+    try {
+      if (!(await stat(path)).isFile()) {
+        return null;
+      }
+    } catch (error) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  // Keys come from URLs when serving, so nothing outside root is reachable
+  private path(key: string): string {
+    if (!KEY_PATTERN.test(key) || key.startsWith('.')) {
+      throw new BadRequestException('Invalid file key');
+    }
+    return join(this.root, key);
+  }
+}
@@ -0,0 +1,18 @@
+import { Readable } from 'stream';
+
+/**
+ * Where uploaded files live. Keys are generated by the app and only contain
+ * [A-Za-z0-9._-], so drivers can use them as file names or object keys.
+ */
+export abstract class StorageDriver {
+  abstract put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  // Null when there is no such file
+  abstract open(key: string): Promise<Readable | null>;
+
+  // Deleting a missing file is not an error
+  abstract delete(key: string): Promise<void>;
+
+  // Where clients download the file from
+  abstract url(key: string): string;
+}
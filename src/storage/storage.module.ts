@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { StorageDriver } from './storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+
+@Module({
+  // An S3 compatible driver can replace this without touching callers
+  providers: [{ provide: StorageDriver, useClass: LocalStorageDriver }],
+  exports: [StorageDriver],
+})
+export class StorageModule {}
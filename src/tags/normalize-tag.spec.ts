@@ -0,0 +1,16 @@
+import { normalizeTag, normalizeTags } from './normalize-tag';
+
+describe('normalizeTag', () => {
+  it('should fold case, accents, spaces and a leading #', () => {
+    expect(normalizeTag('  #Café  Crème ')).toBe('cafe creme');
+    expect(normalizeTag('MÜNCHEN')).toBe('munchen');
+    expect(normalizeTag('c#')).toBe('c#');
+  });
+
+  it('should drop empty tags and duplicates, keeping the first order', () => {
+    expect(normalizeTags(['Rome', '#', 'travel', 'ROME', ' '])).toEqual([
+      'rome',
+      'travel',
+    ]);
+  });
+});
@@ -0,0 +1,14 @@
+import { foldText } from '../common/text';
+
+/**
+ * The form tags are stored and looked up in: lower case, without accents, a
+ * leading # or extra spaces, so "#Café " and "cafe" are one tag.
+ */
+export function normalizeTag(tag: string): string {
+  return foldText(tag).replace(/^#+\s*/, '');
+}
+
+// Normalised, without empty tags and duplicates, in their first order
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter((tag) => tag.length > 0))];
+}
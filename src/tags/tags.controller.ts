@@ -0,0 +1,51 @@
+import { Controller, Get, Param, Query, ValidationPipe } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Public } from '../auth/decorators/public.decorators';
+import {
+  DEFAULT_TAG_STATS_DAYS,
+  DEFAULT_TRENDING_LIMIT,
+  TagStatsQueryDTO,
+  TrendingTagsQueryDTO,
+  TrendWindow,
+} from '../DTO/tag-query.dto';
+import { TagsService } from './tags.service';
+import { TrendingTagsService } from './trending-tags.service';
+
+@Controller('tags')
+@ApiTags('Tags')
+export class TagsController {
+  constructor(
+    private readonly tagsService: TagsService,
+    private readonly trendingTagsService: TrendingTagsService,
+  ) {}
+
+  // Declared before :tag, which would otherwise match it
+  @Get('trending')
+  @Public()
+  @ApiOperation({
+    summary: 'The most active tags of the last hour, day or week',
+  })
+  trending(
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: TrendingTagsQueryDTO,
+  ) {
+    return this.trendingTagsService.trending(
+      query.window ?? TrendWindow.Day,
+      query.limit ?? DEFAULT_TRENDING_LIMIT,
+    );
+  }
+
+  @Get(':tag')
+  @Public()
+  @ApiOperation({
+    summary: 'Daily use of a tag, its most liked posts and related tags',
+  })
+  @ApiResponse({ status: 400, description: 'Empty tag.' })
+  stats(
+    @Param('tag') tag: string,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: TagStatsQueryDTO,
+  ) {
+    return this.tagsService.stats(tag, query.days ?? DEFAULT_TAG_STATS_DAYS);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Post, PostSchema } from '../entities/post/post.entity';
+import { RedisModule } from '../redis/redis.module';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+import { TrendingTagsService } from './trending-tags.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Post.name, schema: PostSchema }]),
+    RedisModule,
+  ],
+  controllers: [TagsController],
+  providers: [TagsService, TrendingTagsService],
+  // Posts report new posts and likes to the trending counters
+  exports: [TrendingTagsService],
+})
+export class TagsModule {}
@@ -0,0 +1,73 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Post, PostStatus } from '../entities/post/post.entity';
+import { TagsService } from './tags.service';
+
+describe('TagsService', () => {
+  let service: TagsService;
+
+  const mockPostModel = {
+    aggregate: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const resolving = (value: unknown) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TagsService,
+        { provide: getModelToken(Post.name), useValue: mockPostModel },
+      ],
+    }).compile();
+
+    service = module.get<TagsService>(TagsService);
+  });
+
+  it('should report every day of the range and the related tags', async () => {
+    mockPostModel.aggregate
+      .mockReturnValueOnce(
+        resolving([{ _id: '2024-03-09', posts: 2, likes: 7 }]),
+      )
+      .mockReturnValueOnce(resolving([{ _id: 'travel', posts: 2 }]));
+    mockPostModel.find.mockReturnValue({
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      populate: jest.fn().mockReturnThis(),
+      lean: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue([]),
+    });
+
+    const stats = await service.stats(
+      '#Rome',
+      3,
+      new Date('2024-03-10T15:00:00Z'),
+    );
+
+    expect(mockPostModel.find).toHaveBeenCalledWith({
+      tags: 'rome',
+      status: PostStatus.Published,
+      createdAt: { $gte: new Date('2024-03-08T00:00:00Z') },
+    });
+    expect(stats).toEqual({
+      tag: 'rome',
+      posts: 2,
+      usage: [
+        { date: '2024-03-08', posts: 0, likes: 0 },
+        { date: '2024-03-09', posts: 2, likes: 7 },
+        { date: '2024-03-10', posts: 0, likes: 0 },
+      ],
+      topPosts: [],
+      related: [{ tag: 'travel', posts: 2 }],
+    });
+  });
+
+  it('should reject a tag that normalises to nothing', async () => {
+    await expect(service.stats(' # ', 30)).rejects.toThrow(BadRequestException);
+  });
+});
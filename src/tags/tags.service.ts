@@ -0,0 +1,124 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, PipelineStage } from 'mongoose';
+import { Post, PostDocument, PostStatus } from '../entities/post/post.entity';
+import { POST_POPULATE } from '../post/post-populate';
+import { normalizeTag } from './normalize-tag';
+
+export interface TagUsage {
+  // UTC day, as YYYY-MM-DD
+  date: string;
+  posts: number;
+  likes: number;
+}
+
+export interface RelatedTag {
+  tag: string;
+  // Posts using both tags
+  posts: number;
+}
+
+export interface TagStats {
+  tag: string;
+  posts: number;
+  usage: TagUsage[];
+  topPosts: Post[];
+  related: RelatedTag[];
+}
+
+// Aggregation results, grouped by day or by tag
+interface DayCount {
+  _id: string;
+  posts: number;
+  likes: number;
+}
+type TagCount = Omit<DayCount, 'likes'>;
+
+const TOP_POSTS = 10;
+const RELATED_TAGS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class TagsService {
+  constructor(
+    @InjectModel(Post.name) private readonly postModel: Model<PostDocument>,
+  ) {}
+
+  /**
+   * What published posts did with a tag over the last days: posts and likes
+   * per day (days without posts included), the most liked posts and the tags
+   * most often used alongside it.
+   */
+  async stats(tag: string, days: number, now = new Date()): Promise<TagStats> {
+    const normalized = normalizeTag(tag);
+    if (!normalized) {
+      throw new BadRequestException('Invalid tag');
+    }
+    const firstDay = Math.floor(now.getTime() / DAY_MS) - days + 1;
+    const match = {
+      tags: normalized,
+      status: PostStatus.Published,
+      createdAt: { $gte: new Date(firstDay * DAY_MS) },
+    };
+
+    const [daily, related, topPosts] = await Promise.all([
+      this.dailyUsage(match),
+      this.relatedTags(match, normalized),
+      this.postModel
+        .find(match)
+        .sort({ likes: -1, _id: -1 })
+        .limit(TOP_POSTS)
+        .populate(POST_POPULATE)
+        .lean<Post[]>()
+        .exec(),
+    ]);
+
+    const byDate = new Map(daily.map((day) => [day._id, day]));
+    const usage: TagUsage[] = [];
+    for (let day = firstDay; day < firstDay + days; day++) {
+      const date = new Date(day * DAY_MS).toISOString().slice(0, 10);
+      const found = byDate.get(date);
+      usage.push({
+        date,
+        posts: found?.posts ?? 0,
+        likes: found?.likes ?? 0,
+      });
+    }
+
+    return {
+      tag: normalized,
+      posts: usage.reduce((total, day) => total + day.posts, 0),
+      usage,
+      topPosts,
+      related: related.map(({ _id, posts }) => ({ tag: _id, posts })),
+    };
+  }
+
+  private dailyUsage(match: PipelineStage.Match['$match']) {
+    return this.postModel
+      .aggregate<DayCount>([
+        { $match: match },
+        {
+          $group: {
+            _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
+            posts: { $sum: 1 },
+            likes: { $sum: '$likes' },
+          },
+        },
+      ])
+      .exec();
+  }
+
+  private relatedTags(match: PipelineStage.Match['$match'], tag: string) {
+    return this.postModel
+      .aggregate<TagCount>([
+        { $match: match },
+        { $unwind: '$tags' },
+        { $match: { tags: { $ne: tag } } },
+        { $group: { _id: '$tags', posts: { $sum: 1 } } },
+        { $sort: { posts: -1, _id: 1 } },
+        { $limit: RELATED_TAGS },
+      ])
+      .exec();
+  }
+}
@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TrendWindow } from '../DTO/tag-query.dto';
+import { TrendingTagsService } from './trending-tags.service';
+
+describe('TrendingTagsService', () => {
+  let service: TrendingTagsService;
+
+  const batch = {
+    zIncrBy: jest.fn(),
+    expire: jest.fn(),
+    exec: jest.fn(),
+  };
+  const mockRedis = {
+    multi: jest.fn(() => batch),
+    exists: jest.fn(),
+    zUnionStore: jest.fn(),
+    expire: jest.fn(),
+    zRangeWithScores: jest.fn(),
+  };
+
+  const HOUR = 60 * 60 * 1000;
+  const now = new Date(1000 * HOUR + 30 * 60 * 1000);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedis.zRangeWithScores.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrendingTagsService,
+        { provide: 'REDIS_CLIENT', useValue: mockRedis },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback: unknown) => fallback },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TrendingTagsService>(TrendingTagsService);
+  });
+
+  it('should count a post in the current five minute and hour buckets', async () => {
+    await service.recordPost(['rome', 'travel'], now);
+
+    expect(batch.zIncrBy.mock.calls).toEqual([
+      ['tags:uses:5m:12006', 3, 'rome'],
+      ['tags:uses:5m:12006', 3, 'travel'],
+      ['tags:uses:1h:1000', 3, 'rome'],
+      ['tags:uses:1h:1000', 3, 'travel'],
+    ]);
+    expect(batch.exec).toHaveBeenCalled();
+  });
+
+  it('should halve the weight of buckets every half-life', async () => {
+    mockRedis.exists.mockResolvedValue(0);
+    mockRedis.zRangeWithScores.mockResolvedValue([
+      { value: 'rome', score: 4.1234 },
+    ]);
+
+    const result = await service.trending(TrendWindow.Day, 5, now);
+
+    const [key, keys, { WEIGHTS }] = mockRedis.zUnionStore.mock.calls[0] as [
+      string,
+      string[],
+      { WEIGHTS: number[] },
+    ];
+    expect(key).toBe('tags:trending:24h');
+    expect(keys).toHaveLength(24);
+    expect(keys[0]).toBe('tags:uses:1h:1000');
+    expect(keys[23]).toBe('tags:uses:1h:977');
+    expect(WEIGHTS[0]).toBe(1);
+    expect(WEIGHTS[6]).toBeCloseTo(0.5);
+    expect(WEIGHTS[12]).toBeCloseTo(0.25);
+    expect(mockRedis.expire).toHaveBeenCalledWith('tags:trending:24h', 60);
+    expect(mockRedis.zRangeWithScores).toHaveBeenCalledWith(key, 0, 4, {
+      REV: true,
+    });
+    expect(result).toEqual([{ tag: 'rome', score: 4.12 }]);
+  });
+
+  it('should serve a cached ranking without recomputing it', async () => {
+    mockRedis.exists.mockResolvedValue(1);
+
+    await service.trending(TrendWindow.Week, 10, now);
+
+    expect(mockRedis.zUnionStore).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisClientType } from 'redis';
+import { TrendWindow } from '../DTO/tag-query.dto';
+
+export interface TrendingTag {
+  tag: string;
+  // Decayed activity; only comparable within one window
+  score: number;
+}
+
+// Tag uses are counted per time bucket, in two sizes
+interface BucketSize {
+  name: string;
+  ms: number;
+  // How long buckets are kept, in seconds
+  ttl: number;
+}
+
+const FIVE_MINUTES: BucketSize = {
+  name: '5m',
+  ms: 5 * 60 * 1000,
+  ttl: 2 * 60 * 60,
+};
+const HOUR: BucketSize = {
+  name: '1h',
+  ms: 60 * 60 * 1000,
+  ttl: 8 * 24 * 60 * 60,
+};
+
+/**
+ * A window adds up its latest buckets, each weighted by half for every
+ * halfLife of age, so a burst of activity fades out instead of dropping off
+ * when it leaves the window.
+ */
+const WINDOWS: Record<
+  TrendWindow,
+  { size: BucketSize; buckets: number; halfLife: number }
+> = {
+  [TrendWindow.Hour]: {
+    size: FIVE_MINUTES,
+    buckets: 12,
+    halfLife: 30 * 60 * 1000,
+  },
+  [TrendWindow.Day]: { size: HOUR, buckets: 24, halfLife: 6 * HOUR.ms },
+  [TrendWindow.Week]: { size: HOUR, buckets: 168, halfLife: 48 * HOUR.ms },
+};
+
+// A post using a tag counts as much as this many likes on posts using it
+const POST_WEIGHT = 3;
+const LIKE_WEIGHT = 1;
+
+/**
+ * Trending tags from Redis sorted sets. Every published post and every like
+ * adds to its tags' scores in the current buckets; the ranking of a window is
+ * a weighted union of its buckets, cached for TRENDING_CACHE_SECONDS.
+ */
+@Injectable()
+export class TrendingTagsService {
+  private readonly cacheSeconds: number;
+
+  constructor(
+    @Inject('REDIS_CLIENT') private readonly redisClient: RedisClientType,
+    private configService: ConfigService,
+  ) {
+    this.cacheSeconds = Number(
+      this.configService.get('TRENDING_CACHE_SECONDS', 60),
+    );
+  }
+
+  async recordPost(tags: string[], at = new Date()): Promise<void> {
+    await this.record(tags, POST_WEIGHT, at);
+  }
+
+  async recordLike(tags: string[], at = new Date()): Promise<void> {
+    await this.record(tags, LIKE_WEIGHT, at);
+  }
+
+  async trending(
+    window: TrendWindow,
+    limit: number,
+    now = new Date(),
+  ): Promise<TrendingTag[]> {
+    const rankingKey = `tags:trending:${window}`;
+    if (!(await this.redisClient.exists(rankingKey))) {
+      const { size, buckets, halfLife } = WINDOWS[window];
+      const current = this.bucket(size, now);
+      const keys: string[] = [];
+      const weights: number[] = [];
+      for (let age = 0; age < buckets; age++) {
+        keys.push(this.bucketKey(size, current - age));
+        weights.push(0.5 ** ((age * size.ms) / halfLife));
+      }
+      await this.redisClient.zUnionStore(rankingKey, keys, {
+        WEIGHTS: weights,
+      });
+      await this.redisClient.expire(rankingKey, this.cacheSeconds);
+    }
+
+    const ranking = await this.redisClient.zRangeWithScores(
+      rankingKey,
+      0,
+      limit - 1,
+      { REV: true },
+    );
+    return ranking.map(({ value, score }) => ({
+      tag: value,
+      score: Math.round(score * 100) / 100,
+    }));
+  }
+
+  private async record(
+    tags: string[],
+    weight: number,
+    at: Date,
+  ): Promise<void> {
+    if (tags.length === 0) {
+      return;
+    }
+    const batch = this.redisClient.multi();
+    for (const size of [FIVE_MINUTES, HOUR]) {
+      const key = this.bucketKey(size, this.bucket(size, at));
+      tags.forEach((tag) => batch.zIncrBy(key, weight, tag));
+      batch.expire(key, size.ttl);
+    }
+    await batch.exec();
+  }
+
+  private bucket(size: BucketSize, at: Date): number {
+    return Math.floor(at.getTime() / size.ms);
+  }
+
+  private bucketKey(size: BucketSize, bucket: number): string {
+    return `tags:uses:${size.name}:${bucket}`;
+  }
+}
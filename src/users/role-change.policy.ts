@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AccessDeniedReason } from '../policies/access-denied.exception';
+import {
+  allow,
+  AuthenticatedUser,
+  deny,
+  isAdmin,
+  PolicyDecision,
+  PolicyHandler,
+} from '../policies/policy';
+
+@Injectable()
+export class RoleChangePolicy implements PolicyHandler {
+  handle(user: AuthenticatedUser, request: Request): PolicyDecision {
+    const body = request.body as { role?: unknown } | undefined;
+    if (body?.role === undefined || isAdmin(user)) {
+      return allow();
+    }
+    return deny(
+      AccessDeniedReason.ForbiddenField,
+      'Only admins can change roles',
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+import { MediaService } from '../media/media.service';
 
 describe('UsersController', () => {
   let controller: UsersController;
@@ -7,6 +9,10 @@ describe('UsersController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [UsersController],
+      providers: [
+        { provide: UsersService, useValue: {} },
+        { provide: MediaService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<UsersController>(UsersController);
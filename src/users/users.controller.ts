@@ -1,17 +1,48 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Req } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ValidationPipe,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { UsersService } from './users.service';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
-import { AuthGuard } from '../auth/auth.guard';
-import { User } from '../entities/users/users.entity';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
 import { Public } from '../auth/decorators/public.decorators';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+import { Scope } from '../entities/api-keys/api-key.entity';
+import { CheckPolicies } from '../policies/check-policies.decorator';
+import { SelfOrAdminPolicy } from '../policies/self-or-admin.policy';
+import { RoleChangePolicy } from './role-change.policy';
+import { UpdateUserDTO } from '../DTO/update-user-dto';
+import { MediaService } from '../media/media.service';
+import { IMAGE_UPLOAD_BODY } from '../media/media.controller';
+import { VariantName } from '../entities/media/media.entity';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../policies/policy';
 
 @ApiTags('users')
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly mediaService: MediaService,
+  ) {}
 
   @Get()
-  @UseGuards(AuthGuard)
+  @Scopes(Scope.UsersRead)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get all users' })
   @ApiResponse({ status: 200, description: 'Return all users.' })
@@ -20,7 +51,7 @@ export class UsersController {
   }
 
   @Get(':id')
-  @UseGuards(AuthGuard)
+  @Scopes(Scope.UsersRead)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get a user by id' })
   @ApiResponse({ status: 200, description: 'Return the user.' })
@@ -30,47 +61,63 @@ export class UsersController {
   }
 
   @Patch(':id')
-  @UseGuards(AuthGuard)
+  @Scopes(Scope.UsersWrite)
+  @CheckPolicies(SelfOrAdminPolicy, RoleChangePolicy)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Update a user' })
   @ApiResponse({ status: 200, description: 'User successfully updated.' })
+  @ApiResponse({
+    status: 403,
+    description: 'Not the user or an admin, or a non-admin changing a role.',
+  })
   @ApiResponse({ status: 404, description: 'User not found.' })
-  update(@Param('id') id: string, @Body() updateUserDto: Partial<User>) {
+  update(
+    @Param('id') id: string,
+    @Body(new ValidationPipe({ whitelist: true })) updateUserDto: UpdateUserDTO,
+  ) {
     return this.usersService.update(id, updateUserDto);
   }
 
   @Delete(':id')
-  @UseGuards(AuthGuard)
+  @Scopes(Scope.UsersWrite)
+  @CheckPolicies(SelfOrAdminPolicy)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete a user' })
   @ApiResponse({ status: 200, description: 'User successfully deleted.' })
+  @ApiResponse({ status: 403, description: 'Not the user or an admin.' })
   @ApiResponse({ status: 404, description: 'User not found.' })
   remove(@Param('id') id: string) {
     return this.usersService.delete(id);
   }
 
   @Post(':id/follow')
-  @UseGuards(AuthGuard)
+  @Scopes(Scope.UsersWrite)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Follow a user' })
   @ApiResponse({ status: 200, description: 'Successfully followed user.' })
   @ApiResponse({ status: 404, description: 'User not found.' })
-  followUser(@Param('id') userToFollowId: string, @Req() req: any) {
-    return this.usersService.followUser(req.user.sub, userToFollowId);
+  followUser(
+    @Param('id') userToFollowId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.usersService.followUser(user.sub, userToFollowId);
   }
 
   @Post(':id/unfollow')
-  @UseGuards(AuthGuard)
+  @Scopes(Scope.UsersWrite)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Unfollow a user' })
   @ApiResponse({ status: 200, description: 'Successfully unfollowed user.' })
   @ApiResponse({ status: 404, description: 'User not found.' })
-  unfollowUser(@Param('id') userToUnfollowId: string, @Req() req: any) {
-    return this.usersService.unfollowUser(req.user.sub, userToUnfollowId);
+  unfollowUser(
+    @Param('id') userToUnfollowId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.usersService.unfollowUser(user.sub, userToUnfollowId);
   }
 
   @Get(':id/followers')
-  @UseGuards(AuthGuard)
+  @Scopes(Scope.UsersRead)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get user followers' })
   @ApiResponse({ status: 200, description: 'Return user followers.' })
@@ -80,7 +127,7 @@ export class UsersController {
   }
 
   @Get(':id/following')
-  @UseGuards(AuthGuard)
+  @Scopes(Scope.UsersRead)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get users that the user is following' })
   @ApiResponse({ status: 200, description: 'Return following users.' })
@@ -90,15 +137,43 @@ export class UsersController {
   }
 
   @Patch(':id/profile-photo')
-  @UseGuards(AuthGuard)
+  @Scopes(Scope.UsersWrite)
+  @CheckPolicies(SelfOrAdminPolicy)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Update user profile photo' })
-  @ApiResponse({ status: 200, description: 'Profile photo successfully updated.' })
+  @ApiResponse({
+    status: 200,
+    description: 'Profile photo successfully updated.',
+  })
+  @ApiResponse({ status: 403, description: 'Not the user or an admin.' })
   @ApiResponse({ status: 404, description: 'User not found.' })
   updateProfilePhoto(
     @Param('id') id: string,
-    @Body('profilePhoto') profilePhoto: string
+    @Body('profilePhoto') profilePhoto: string,
   ) {
     return this.usersService.updateProfilePhoto(id, profilePhoto);
   }
-}
\ No newline at end of file
+
+  @Post(':id/profile-photo')
+  @Scopes(Scope.UsersWrite)
+  @CheckPolicies(SelfOrAdminPolicy)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiBearerAuth()
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(IMAGE_UPLOAD_BODY)
+  @ApiOperation({ summary: 'Upload a new profile photo' })
+  @ApiResponse({ status: 201, description: 'Profile photo uploaded and set.' })
+  @ApiResponse({ status: 403, description: 'Not the user or an admin.' })
+  @ApiResponse({ status: 413, description: 'File too large.' })
+  @ApiResponse({ status: 415, description: 'Not a JPEG, PNG or WebP image.' })
+  async uploadProfilePhoto(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    const media = await this.mediaService.upload(id, file);
+    return this.usersService.updateProfilePhoto(
+      id,
+      this.mediaService.variantUrl(media, VariantName.Medium),
+    );
+  }
+}
@@ -4,14 +4,21 @@ import { User, UserSchema } from 'src/entities/users/users.entity';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 import { Neo4jModule } from '../neo4j/neo4j.module';
+import { HashingModule } from '../hashing/hashing.module';
+import { RoleChangePolicy } from './role-change.policy';
+import { FeedModule } from '../feed/feed.module';
+import { MediaModule } from '../media/media.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
-    Neo4jModule
+    Neo4jModule,
+    HashingModule,
+    FeedModule,
+    MediaModule
   ],
   controllers: [UsersController],
-  providers: [UsersService],
+  providers: [UsersService, RoleChangePolicy],
   exports: [UsersService],
 })
 export class UsersModule {}
\ No newline at end of file
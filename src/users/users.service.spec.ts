@@ -1,12 +1,50 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { UsersService } from './users.service';
+import { User } from '../entities/users/users.entity';
+import { Neo4jService } from '../neo4j/neo4j.service';
+import { HashingService } from '../hashing/hashing.service';
+import { FeedService } from '../feed/feed.service';
 
 describe('UsersService', () => {
   let service: UsersService;
 
+  // Stands in for the model constructor: new userModel(fields).save()
+  const saved: Record<string, unknown>[] = [];
+  const mockUserModel = Object.assign(
+    jest.fn((fields: Record<string, unknown>) => ({
+      save: () => {
+        const user = { _id: new Types.ObjectId(), ...fields };
+        saved.push(user);
+        return Promise.resolve(user);
+      },
+    })),
+    { findOne: jest.fn(), findByIdAndDelete: jest.fn() },
+  );
+
+  const mockHashingService = {
+    hash: jest.fn((plain: string) => Promise.resolve(`hashed:${plain}`)),
+  };
+
+  const mockNeo4jService = {
+    createUser: jest.fn(),
+  };
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    saved.length = 0;
+    mockUserModel.findOne.mockResolvedValue(null);
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UsersService],
+      providers: [
+        UsersService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: Neo4jService, useValue: mockNeo4jService },
+        { provide: HashingService, useValue: mockHashingService },
+        { provide: FeedService, useValue: {} },
+      ],
     }).compile();
 
     service = module.get<UsersService>(UsersService);
@@ -15,4 +53,31 @@ describe('UsersService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('create', () => {
+    it('should store the password hashed', async () => {
+      await service.create({ email: 'ale@ale.com', password: 'password123' });
+
+      expect(saved[0]).toMatchObject({
+        email: 'ale@ale.com',
+        password: 'hashed:password123',
+      });
+    });
+
+    it('should require a password', async () => {
+      await expect(service.create({ email: 'ale@ale.com' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(saved).toHaveLength(0);
+    });
+  });
+
+  describe('createWithoutPassword', () => {
+    it('should store the user without a password', async () => {
+      await service.createWithoutPassword({ email: 'ale@ale.com' });
+
+      expect(saved[0]).not.toHaveProperty('password');
+      expect(mockHashingService.hash).not.toHaveBeenCalled();
+    });
+  });
 });
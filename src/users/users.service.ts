@@ -1,17 +1,36 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { User, UserDocument } from '../entities/users/users.entity';
 import { Neo4jService } from '../neo4j/neo4j.service';
+import { HashingService } from '../hashing/hashing.service';
+import { FeedService } from '../feed/feed.service';
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
-    private neo4jService: Neo4jService
+    private neo4jService: Neo4jService,
+    private hashingService: HashingService,
+    private feedService: FeedService
   ) {}
 
   async create(createUserDto: Partial<User>): Promise<UserDocument> {
+    if (!createUserDto.password) {
+      throw new BadRequestException('A password is required');
+    }
+    return this.insert({
+      ...createUserDto,
+      password: await this.hashingService.hash(createUserDto.password),
+    });
+  }
+
+  // For accounts that sign in through an identity provider only
+  async createWithoutPassword(createUserDto: Omit<Partial<User>, 'password'>): Promise<UserDocument> {
+    return this.insert(createUserDto);
+  }
+
+  private async insert(createUserDto: Partial<User>): Promise<UserDocument> {
     // Check if email already exists
     const existingEmail = await this.userModel.findOne({ email: createUserDto.email });
     if (existingEmail) {
@@ -57,6 +76,14 @@ export class UsersService {
     return this.userModel.findOne({ email }).exec();
   }
 
+  async existsByUsername(username: string): Promise<boolean> {
+    return (await this.userModel.exists({ username })) !== null;
+  }
+
+  async findOneWithPassword(email: string): Promise<UserDocument | null> {
+    return this.userModel.findOne({ email }).select('+password').exec();
+  }
+
   async findById(id: string): Promise<UserDocument> {
     if (!Types.ObjectId.isValid(id)) {
       throw new NotFoundException('Invalid user ID');
@@ -73,8 +100,13 @@ export class UsersService {
       throw new NotFoundException('Invalid user ID');
     }
 
+    const update = { ...updateUserDto };
+    if (update.password !== undefined) {
+      update.password = await this.hashingService.hash(update.password);
+    }
+
     const updatedUser = await this.userModel
-      .findByIdAndUpdate(id, updateUserDto, { new: true })
+      .findByIdAndUpdate(id, update, { new: true })
       .select('-password')
       .exec();
 
@@ -85,6 +117,86 @@ export class UsersService {
     return updatedUser;
   }
 
+  async setPassword(id: string, password: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Invalid user ID');
+    }
+
+    const hash = await this.hashingService.hash(password);
+    const result = await this.userModel.updateOne({ _id: id }, { password: hash }).exec();
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('User not found');
+    }
+  }
+
+  async findByIdWithSecrets(id: string): Promise<UserDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Invalid user ID');
+    }
+    const user = await this.userModel
+      .findById(id)
+      .select('+password +twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes')
+      .exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  async setPendingTwoFactorSecret(id: string, secret: string): Promise<void> {
+    await this.userModel.updateOne({ _id: id }, { twoFactorPendingSecret: secret }).exec();
+  }
+
+  async enableTwoFactor(id: string, secret: string, recoveryCodeHashes: string[]): Promise<void> {
+    await this.userModel
+      .updateOne(
+        { _id: id },
+        {
+          twoFactorEnabled: true,
+          twoFactorSecret: secret,
+          twoFactorRecoveryCodes: recoveryCodeHashes,
+          $unset: { twoFactorPendingSecret: 1 },
+        },
+      )
+      .exec();
+  }
+
+  async disableTwoFactor(id: string): Promise<void> {
+    await this.userModel
+      .updateOne(
+        { _id: id },
+        {
+          twoFactorEnabled: false,
+          $unset: { twoFactorSecret: 1, twoFactorPendingSecret: 1, twoFactorRecoveryCodes: 1 },
+        },
+      )
+      .exec();
+  }
+
+  // Atomic, so a recovery code can't be used twice by concurrent requests
+  async consumeRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const result = await this.userModel
+      .updateOne(
+        { _id: id, twoFactorRecoveryCodes: codeHash },
+        { $pull: { twoFactorRecoveryCodes: codeHash } },
+      )
+      .exec();
+    return result.modifiedCount === 1;
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Invalid user ID');
+    }
+
+    const result = await this.userModel
+      .updateOne({ _id: id }, { emailVerified: true, emailVerifiedAt: new Date() })
+      .exec();
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('User not found');
+    }
+  }
+
   async delete(id: string): Promise<void> {
     if (!Types.ObjectId.isValid(id)) {
       throw new NotFoundException('Invalid user ID');
@@ -116,6 +228,7 @@ export class UsersService {
       userToFollowId,
       { $addToSet: { followers: userId } }
     );
+    await this.feedService.invalidate(userId);
 
     return user;
   }
@@ -141,6 +254,7 @@ export class UsersService {
       userToUnfollowId,
       { $pull: { followers: userId } }
     );
+    await this.feedService.invalidate(userId);
 
     return user;
   }